@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "SecurityEventType" AS ENUM ('LOGIN_SUCCESS', 'LOGIN_FAILURE', 'LOGOUT', 'SESSION_REVOKED', 'PASSWORD_CHANGED', 'TWO_FACTOR_ENABLED', 'TWO_FACTOR_DISABLED', 'ACCOUNT_LOCKED', 'ACCOUNT_UNLOCKED');
+
+-- CreateTable
+CREATE TABLE "security_events" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "type" "SecurityEventType" NOT NULL,
+    "ipAddress" VARCHAR(255),
+    "userAgent" VARCHAR(500),
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "security_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "security_events_userId_idx" ON "security_events"("userId");
+
+-- CreateIndex
+CREATE INDEX "security_events_userId_createdAt_idx" ON "security_events"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "security_events_type_idx" ON "security_events"("type");
+
+-- AddForeignKey
+ALTER TABLE "security_events" ADD CONSTRAINT "security_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "SecurityEventType" ADD VALUE 'EMAIL_CHANGED';
+ALTER TYPE "SecurityEventType" ADD VALUE 'ACCOUNT_DEACTIVATED';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "deletionScheduledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "users_deletionScheduledAt_idx" ON "users"("deletionScheduledAt");
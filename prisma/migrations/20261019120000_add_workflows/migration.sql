@@ -0,0 +1,100 @@
+-- CreateEnum
+CREATE TYPE "WorkflowStateCategory" AS ENUM ('TODO', 'IN_PROGRESS', 'DONE');
+
+-- CreateTable
+CREATE TABLE "workflow_states" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "name" VARCHAR(50) NOT NULL,
+    "category" "WorkflowStateCategory" NOT NULL,
+    "color" VARCHAR(7) NOT NULL DEFAULT '#94A3B8',
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workflow_states_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "workflow_transitions" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "fromStateId" TEXT NOT NULL,
+    "toStateId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workflow_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "workflow_states_projectId_position_idx" ON "workflow_states"("projectId", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_states_projectId_name_key" ON "workflow_states"("projectId", "name");
+
+-- CreateIndex
+CREATE INDEX "workflow_transitions_projectId_idx" ON "workflow_transitions"("projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_transitions_fromStateId_toStateId_key" ON "workflow_transitions"("fromStateId", "toStateId");
+
+-- AddForeignKey
+ALTER TABLE "workflow_states" ADD CONSTRAINT "workflow_states_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_transitions" ADD CONSTRAINT "workflow_transitions_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_transitions" ADD CONSTRAINT "workflow_transitions_fromStateId_fkey" FOREIGN KEY ("fromStateId") REFERENCES "workflow_states"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_transitions" ADD CONSTRAINT "workflow_transitions_toStateId_fkey" FOREIGN KEY ("toStateId") REFERENCES "workflow_states"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Create the default workflow for existing projects
+INSERT INTO "workflow_states" ("id", "projectId", "name", "category", "color", "position", "updatedAt")
+SELECT gen_random_uuid()::text, p."id", s."name", s."category"::"WorkflowStateCategory", s."color", s."position", CURRENT_TIMESTAMP
+FROM "projects" p
+CROSS JOIN (VALUES
+    ('To Do', 'TODO', '#94A3B8', 0),
+    ('In Progress', 'IN_PROGRESS', '#3B82F6', 1),
+    ('In Review', 'IN_PROGRESS', '#A855F7', 2),
+    ('Done', 'DONE', '#22C55E', 3),
+    ('Cancelled', 'DONE', '#EF4444', 4)
+) AS s("name", "category", "color", "position");
+
+INSERT INTO "workflow_transitions" ("id", "projectId", "fromStateId", "toStateId")
+SELECT gen_random_uuid()::text, f."projectId", f."id", t."id"
+FROM "workflow_states" f
+JOIN "workflow_states" t ON t."projectId" = f."projectId" AND t."id" <> f."id";
+
+-- Move tasks from the fixed statuses to the workflow states
+ALTER TABLE "tasks" ADD COLUMN     "stateId" TEXT;
+
+UPDATE "tasks" t
+SET "stateId" = s."id"
+FROM "workflow_states" s
+WHERE s."projectId" = t."projectId"
+  AND s."name" = CASE t."status"
+    WHEN 'TODO' THEN 'To Do'
+    WHEN 'IN_PROGRESS' THEN 'In Progress'
+    WHEN 'IN_REVIEW' THEN 'In Review'
+    WHEN 'DONE' THEN 'Done'
+    WHEN 'CANCELLED' THEN 'Cancelled'
+  END;
+
+ALTER TABLE "tasks" ALTER COLUMN "stateId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "tasks_projectId_status_idx";
+
+-- AlterTable
+ALTER TABLE "tasks" DROP COLUMN "status";
+
+-- DropEnum
+DROP TYPE "TaskStatus";
+
+-- CreateIndex
+CREATE INDEX "tasks_projectId_stateId_idx" ON "tasks"("projectId", "stateId");
+
+-- AddForeignKey
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "workflow_states"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+-- Ranks are compared byte-wise, independent of the database locale
+ALTER TABLE "tasks" ADD COLUMN     "rank" VARCHAR(255) COLLATE "C";
+
+-- Rank existing tasks by number within each state. The trailing '1' keeps
+-- ranks from ending with '0', which would leave no room before them.
+UPDATE "tasks" t
+SET "rank" = lpad(r."position"::text, 8, '0') || '1'
+FROM (
+    SELECT "id", row_number() OVER (PARTITION BY "stateId" ORDER BY "number") AS "position"
+    FROM "tasks"
+) r
+WHERE r."id" = t."id";
+
+ALTER TABLE "tasks" ALTER COLUMN "rank" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tasks_stateId_rank_key" ON "tasks"("stateId", "rank");
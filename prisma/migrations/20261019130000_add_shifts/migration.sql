@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "BreakType" AS ENUM ('SHORT', 'LUNCH');
+
+-- AlterTable
+ALTER TABLE "user_preferences" ADD COLUMN     "workDayStartTime" VARCHAR(5) NOT NULL DEFAULT '09:00';
+
+-- CreateTable
+CREATE TABLE "shifts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "clockInAt" TIMESTAMP(3) NOT NULL,
+    "clockOutAt" TIMESTAMP(3),
+    "timezone" VARCHAR(50) NOT NULL,
+    "isLate" BOOLEAN NOT NULL DEFAULT false,
+    "lateMinutes" INTEGER NOT NULL DEFAULT 0,
+    "clockInNotes" TEXT,
+    "clockOutNotes" TEXT,
+    "workedMinutes" INTEGER,
+    "autoClockedOut" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shift_breaks" (
+    "id" TEXT NOT NULL,
+    "shiftId" TEXT NOT NULL,
+    "type" "BreakType" NOT NULL DEFAULT 'SHORT',
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "autoEnded" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shift_breaks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "shifts_userId_clockInAt_idx" ON "shifts"("userId", "clockInAt");
+
+-- CreateIndex
+CREATE INDEX "shifts_workspaceId_clockInAt_idx" ON "shifts"("workspaceId", "clockInAt");
+
+-- CreateIndex
+CREATE INDEX "shift_breaks_shiftId_idx" ON "shift_breaks"("shiftId");
+
+-- A user can only have one open shift at a time
+CREATE UNIQUE INDEX "shifts_userId_open_key" ON "shifts"("userId") WHERE "clockOutAt" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "shifts" ADD CONSTRAINT "shifts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shifts" ADD CONSTRAINT "shifts_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_breaks" ADD CONSTRAINT "shift_breaks_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "shifts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
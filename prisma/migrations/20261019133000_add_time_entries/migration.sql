@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "TimeEntrySource" AS ENUM ('TIMER', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "workspaces" ADD COLUMN     "timeLockDate" DATE;
+
+-- CreateTable
+CREATE TABLE "time_entries" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "startedAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "durationMinutes" INTEGER NOT NULL,
+    "billable" BOOLEAN NOT NULL DEFAULT false,
+    "notes" TEXT,
+    "source" "TimeEntrySource" NOT NULL DEFAULT 'MANUAL',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "time_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "time_entries_taskId_idx" ON "time_entries"("taskId");
+
+-- CreateIndex
+CREATE INDEX "time_entries_userId_date_idx" ON "time_entries"("userId", "date");
+
+-- CreateIndex
+CREATE INDEX "time_entries_workspaceId_date_idx" ON "time_entries"("workspaceId", "date");
+
+-- AddForeignKey
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
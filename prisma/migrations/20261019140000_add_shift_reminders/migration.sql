@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "shifts" ADD COLUMN     "reminderSentAt" TIMESTAMP(3);
@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "TimesheetStatus" AS ENUM ('SUBMITTED', 'RECALLED', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "timesheets" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "weekStart" DATE NOT NULL,
+    "weekEnd" DATE NOT NULL,
+    "status" "TimesheetStatus" NOT NULL DEFAULT 'SUBMITTED',
+    "workedMinutes" INTEGER NOT NULL,
+    "regularMinutes" INTEGER NOT NULL,
+    "overtimeMinutes" INTEGER NOT NULL,
+    "billableMinutes" INTEGER NOT NULL,
+    "submittedAt" TIMESTAMP(3) NOT NULL,
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewComment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "timesheets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "timesheet_events" (
+    "id" TEXT NOT NULL,
+    "timesheetId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "fromStatus" "TimesheetStatus",
+    "toStatus" "TimesheetStatus" NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "timesheet_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "timesheets_workspaceId_status_idx" ON "timesheets"("workspaceId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "timesheets_workspaceId_userId_weekStart_key" ON "timesheets"("workspaceId", "userId", "weekStart");
+
+-- CreateIndex
+CREATE INDEX "timesheet_events_timesheetId_idx" ON "timesheet_events"("timesheetId");
+
+-- AddForeignKey
+ALTER TABLE "timesheets" ADD CONSTRAINT "timesheets_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheets" ADD CONSTRAINT "timesheets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheets" ADD CONSTRAINT "timesheets_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheet_events" ADD CONSTRAINT "timesheet_events_timesheetId_fkey" FOREIGN KEY ("timesheetId") REFERENCES "timesheets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheet_events" ADD CONSTRAINT "timesheet_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
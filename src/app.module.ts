@@ -1,19 +1,45 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { PrismaModule } from './common/prisma/prisma.module';
 import { UserModule } from './user/user.module';
 import { AuthModule } from './auth/auth.module';
 import { RedisModule } from './common/redis/redis.module';
+import { ClockModule } from './common/clock/clock.module';
+import { SchedulerModule } from './common/scheduler/scheduler.module';
+import { SessionModule } from './common/session/session.module';
+import { RateLimitModule } from './common/rate-limit/rate-limit.module';
+import { MailModule } from './common/mail/mail.module';
+import { WorkspaceModule } from './workspace/workspace.module';
+import { ProjectModule } from './project/project.module';
+import { TaskModule } from './task/task.module';
+import { TimeModule } from './time/time.module';
+import { TimesheetModule } from './timesheet/timesheet.module';
+import { CalendarModule } from './calendar/calendar.module';
+import { ExportModule } from './export/export.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
     }),
+    ScheduleModule.forRoot(),
     RedisModule,
+    ClockModule,
+    SchedulerModule,
+    SessionModule,
+    RateLimitModule,
+    MailModule,
     PrismaModule,
     AuthModule,
     UserModule,
+    WorkspaceModule,
+    ProjectModule,
+    TaskModule,
+    TimeModule,
+    TimesheetModule,
+    CalendarModule,
+    ExportModule,
   ],
   providers: [],
 })
@@ -0,0 +1,2 @@
+// Time allowed to complete the second factor after the first login step
+export const TWO_FACTOR_PENDING_TTL_MS = 5 * 60 * 1000;
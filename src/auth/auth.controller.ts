@@ -1,10 +1,14 @@
 import {
   Body,
   Controller,
+  Delete,
+  Get,
   HttpCode,
   HttpStatus,
+  Param,
   Post,
   Request as ReqDecorator,
+  Res,
   UseGuards,
 } from '@nestjs/common';
 import {
@@ -17,13 +21,31 @@ import { AuthService } from './auth.service';
 import { RegisterDto } from './dto/register.dto';
 import { RegisterResponseDto } from './dto/register-response.dto';
 import { LoginResponseDto } from './dto/login-response.dto';
-import { Request } from 'express';
+import { MeResponseDto } from './dto/me-response.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { PasswordResetService } from './password-reset.service';
+import { Request, Response } from 'express';
 import { LocalAuthGuard } from './guards/local-auth.guard';
+import { OidcAuthGuard } from './guards/oidc-auth.guard';
+import { ConfigService } from '@nestjs/config';
+import { AuthenticatedGuard } from './guards/authenticated.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { SESSION_COOKIE_NAME } from 'src/common/session/session.constants';
+import { extractRequestMetadata } from 'src/common/utils/request-metadata.util';
 
 @ApiTags('Auth')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly configService: ConfigService,
+  ) {}
 
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
@@ -38,15 +60,188 @@ export class AuthController {
     };
   }
 
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Verify email address with a token' })
+  @ApiOkResponse({ type: LoginResponseDto })
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    const result = await this.authService.verifyEmail(verifyEmailDto.token);
+
+    return {
+      message: 'Email verified successfully',
+      data: result,
+    };
+  }
+
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resend the email verification link' })
+  async resendVerification(@Body() resendDto: ResendVerificationDto) {
+    await this.authService.resendVerification(resendDto.email);
+
+    return {
+      message:
+        'If the account exists and is not verified, a verification email has been sent',
+      data: null,
+    };
+  }
+
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Request a password reset email' })
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    await this.passwordResetService.requestReset(forgotPasswordDto.email);
+
+    return {
+      message:
+        'If an account exists for this email, a password reset link has been sent',
+      data: null,
+    };
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reset password with a reset token' })
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+    @ReqDecorator() req: Request,
+  ) {
+    await this.passwordResetService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.password,
+      extractRequestMetadata(req),
+    );
+
+    return {
+      message: 'Password reset successfully',
+      data: null,
+    };
+  }
+
   @UseGuards(LocalAuthGuard)
   @Post('login')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Login user' })
   @ApiOkResponse({ type: LoginResponseDto })
   login(@ReqDecorator() req: Request) {
+    if ((req.user as SafeUser).twoFactorEnabled) {
+      return {
+        message: 'Two-factor authentication required',
+        data: { twoFactorRequired: true },
+      };
+    }
+
     return {
       message: 'User login successfully',
       data: req.user,
     };
   }
+
+  @UseGuards(OidcAuthGuard)
+  @Get('oidc/login')
+  @ApiOperation({ summary: 'Redirect to the external identity provider' })
+  oidcLogin() {
+    // The guard redirects to the identity provider
+  }
+
+  @UseGuards(OidcAuthGuard)
+  @Get('oidc/callback')
+  @ApiOperation({ summary: 'Handle the identity provider callback' })
+  oidcCallback(@ReqDecorator() req: Request, @Res() res: Response) {
+    const origin =
+      this.configService.get<string>('CLIENT_ORIGIN') ||
+      'http://localhost:3000';
+
+    // The client finishes the login with POST /auth/2fa/verify
+    if ((req.user as SafeUser).twoFactorEnabled) {
+      return res.redirect(`${origin}?twoFactorRequired=true`);
+    }
+
+    res.redirect(origin);
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Get('me')
+  @ApiOperation({ summary: 'Get the currently authenticated user' })
+  @ApiOkResponse({ type: MeResponseDto })
+  async me(@CurrentUser() user: SafeUser) {
+    const result = await this.authService.getCurrentUser(user);
+
+    return {
+      message: 'User retrieved successfully',
+      data: result,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Logout user and destroy the session' })
+  async logout(
+    @ReqDecorator() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    await this.authService.logout(req);
+    res.clearCookie(SESSION_COOKIE_NAME);
+
+    return {
+      message: 'User logout successfully',
+      data: null,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Get('sessions')
+  @ApiOperation({ summary: 'List active sessions of the current user' })
+  @ApiOkResponse({ type: SessionResponseDto, isArray: true })
+  async sessions(@CurrentUser() user: SafeUser, @ReqDecorator() req: Request) {
+    const result = await this.authService.listSessions(user.id, req.sessionID);
+
+    return {
+      message: 'Sessions retrieved successfully',
+      data: result,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Delete('sessions')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Logout from all sessions except the current one' })
+  async revokeOtherSessions(
+    @CurrentUser() user: SafeUser,
+    @ReqDecorator() req: Request,
+  ) {
+    const result = await this.authService.revokeOtherSessions(
+      user.id,
+      req.sessionID,
+      extractRequestMetadata(req),
+    );
+
+    return {
+      message: 'Other sessions revoked successfully',
+      data: result,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke a session of the current user' })
+  async revokeSession(
+    @CurrentUser() user: SafeUser,
+    @ReqDecorator() req: Request,
+    @Param('id') sessionId: string,
+  ) {
+    await this.authService.revokeSession(
+      user.id,
+      sessionId,
+      req.sessionID,
+      extractRequestMetadata(req),
+    );
+
+    return {
+      message: 'Session revoked successfully',
+      data: null,
+    };
+  }
 }
@@ -4,10 +4,33 @@ import { AuthController } from './auth.controller';
 import { PassportModule } from '@nestjs/passport';
 import { UserModule } from '../user/user.module';
 import { LocalStrategy } from './strategies/local.strategy';
+import { SessionSerializer } from './serializers/session.serializer';
+import { SecurityEventsModule } from 'src/security-events/security-events.module';
+import { VerificationModule } from 'src/verification/verification.module';
+import { WorkspaceModule } from 'src/workspace/workspace.module';
+import { PasswordResetService } from './password-reset.service';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorController } from './two-factor.controller';
+import { OidcService } from './oidc/oidc.service';
+import { OidcStrategy } from './strategies/oidc.strategy';
 
 @Module({
-  imports: [PassportModule.register({ session: true }), UserModule],
-  controllers: [AuthController],
-  providers: [AuthService, LocalStrategy],
+  imports: [
+    PassportModule.register({ session: true }),
+    UserModule,
+    SecurityEventsModule,
+    VerificationModule,
+    WorkspaceModule,
+  ],
+  controllers: [AuthController, TwoFactorController],
+  providers: [
+    AuthService,
+    PasswordResetService,
+    TwoFactorService,
+    LocalStrategy,
+    OidcService,
+    OidcStrategy,
+    SessionSerializer,
+  ],
 })
 export class AuthModule {}
@@ -1,18 +1,222 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
 import { PrismaService } from 'src/common/prisma/prisma.service';
 import { RegisterDto } from './dto/register.dto';
 import { UserService } from 'src/user/user.service';
+import { SessionService } from 'src/common/session/session.service';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { SecurityEventsService } from 'src/security-events/security-events.service';
+import { SecurityEventType } from 'generated/prisma/client';
+import { EmailVerificationService } from 'src/verification/email-verification.service';
+import { TwoFactorService } from './two-factor.service';
+import { WorkspaceService } from 'src/workspace/workspace.service';
+import { InvitationService } from 'src/workspace/invitation.service';
+import { getPermissions } from 'src/authorization/permissions';
+import './interfaces/pending-two-factor.interface';
+import {
+  extractRequestMetadata,
+  RequestMetadata,
+} from 'src/common/utils/request-metadata.util';
+
+// Wrong codes allowed before the pending login is discarded
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
 
 @Injectable()
 export class AuthService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly userService: UserService,
+    private readonly sessionService: SessionService,
+    private readonly securityEvents: SecurityEventsService,
+    private readonly emailVerification: EmailVerificationService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly workspaceService: WorkspaceService,
+    private readonly invitationService: InvitationService,
   ) {}
 
   async register(userData: RegisterDto) {
-    const user = await this.userService.createUser(userData);
+    // Invited users proved ownership of the email by receiving the token
+    if (userData.invitationToken) {
+      const invitation = await this.invitationService.findPending(
+        userData.invitationToken,
+      );
+      if (invitation.email !== userData.email.toLowerCase().trim()) {
+        throw new BadRequestException(
+          'Email does not match the invited email address',
+        );
+      }
+    }
+
+    const user = await this.userService.createUser(userData, {
+      emailVerified: !!userData.invitationToken,
+    });
+
+    if (userData.createPersonalWorkspace) {
+      await this.workspaceService.createPersonalWorkspace(user.id, user.name);
+    }
+
+    if (userData.invitationToken) {
+      await this.invitationService.acceptInvitation(
+        userData.invitationToken,
+        user,
+      );
+    } else {
+      await this.emailVerification.sendVerificationEmail(user);
+    }
+
+    return user;
+  }
+
+  /**
+   * The current user with their workspaces and the permissions granted
+   * in each, so clients can hide actions the user cannot perform
+   */
+  async getCurrentUser(user: SafeUser) {
+    const workspaces = await this.workspaceService.listForUser(user.id);
+
+    return {
+      ...user,
+      workspaces: workspaces.map(({ id, name, slug, isPersonal, role }) => ({
+        id,
+        name,
+        slug,
+        isPersonal,
+        role,
+        permissions: getPermissions(role),
+      })),
+    };
+  }
+
+  async verifyEmail(token: string) {
+    return this.emailVerification.verifyEmail(token);
+  }
+
+  async resendVerification(email: string): Promise<void> {
+    await this.emailVerification.resendVerificationEmail(email);
+  }
+
+  /**
+   * Finish a login that is waiting for the second factor
+   */
+  async completeTwoFactorLogin(req: Request, code: string): Promise<SafeUser> {
+    const pending = req.session.pendingTwoFactor;
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      throw new UnauthorizedException(
+        'No pending login. Please sign in with your password again.',
+      );
+    }
+
+    const user = await this.userService.findSignInCandidate(pending.userId);
+    if (!user) {
+      delete req.session.pendingTwoFactor;
+      throw new UnauthorizedException('Invalid username or password');
+    }
+
+    const metadata = extractRequestMetadata(req);
+    await this.userService.assertTwoFactorAllowed(
+      user,
+      pending.identifier,
+      metadata,
+    );
+
+    const isValid = await this.twoFactorService.verifyCode(
+      pending.userId,
+      code,
+    );
+    if (!isValid) {
+      pending.attempts += 1;
+      if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+        delete req.session.pendingTwoFactor;
+      }
+      await this.userService.recordFailedTwoFactor(
+        user.id,
+        pending.identifier,
+        metadata,
+      );
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    // Logging in regenerates the session, which drops the pending state
+    await new Promise<void>((resolve, reject) =>
+      req.logIn(user, (err?: Error) => (err ? reject(err) : resolve())),
+    );
+
+    await this.sessionService.track(user.id, req.sessionID, metadata);
+    await this.userService.resetLoginLimits(user.id, pending.identifier);
+    await this.userService.recordSuccessfulLogin(user.id, metadata);
 
     return user;
   }
+
+  /**
+   * Log the user out and destroy the session in the store
+   */
+  async logout(req: Request): Promise<void> {
+    const user = req.user as SafeUser;
+
+    await this.sessionService.destroyCurrent(req);
+    await this.securityEvents.logEvent(
+      user.id,
+      SecurityEventType.LOGOUT,
+      extractRequestMetadata(req),
+    );
+  }
+
+  async listSessions(userId: string, currentSessionId: string) {
+    const sessions = await this.sessionService.list(userId);
+
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+    currentSessionId: string,
+    metadata?: RequestMetadata,
+  ): Promise<void> {
+    if (sessionId === currentSessionId) {
+      throw new BadRequestException(
+        'Use logout to terminate the current session',
+      );
+    }
+
+    await this.sessionService.revoke(userId, sessionId);
+    await this.securityEvents.logEvent(
+      userId,
+      SecurityEventType.SESSION_REVOKED,
+      metadata,
+      { sessionId },
+    );
+  }
+
+  async revokeOtherSessions(
+    userId: string,
+    currentSessionId: string,
+    metadata?: RequestMetadata,
+  ) {
+    const revoked = await this.sessionService.revokeAll(
+      userId,
+      currentSessionId,
+    );
+
+    if (revoked > 0) {
+      await this.securityEvents.logEvent(
+        userId,
+        SecurityEventType.SESSION_REVOKED,
+        metadata,
+        { revoked },
+      );
+    }
+
+    return { revoked };
+  }
 }
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString } from 'class-validator';
+import { TwoFactorCodeDto } from './two-factor-code.dto';
+
+export class DisableTwoFactorDto extends TwoFactorCodeDto {
+  @ApiProperty({
+    description: 'Current password for the account',
+    example: 'SecurePass123!',
+  })
+  @IsString()
+  password: string;
+}
@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from 'generated/prisma/client';
 
 export class LoginResponseDto {
   @ApiProperty({
@@ -39,6 +40,13 @@ export class LoginResponseDto {
   })
   image: string | null;
 
+  @ApiProperty({
+    description: 'Platform role of the user',
+    enum: UserRole,
+    example: UserRole.USER,
+  })
+  role: UserRole;
+
   @ApiProperty({
     description: 'Whether the user account is active',
     example: true,
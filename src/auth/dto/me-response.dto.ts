@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { WorkspaceRole } from 'generated/prisma/client';
+import { LoginResponseDto } from './login-response.dto';
+import { Permission, PERMISSIONS } from 'src/authorization/permissions';
+
+export class MeWorkspaceDto {
+  @ApiProperty({
+    description: 'Unique workspace identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Workspace name',
+    example: 'Acme Inc.',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Unique workspace slug',
+    example: 'acme',
+  })
+  slug: string;
+
+  @ApiProperty({
+    description: 'Whether this is the personal workspace of the user',
+    example: false,
+  })
+  isPersonal: boolean;
+
+  @ApiProperty({
+    description: 'Role of the user in the workspace',
+    enum: WorkspaceRole,
+    example: WorkspaceRole.MEMBER,
+  })
+  role: WorkspaceRole;
+
+  @ApiProperty({
+    description: 'Permissions granted by the role',
+    enum: PERMISSIONS,
+    isArray: true,
+    example: ['workspace:read', 'task:create'],
+  })
+  permissions: Permission[];
+}
+
+export class MeResponseDto extends LoginResponseDto {
+  @ApiProperty({
+    description: 'Workspaces of the user with the resolved permissions',
+    type: MeWorkspaceDto,
+    isArray: true,
+  })
+  workspaces: MeWorkspaceDto[];
+}
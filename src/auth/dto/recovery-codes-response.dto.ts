@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RecoveryCodesResponseDto {
+  @ApiProperty({
+    description: 'One-time recovery codes, shown only once',
+    example: ['3f9a1-0c2d7', '8b41e-77a0f'],
+    isArray: true,
+  })
+  recoveryCodes: string[];
+}
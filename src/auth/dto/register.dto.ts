@@ -1,6 +1,8 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import {
+  IsBoolean,
   IsEmail,
+  IsOptional,
   IsString,
   Matches,
   MaxLength,
@@ -64,4 +66,21 @@ export class RegisterDto {
       'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character',
   })
   password: string;
+
+  @ApiPropertyOptional({
+    description: 'Create a personal workspace for the new account',
+    example: true,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  createPersonalWorkspace?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Workspace invitation token. The email must match the invited address, which is then treated as verified.',
+  })
+  @IsOptional()
+  @IsString()
+  invitationToken?: string;
 }
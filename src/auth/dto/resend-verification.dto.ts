@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsString, MaxLength } from 'class-validator';
+
+export class ResendVerificationDto {
+  @ApiProperty({
+    description: 'Email address of the account',
+    example: 'john.doe@example.com',
+    format: 'email',
+  })
+  @IsString()
+  @MaxLength(255, { message: 'Email must not exceed 255 characters' })
+  @IsEmail({}, { message: 'Invalid email address' })
+  email: string;
+}
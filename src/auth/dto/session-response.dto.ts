@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+  @ApiProperty({
+    description: 'Session identifier',
+    example: 'mXk1c3ZxQ2p0b0dQb3pQd2hQb1Z5',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'IP address the session was created from',
+    example: '203.0.113.42',
+    nullable: true,
+  })
+  ipAddress: string | null;
+
+  @ApiProperty({
+    description: 'User agent the session was created with',
+    example: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0)',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @ApiProperty({
+    description: 'Session creation timestamp',
+    example: '2024-01-01T00:00:00.000Z',
+    nullable: true,
+  })
+  createdAt: string | null;
+
+  @ApiProperty({
+    description: 'Whether this is the session making the request',
+    example: true,
+  })
+  current: boolean;
+}
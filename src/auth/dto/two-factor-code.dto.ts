@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, Length } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: 'Code from the authenticator app or a recovery code',
+    example: '123456',
+  })
+  @IsString()
+  @Length(6, 11, { message: 'Invalid two-factor code' })
+  code: string;
+}
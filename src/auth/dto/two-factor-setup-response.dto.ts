@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorSetupResponseDto {
+  @ApiProperty({
+    description: 'Base32 encoded secret for manual entry',
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+  })
+  secret: string;
+
+  @ApiProperty({
+    description: 'otpauth URI to render as a QR code',
+    example:
+      'otpauth://totp/TaskSine%3Ajohn.doe%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=TaskSine&algorithm=SHA1&digits=6&period=30',
+  })
+  otpauthUri: string;
+}
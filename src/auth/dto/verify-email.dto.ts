@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, Length } from 'class-validator';
+
+export class VerifyEmailDto {
+  @ApiProperty({
+    description: 'Verification token received by email',
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+  })
+  @IsString()
+  @Length(64, 64, { message: 'Invalid verification token' })
+  token: string;
+}
@@ -0,0 +1,29 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { UserRole } from 'generated/prisma/client';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+
+/**
+ * Allows the request only for platform administrators.
+ * Must be used after AuthenticatedGuard.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    const user = request.user as SafeUser | undefined;
+
+    if (user?.role !== UserRole.ADMIN) {
+      throw new ForbiddenException(
+        'You do not have permission to perform this action',
+      );
+    }
+
+    return true;
+  }
+}
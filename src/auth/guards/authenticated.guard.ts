@@ -0,0 +1,23 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+
+/**
+ * Allows the request only when it carries an authenticated session
+ */
+@Injectable()
+export class AuthenticatedGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+
+    if (!request.isAuthenticated()) {
+      throw new UnauthorizedException('Authentication required');
+    }
+
+    return true;
+  }
+}
@@ -1,5 +1,35 @@
-import { Injectable } from '@nestjs/common';
+import { ExecutionContext, Injectable } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
+import { Request } from 'express';
+import { SessionService } from 'src/common/session/session.service';
+import { extractRequestMetadata } from 'src/common/utils/request-metadata.util';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
 
 @Injectable()
-export class LocalAuthGuard extends AuthGuard('local') {}
+export class LocalAuthGuard extends AuthGuard('local') {
+  constructor(private readonly sessionService: SessionService) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const result = (await super.canActivate(context)) as boolean;
+    const request = context.switchToHttp().getRequest<Request>();
+    const user = request.user as SafeUser;
+
+    // Users with 2FA are logged in only after POST /auth/2fa/verify
+    if (user.twoFactorEnabled) {
+      return result;
+    }
+
+    // Persist the authenticated user into the session
+    await super.logIn(request);
+
+    await this.sessionService.track(
+      user.id,
+      request.sessionID,
+      extractRequestMetadata(request),
+    );
+
+    return result;
+  }
+}
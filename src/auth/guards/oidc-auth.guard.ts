@@ -0,0 +1,55 @@
+import {
+  ExecutionContext,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { Request } from 'express';
+import { SessionService } from 'src/common/session/session.service';
+import { extractRequestMetadata } from 'src/common/utils/request-metadata.util';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { UserService } from 'src/user/user.service';
+import { OidcService } from '../oidc/oidc.service';
+import { TWO_FACTOR_PENDING_TTL_MS } from '../auth.constants';
+import '../interfaces/pending-two-factor.interface';
+
+@Injectable()
+export class OidcAuthGuard extends AuthGuard('oidc') {
+  constructor(
+    private readonly oidcService: OidcService,
+    private readonly sessionService: SessionService,
+    private readonly userService: UserService,
+  ) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (!this.oidcService.isEnabled()) {
+      throw new NotFoundException('OIDC login is not configured');
+    }
+
+    const result = (await super.canActivate(context)) as boolean;
+    const request = context.switchToHttp().getRequest<Request>();
+    const user = request.user as SafeUser;
+    const metadata = extractRequestMetadata(request);
+
+    // Users with 2FA are logged in only after POST /auth/2fa/verify
+    if (user.twoFactorEnabled) {
+      request.session.pendingTwoFactor = {
+        userId: user.id,
+        identifier: user.username,
+        expiresAt: Date.now() + TWO_FACTOR_PENDING_TTL_MS,
+        attempts: 0,
+      };
+      return result;
+    }
+
+    // Persist the authenticated user into the session
+    await super.logIn(request);
+
+    await this.sessionService.track(user.id, request.sessionID, metadata);
+    await this.userService.recordSuccessfulLogin(user.id, metadata);
+
+    return result;
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Login that passed the password check and awaits the second factor
+ */
+export interface PendingTwoFactorLogin {
+  userId: string;
+  /** Username or email the login started with, for the rate limits */
+  identifier: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    pendingTwoFactor?: PendingTwoFactorLogin;
+  }
+}
@@ -0,0 +1,47 @@
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+export interface OidcTokenSet {
+  access_token: string;
+  token_type?: string;
+  id_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  picture?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Authorization request state kept in the session between
+ * the redirect to the provider and the callback
+ */
+export interface OidcAuthorizationState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    oidc?: OidcAuthorizationState;
+  }
+}
@@ -0,0 +1,353 @@
+import {
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, generateKeyPairSync, KeyObject, sign } from 'node:crypto';
+import { OidcAuthorizationState } from './oidc.interface';
+import { OidcService } from './oidc.service';
+
+const ISSUER = 'https://id.example.com';
+const CLIENT_ID = 'time-tracker';
+const REDIRECT_URI = 'https://app.example.com/api/v1/auth/oidc/callback';
+
+const CONFIG: Record<string, string> = {
+  OIDC_ISSUER: ISSUER,
+  OIDC_CLIENT_ID: CLIENT_ID,
+  OIDC_CLIENT_SECRET: 'client-secret',
+  OIDC_REDIRECT_URI: REDIRECT_URI,
+};
+
+const DISCOVERY = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/authorize`,
+  token_endpoint: `${ISSUER}/token`,
+  jwks_uri: `${ISSUER}/jwks`,
+};
+
+const EXPECTED: OidcAuthorizationState = {
+  state: 'expected-state',
+  nonce: 'expected-nonce',
+  codeVerifier: 'expected-verifier',
+};
+
+function generateSigningKey() {
+  return generateKeyPairSync('rsa', { modulusLength: 2048 });
+}
+
+function signToken(
+  claims: Record<string, unknown>,
+  privateKey: KeyObject,
+  header: Record<string, unknown> = { alg: 'RS256', kid: 'key-1' },
+): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  const data = `${encode(header)}.${encode(claims)}`;
+
+  return `${data}.${sign('sha256', Buffer.from(data), privateKey).toString('base64url')}`;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+describe('OidcService', () => {
+  const signingKey = generateSigningKey();
+  let service: OidcService;
+  let fetchMock: jest.SpyInstance<Promise<Response>, Parameters<typeof fetch>>;
+  let jwksResponses: { keys: object[] }[];
+  let tokenResponse: () => Response;
+
+  function publicJwk(publicKey: KeyObject, kid: string) {
+    return { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig' };
+  }
+
+  function validClaims(overrides: Record<string, unknown> = {}) {
+    const now = Math.floor(Date.now() / 1000);
+    return {
+      iss: ISSUER,
+      sub: 'subject-1',
+      aud: CLIENT_ID,
+      iat: now,
+      exp: now + 300,
+      nonce: EXPECTED.nonce,
+      email: 'ana@example.com',
+      email_verified: true,
+      ...overrides,
+    };
+  }
+
+  function issueIdToken(idToken: string) {
+    tokenResponse = () =>
+      jsonResponse({
+        access_token: 'access-token',
+        token_type: 'Bearer',
+        id_token: idToken,
+      });
+  }
+
+  function callback(params = { code: 'code-1', state: EXPECTED.state }) {
+    return service.handleCallback(params, EXPECTED);
+  }
+
+  function requestsTo(url: string) {
+    return fetchMock.mock.calls.filter(([target]) => target === url);
+  }
+
+  beforeEach(() => {
+    jwksResponses = [{ keys: [publicJwk(signingKey.publicKey, 'key-1')] }];
+    issueIdToken(signToken(validClaims(), signingKey.privateKey));
+
+    // The mock issuer, answering by URL
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation((input) => {
+      switch (input) {
+        case `${ISSUER}/.well-known/openid-configuration`:
+          return Promise.resolve(jsonResponse(DISCOVERY));
+        case DISCOVERY.jwks_uri:
+          return Promise.resolve(
+            jsonResponse(jwksResponses.shift() ?? { keys: [] }),
+          );
+        case DISCOVERY.token_endpoint:
+          return Promise.resolve(tokenResponse());
+        default:
+          return Promise.resolve(jsonResponse({}, 404));
+      }
+    });
+
+    const config = { get: (key: string) => CONFIG[key] };
+    service = new OidcService(config as unknown as ConfigService);
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  describe('createAuthorizationRequest', () => {
+    it('redirects to the discovered authorization endpoint', async () => {
+      const { url } = await service.createAuthorizationRequest();
+
+      const parsed = new URL(url);
+      expect(`${parsed.origin}${parsed.pathname}`).toBe(
+        DISCOVERY.authorization_endpoint,
+      );
+      expect(parsed.searchParams.get('response_type')).toBe('code');
+      expect(parsed.searchParams.get('client_id')).toBe(CLIENT_ID);
+      expect(parsed.searchParams.get('redirect_uri')).toBe(REDIRECT_URI);
+      expect(parsed.searchParams.get('scope')).toBe('openid email profile');
+    });
+
+    it('sends the state, nonce and S256 challenge of the verifier', async () => {
+      const { url, state } = await service.createAuthorizationRequest();
+
+      const params = new URL(url).searchParams;
+      expect(params.get('state')).toBe(state.state);
+      expect(params.get('nonce')).toBe(state.nonce);
+      expect(params.get('code_challenge_method')).toBe('S256');
+      expect(params.get('code_challenge')).toBe(
+        createHash('sha256').update(state.codeVerifier).digest('base64url'),
+      );
+      expect(new Set(Object.values(state)).size).toBe(3);
+    });
+
+    it('discovers the provider once', async () => {
+      await service.createAuthorizationRequest();
+      await service.createAuthorizationRequest();
+
+      expect(
+        requestsTo(`${ISSUER}/.well-known/openid-configuration`),
+      ).toHaveLength(1);
+    });
+
+    it('fails when the provider cannot be discovered', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({}, 500));
+
+      await expect(service.createAuthorizationRequest()).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+    });
+
+    it('gives up on a provider that does not answer in time', async () => {
+      fetchMock.mockRejectedValueOnce(
+        new DOMException('The operation was aborted', 'TimeoutError'),
+      );
+
+      await expect(service.createAuthorizationRequest()).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+      expect(fetchMock.mock.calls[0][1]?.signal).toBeInstanceOf(AbortSignal);
+    });
+  });
+
+  describe('handleCallback', () => {
+    it('exchanges the code with the PKCE verifier and returns the claims', async () => {
+      const { claims, tokens } = await callback();
+
+      expect(claims).toMatchObject({
+        sub: 'subject-1',
+        email: 'ana@example.com',
+      });
+      expect(tokens.access_token).toBe('access-token');
+
+      const [[, init]] = requestsTo(DISCOVERY.token_endpoint);
+      expect(init?.signal).toBeInstanceOf(AbortSignal);
+      expect(Object.fromEntries(init?.body as URLSearchParams)).toEqual({
+        grant_type: 'authorization_code',
+        code: 'code-1',
+        redirect_uri: REDIRECT_URI,
+        client_id: CLIENT_ID,
+        code_verifier: EXPECTED.codeVerifier,
+        client_secret: 'client-secret',
+      });
+    });
+
+    it('rejects an error returned by the provider', async () => {
+      await expect(
+        service.handleCallback({ error: 'access_denied' }, EXPECTED),
+      ).rejects.toThrow('Identity provider returned an error: access_denied');
+    });
+
+    it('rejects a state that does not match the session', async () => {
+      await expect(
+        callback({ code: 'code-1', state: 'forged-state' }),
+      ).rejects.toThrow('Invalid OIDC state');
+      await expect(
+        service.handleCallback({ code: 'code-1', state: 'x' }, undefined),
+      ).rejects.toThrow('Invalid OIDC state');
+      expect(requestsTo(DISCOVERY.token_endpoint)).toHaveLength(0);
+    });
+
+    it('rejects a callback without a code', async () => {
+      await expect(
+        service.handleCallback({ state: EXPECTED.state }, EXPECTED),
+      ).rejects.toThrow('Missing authorization code');
+    });
+
+    it('rejects a failed code exchange', async () => {
+      tokenResponse = () => jsonResponse({ error: 'invalid_grant' }, 400);
+
+      await expect(callback()).rejects.toThrow(
+        'Failed to exchange authorization code',
+      );
+    });
+
+    it('rejects a token response without an ID token', async () => {
+      tokenResponse = () => jsonResponse({ access_token: 'access-token' });
+
+      await expect(callback()).rejects.toThrow(
+        'Identity provider returned no ID token',
+      );
+    });
+
+    it('rejects an ID token signed with another key', async () => {
+      issueIdToken(signToken(validClaims(), generateSigningKey().privateKey));
+
+      await expect(callback()).rejects.toThrow('Invalid ID token signature');
+    });
+
+    it('rejects an ID token with a tampered payload', async () => {
+      const [header, , signature] = signToken(
+        validClaims(),
+        signingKey.privateKey,
+      ).split('.');
+      const payload = Buffer.from(
+        JSON.stringify(validClaims({ sub: 'someone-else' })),
+      ).toString('base64url');
+      issueIdToken(`${header}.${payload}.${signature}`);
+
+      await expect(callback()).rejects.toThrow('Invalid ID token signature');
+    });
+
+    it('rejects unsigned and symmetric ID tokens', async () => {
+      for (const alg of ['none', 'HS256']) {
+        issueIdToken(
+          signToken(validClaims(), signingKey.privateKey, {
+            alg,
+            kid: 'key-1',
+          }),
+        );
+
+        await expect(callback()).rejects.toThrow(
+          `Unsupported ID token algorithm ${alg}`,
+        );
+      }
+    });
+
+    it('refetches the keys once for an unknown key id', async () => {
+      const rotated = generateSigningKey();
+      jwksResponses.push({ keys: [publicJwk(rotated.publicKey, 'key-2')] });
+      issueIdToken(
+        signToken(validClaims(), rotated.privateKey, {
+          alg: 'RS256',
+          kid: 'key-2',
+        }),
+      );
+
+      await expect(callback()).resolves.toBeDefined();
+      expect(requestsTo(DISCOVERY.jwks_uri)).toHaveLength(2);
+    });
+
+    it('rejects a key id the provider does not publish', async () => {
+      issueIdToken(
+        signToken(validClaims(), signingKey.privateKey, {
+          alg: 'RS256',
+          kid: 'missing',
+        }),
+      );
+
+      await expect(callback()).rejects.toThrow('Unknown ID token signing key');
+      expect(requestsTo(DISCOVERY.jwks_uri)).toHaveLength(2);
+    });
+
+    it.each([
+      [
+        'foreign issuer',
+        { iss: 'https://evil.example.com' },
+        'ID token issuer mismatch',
+      ],
+      [
+        'foreign audience',
+        { aud: 'another-client' },
+        'ID token audience mismatch',
+      ],
+      [
+        'replayed nonce',
+        { nonce: 'replayed-nonce' },
+        'ID token nonce mismatch',
+      ],
+      [
+        'past expiry',
+        { exp: Math.floor(Date.now() / 1000) - 120 },
+        'ID token has expired',
+      ],
+    ])('rejects an ID token with a %s', async (_claim, overrides, message) => {
+      issueIdToken(signToken(validClaims(overrides), signingKey.privateKey));
+
+      await expect(callback()).rejects.toThrow(
+        new UnauthorizedException(message),
+      );
+    });
+
+    it('accepts the client among several audiences', async () => {
+      issueIdToken(
+        signToken(
+          validClaims({ aud: ['another-client', CLIENT_ID] }),
+          signingKey.privateKey,
+        ),
+      );
+
+      await expect(callback()).resolves.toBeDefined();
+    });
+
+    it('gives up on a token endpoint that does not answer in time', async () => {
+      await service.createAuthorizationRequest();
+      fetchMock.mockRejectedValueOnce(
+        new DOMException('The operation was aborted', 'TimeoutError'),
+      );
+
+      await expect(callback()).rejects.toThrow(ServiceUnavailableException);
+    });
+  });
+});
@@ -0,0 +1,338 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createHash,
+  createPublicKey,
+  JsonWebKey,
+  KeyObject,
+  randomBytes,
+  verify as verifySignature,
+} from 'node:crypto';
+import {
+  OidcAuthorizationState,
+  OidcClaims,
+  OidcProviderMetadata,
+  OidcTokenSet,
+} from './oidc.interface';
+
+interface JwtHeader {
+  alg: string;
+  kid?: string;
+}
+
+// Signature algorithms accepted for ID tokens
+const SUPPORTED_ALGORITHMS: Record<
+  string,
+  { hash: string; dsaEncoding?: 'ieee-p1363' }
+> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+};
+
+// Allowed clock difference when checking token timestamps
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+// Time to wait for the identity provider before giving up on a request
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Minimal OpenID Connect relying party implementing the
+ * authorization code flow with PKCE against a configured issuer
+ */
+@Injectable()
+export class OidcService {
+  private readonly logger = new Logger(OidcService.name);
+  private metadata: OidcProviderMetadata | null = null;
+  private jwks: Map<string, KeyObject> | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Whether an OIDC provider has been configured
+   */
+  isEnabled(): boolean {
+    return Boolean(
+      this.configService.get<string>('OIDC_ISSUER') &&
+      this.configService.get<string>('OIDC_CLIENT_ID'),
+    );
+  }
+
+  /**
+   * Provider name stored on linked accounts
+   */
+  get provider(): string {
+    return this.configService.get<string>('OIDC_PROVIDER') || 'oidc';
+  }
+
+  /**
+   * Create the authorization request state and the provider URL to redirect to
+   */
+  async createAuthorizationRequest(): Promise<{
+    url: string;
+    state: OidcAuthorizationState;
+  }> {
+    const metadata = await this.discover();
+    const state: OidcAuthorizationState = {
+      state: this.randomToken(),
+      nonce: this.randomToken(),
+      codeVerifier: this.randomToken(),
+    };
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.clientId(),
+      redirect_uri: this.redirectUri(),
+      scope:
+        this.configService.get<string>('OIDC_SCOPES') || 'openid email profile',
+      state: state.state,
+      nonce: state.nonce,
+      code_challenge: this.base64Url(
+        createHash('sha256').update(state.codeVerifier).digest(),
+      ),
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return { url: url.toString(), state };
+  }
+
+  /**
+   * Exchange the authorization code and validate the returned ID token
+   */
+  async handleCallback(
+    params: { code?: string; state?: string; error?: string },
+    expected: OidcAuthorizationState | undefined,
+  ): Promise<{ claims: OidcClaims; tokens: OidcTokenSet }> {
+    if (params.error) {
+      throw new UnauthorizedException(
+        `Identity provider returned an error: ${params.error}`,
+      );
+    }
+    if (!expected || !params.state || params.state !== expected.state) {
+      throw new UnauthorizedException('Invalid OIDC state');
+    }
+    if (!params.code) {
+      throw new UnauthorizedException('Missing authorization code');
+    }
+
+    const tokens = await this.exchangeCode(params.code, expected.codeVerifier);
+    const claims = await this.verifyIdToken(tokens.id_token, expected.nonce);
+
+    return { claims, tokens };
+  }
+
+  private async exchangeCode(
+    code: string,
+    codeVerifier: string,
+  ): Promise<OidcTokenSet> {
+    const metadata = await this.discover();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.redirectUri(),
+      client_id: this.clientId(),
+      code_verifier: codeVerifier,
+    });
+
+    const clientSecret = this.configService.get<string>('OIDC_CLIENT_SECRET');
+    if (clientSecret) {
+      body.set('client_secret', clientSecret);
+    }
+
+    const response = await this.request(metadata.token_endpoint, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/x-www-form-urlencoded',
+        accept: 'application/json',
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      this.logger.warn(
+        `OIDC token exchange failed with status ${response.status}`,
+      );
+      throw new UnauthorizedException('Failed to exchange authorization code');
+    }
+
+    const tokens = (await response.json()) as OidcTokenSet;
+    if (!tokens.id_token) {
+      throw new UnauthorizedException('Identity provider returned no ID token');
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Verify signature and standard claims of an ID token
+   */
+  private async verifyIdToken(
+    idToken: string,
+    expectedNonce: string,
+  ): Promise<OidcClaims> {
+    const [encodedHeader, encodedPayload, encodedSignature] =
+      idToken.split('.');
+    if (!encodedHeader || !encodedPayload || !encodedSignature) {
+      throw new UnauthorizedException('Malformed ID token');
+    }
+
+    const header = this.decodeSegment<JwtHeader>(encodedHeader);
+    const algorithm = SUPPORTED_ALGORITHMS[header.alg];
+    if (!algorithm) {
+      throw new UnauthorizedException(
+        `Unsupported ID token algorithm ${header.alg}`,
+      );
+    }
+
+    const key = await this.getSigningKey(header.kid);
+    const isValid = verifySignature(
+      algorithm.hash,
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      algorithm.dsaEncoding ? { key, dsaEncoding: algorithm.dsaEncoding } : key,
+      Buffer.from(encodedSignature, 'base64url'),
+    );
+    if (!isValid) {
+      throw new UnauthorizedException('Invalid ID token signature');
+    }
+
+    const claims = this.decodeSegment<OidcClaims>(encodedPayload);
+    const metadata = await this.discover();
+    const now = Math.floor(Date.now() / 1000);
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+    if (claims.iss !== metadata.issuer) {
+      throw new UnauthorizedException('ID token issuer mismatch');
+    }
+    if (!audiences.includes(this.clientId())) {
+      throw new UnauthorizedException('ID token audience mismatch');
+    }
+    if (claims.exp + CLOCK_TOLERANCE_SECONDS < now) {
+      throw new UnauthorizedException('ID token has expired');
+    }
+    if (claims.nonce !== expectedNonce) {
+      throw new UnauthorizedException('ID token nonce mismatch');
+    }
+
+    return claims;
+  }
+
+  private async getSigningKey(kid?: string): Promise<KeyObject> {
+    let key = await this.findKey(kid);
+
+    // Keys may have been rotated since they were cached
+    if (!key) {
+      this.jwks = null;
+      key = await this.findKey(kid);
+    }
+    if (!key) {
+      throw new UnauthorizedException('Unknown ID token signing key');
+    }
+
+    return key;
+  }
+
+  private async findKey(kid?: string): Promise<KeyObject | undefined> {
+    if (!this.jwks) {
+      const metadata = await this.discover();
+      const { keys } = await this.fetchJson<{
+        keys: (JsonWebKey & { kid?: string; use?: string })[];
+      }>(metadata.jwks_uri);
+
+      this.jwks = new Map(
+        keys
+          .filter((jwk) => !jwk.use || jwk.use === 'sig')
+          .map((jwk, index) => [
+            jwk.kid ?? `key-${index}`,
+            createPublicKey({ key: jwk, format: 'jwk' }),
+          ]),
+      );
+    }
+
+    return kid ? this.jwks.get(kid) : [...this.jwks.values()][0];
+  }
+
+  private async discover(): Promise<OidcProviderMetadata> {
+    if (this.metadata) {
+      return this.metadata;
+    }
+
+    const issuer = this.configService.get<string>('OIDC_ISSUER');
+    if (!issuer) {
+      throw new ServiceUnavailableException('OIDC login is not configured');
+    }
+
+    this.metadata = await this.fetchJson<OidcProviderMetadata>(
+      `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+    );
+
+    return this.metadata;
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    const response = await this.request(url, {
+      headers: { accept: 'application/json' },
+    });
+
+    if (!response.ok) {
+      this.logger.error(`OIDC request to ${url} failed: ${response.status}`);
+      throw new ServiceUnavailableException(
+        'Identity provider is not available',
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Call the identity provider. A provider that does not answer in time
+   * fails the login instead of holding the request open.
+   */
+  private async request(url: string, init: RequestInit): Promise<Response> {
+    try {
+      return await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      this.logger.error(`OIDC request to ${url} failed`, error);
+      throw new ServiceUnavailableException(
+        'Identity provider is not available',
+      );
+    }
+  }
+
+  private decodeSegment<T>(segment: string): T {
+    try {
+      return JSON.parse(Buffer.from(segment, 'base64url').toString()) as T;
+    } catch {
+      throw new UnauthorizedException('Malformed ID token');
+    }
+  }
+
+  private clientId(): string {
+    return this.configService.get<string>('OIDC_CLIENT_ID') ?? '';
+  }
+
+  private redirectUri(): string {
+    return (
+      this.configService.get<string>('OIDC_REDIRECT_URI') ||
+      'http://localhost:3000/api/v1/auth/oidc/callback'
+    );
+  }
+
+  private randomToken(): string {
+    return this.base64Url(randomBytes(32));
+  }
+
+  private base64Url(buffer: Buffer): string {
+    return buffer.toString('base64url');
+  }
+}
@@ -0,0 +1,128 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { VerificationTokenType } from 'generated/prisma/client';
+import { MailService } from 'src/common/mail/mail.service';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import {
+  RateLimiterService,
+  RateLimitPolicy,
+} from 'src/common/rate-limit/rate-limiter.service';
+import { SessionService } from 'src/common/session/session.service';
+import { RequestMetadata } from 'src/common/utils/request-metadata.util';
+import { UserService } from 'src/user/user.service';
+import { VerificationTokenService } from 'src/verification/verification-token.service';
+
+const PASSWORD_RESET_TTL_MINUTES = 60;
+
+// Reset emails that can be requested per address
+const FORGOT_PASSWORD_LIMIT: RateLimitPolicy = {
+  limit: 3,
+  windowSeconds: 60 * 60,
+};
+
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly userService: UserService,
+    private readonly tokens: VerificationTokenService,
+    private readonly mailService: MailService,
+    private readonly sessionService: SessionService,
+    private readonly rateLimiter: RateLimiterService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Email a password reset link. Completes silently for unknown
+   * addresses to avoid account enumeration.
+   */
+  async requestReset(email: string): Promise<void> {
+    const normalizedEmail = email.toLowerCase().trim();
+    const rateLimitKey = `forgot-password:${normalizedEmail}`;
+
+    await this.rateLimiter.assertNotLimited(
+      rateLimitKey,
+      FORGOT_PASSWORD_LIMIT,
+      'Too many password reset requests. Please try again later.',
+    );
+    await this.rateLimiter.hit(rateLimitKey, FORGOT_PASSWORD_LIMIT);
+
+    const user = await this.prisma.user.findUnique({
+      where: { email: normalizedEmail },
+      select: { id: true, name: true, email: true, isActive: true },
+    });
+
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    try {
+      const token = await this.tokens.issue(
+        user.id,
+        VerificationTokenType.PASSWORD_RESET,
+        PASSWORD_RESET_TTL_MINUTES,
+      );
+      const clientOrigin =
+        this.configService.get<string>('CLIENT_ORIGIN') ||
+        'http://localhost:3000';
+
+      await this.mailService.send({
+        to: user.email,
+        subject: 'Reset your password',
+        text: [
+          `Hi ${user.name},`,
+          '',
+          'We received a request to reset your password. Open the link below to choose a new one:',
+          `${clientOrigin}/reset-password?token=${token}`,
+          '',
+          'The link expires in 60 minutes. If you did not request a reset, you can ignore this email.',
+        ].join('\n'),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send password reset email to user ${user.id}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Consume a reset token, set the new password and
+   * terminate every existing session of the user
+   */
+  async resetPassword(
+    token: string,
+    newPassword: string,
+    metadata?: RequestMetadata,
+  ): Promise<void> {
+    // Reject a reused password before the token is spent, so the user can
+    // retry with the same link
+    const pending = await this.tokens.findValid(
+      token,
+      VerificationTokenType.PASSWORD_RESET,
+    );
+    await this.userService.assertPasswordNotReused(pending.userId, newPassword);
+
+    const record = await this.tokens.consume(
+      token,
+      VerificationTokenType.PASSWORD_RESET,
+    );
+
+    await this.userService.updatePassword(
+      record.userId,
+      newPassword,
+      metadata,
+      {
+        method: 'reset',
+      },
+    );
+
+    await this.tokens.revokeAll(
+      record.userId,
+      VerificationTokenType.PASSWORD_RESET,
+    );
+    await this.sessionService.revokeAll(record.userId);
+  }
+}
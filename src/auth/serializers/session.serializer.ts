@@ -0,0 +1,36 @@
+import { Injectable } from '@nestjs/common';
+import { PassportSerializer } from '@nestjs/passport';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { UserService } from 'src/user/user.service';
+
+/**
+ * Stores only the user id in the session and rehydrates
+ * the full user on every authenticated request
+ */
+@Injectable()
+export class SessionSerializer extends PassportSerializer {
+  constructor(private readonly userService: UserService) {
+    super();
+  }
+
+  serializeUser(
+    user: SafeUser,
+    done: (err: Error | null, id?: string) => void,
+  ): void {
+    done(null, user.id);
+  }
+
+  async deserializeUser(
+    id: string,
+    done: (err: Error | null, user?: SafeUser | false) => void,
+  ): Promise<void> {
+    try {
+      const user = await this.userService.findActiveById(id);
+
+      // Returning false invalidates the session for removed or deactivated users
+      done(null, user ?? false);
+    } catch (error) {
+      done(error as Error);
+    }
+  }
+}
@@ -1,8 +1,15 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  HttpException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { Request } from 'express';
 import { Strategy } from 'passport-local';
 import { UserService } from 'src/user/user.service';
+import { extractRequestMetadata } from 'src/common/utils/request-metadata.util';
+import '../interfaces/pending-two-factor.interface';
+import { TWO_FACTOR_PENDING_TTL_MS } from '../auth.constants';
 
 @Injectable()
 export class LocalStrategy extends PassportStrategy(Strategy) {
@@ -18,15 +25,7 @@ export class LocalStrategy extends PassportStrategy(Strategy) {
     try {
       // Extract metadata from request if available
       const metadata =
-        req && req.headers
-          ? {
-              ipAddress: (req.headers['x-forwarded-for'] ||
-                req.headers['x-real-ip'] ||
-                req.socket?.remoteAddress ||
-                req.ip) as string,
-              userAgent: req.headers['user-agent'],
-            }
-          : undefined;
+        req && req.headers ? extractRequestMetadata(req) : undefined;
 
       const user = await this.userService.validateUser(
         username,
@@ -38,11 +37,21 @@ export class LocalStrategy extends PassportStrategy(Strategy) {
         throw new UnauthorizedException('Invalid username or password');
       }
 
+      // Hold the login in the session until the second factor is verified
+      if (user.twoFactorEnabled) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          identifier: username.trim().toLowerCase(),
+          expiresAt: Date.now() + TWO_FACTOR_PENDING_TTL_MS,
+          attempts: 0,
+        };
+      }
+
       return user;
     } catch (error: unknown) {
       console.log(error);
-      // Re-throw UnauthorizedException if account is deactivated or locked
-      if (error instanceof UnauthorizedException) {
+      // Re-throw HTTP errors such as deactivated account or rate limiting
+      if (error instanceof HttpException) {
         throw error;
       }
 
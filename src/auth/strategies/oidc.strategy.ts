@@ -0,0 +1,84 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Request } from 'express';
+import { Strategy } from 'passport-strategy';
+import { OidcService } from '../oidc/oidc.service';
+import { OidcClaims, OidcTokenSet } from '../oidc/oidc.interface';
+import { LinkedAccountService } from 'src/user/linked-account.service';
+
+type OidcVerifyCallback = (
+  req: Request,
+  claims: OidcClaims,
+  tokens: OidcTokenSet,
+  done: (err: Error | null, user?: unknown) => void,
+) => void;
+
+/**
+ * Passport strategy for the OIDC authorization code flow.
+ * Requests without a code are redirected to the provider,
+ * callbacks are exchanged and verified through OidcService.
+ */
+class OidcPassportStrategy extends Strategy {
+  name = 'oidc';
+
+  constructor(
+    private readonly oidc: OidcService,
+    private readonly verify: OidcVerifyCallback,
+  ) {
+    super();
+  }
+
+  authenticate(req: Request): void {
+    this.handle(req).catch((error: Error) => this.error(error));
+  }
+
+  private async handle(req: Request): Promise<void> {
+    const query = req.query as Record<string, string | undefined>;
+
+    if (!query.code && !query.error) {
+      const { url, state } = await this.oidc.createAuthorizationRequest();
+      req.session.oidc = state;
+      this.redirect(url);
+      return;
+    }
+
+    const expected = req.session.oidc;
+    delete req.session.oidc;
+
+    const { claims, tokens } = await this.oidc.handleCallback(
+      { code: query.code, state: query.state, error: query.error },
+      expected,
+    );
+
+    this.verify(req, claims, tokens, (err, user) => {
+      if (err) {
+        return this.error(err);
+      }
+      if (!user) {
+        return this.fail(401);
+      }
+      this.success(user);
+    });
+  }
+}
+
+@Injectable()
+export class OidcStrategy extends PassportStrategy(
+  OidcPassportStrategy,
+  'oidc',
+) {
+  constructor(
+    private readonly oidcService: OidcService,
+    private readonly linkedAccountService: LinkedAccountService,
+  ) {
+    super(oidcService);
+  }
+
+  async validate(_req: Request, claims: OidcClaims, tokens: OidcTokenSet) {
+    return this.linkedAccountService.findOrCreateFromOidc(
+      this.oidcService.provider,
+      claims,
+      tokens,
+    );
+  }
+}
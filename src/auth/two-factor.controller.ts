@@ -0,0 +1,128 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Request as ReqDecorator,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { AuthService } from './auth.service';
+import { TwoFactorService } from './two-factor.service';
+import { AuthenticatedGuard } from './guards/authenticated.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { DisableTwoFactorDto } from './dto/disable-two-factor.dto';
+import { TwoFactorSetupResponseDto } from './dto/two-factor-setup-response.dto';
+import { RecoveryCodesResponseDto } from './dto/recovery-codes-response.dto';
+import { LoginResponseDto } from './dto/login-response.dto';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { extractRequestMetadata } from 'src/common/utils/request-metadata.util';
+
+@ApiTags('Auth')
+@Controller('auth/2fa')
+export class TwoFactorController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+  ) {}
+
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete login with the second factor' })
+  @ApiOkResponse({ type: LoginResponseDto })
+  async verify(
+    @Body() codeDto: TwoFactorCodeDto,
+    @ReqDecorator() req: Request,
+  ) {
+    const user = await this.authService.completeTwoFactorLogin(
+      req,
+      codeDto.code,
+    );
+
+    return {
+      message: 'User login successfully',
+      data: user,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Post('setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start two-factor authentication enrollment' })
+  @ApiOkResponse({ type: TwoFactorSetupResponseDto })
+  async setup(@CurrentUser() user: SafeUser) {
+    const result = await this.twoFactorService.setup(user.id);
+
+    return {
+      message: 'Scan the QR code with your authenticator app',
+      data: result,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Post('enable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm enrollment and enable two-factor' })
+  @ApiOkResponse({ type: RecoveryCodesResponseDto })
+  async enable(
+    @CurrentUser() user: SafeUser,
+    @Body() codeDto: TwoFactorCodeDto,
+    @ReqDecorator() req: Request,
+  ) {
+    const result = await this.twoFactorService.enable(
+      user.id,
+      codeDto.code,
+      extractRequestMetadata(req),
+    );
+
+    return {
+      message: 'Two-factor authentication enabled successfully',
+      data: result,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Post('disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Disable two-factor authentication' })
+  async disable(
+    @CurrentUser() user: SafeUser,
+    @Body() disableDto: DisableTwoFactorDto,
+    @ReqDecorator() req: Request,
+  ) {
+    await this.twoFactorService.disable(
+      user.id,
+      disableDto.password,
+      disableDto.code,
+      extractRequestMetadata(req),
+    );
+
+    return {
+      message: 'Two-factor authentication disabled successfully',
+      data: null,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Post('recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Regenerate two-factor recovery codes' })
+  @ApiOkResponse({ type: RecoveryCodesResponseDto })
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: SafeUser,
+    @Body() codeDto: TwoFactorCodeDto,
+  ) {
+    const result = await this.twoFactorService.regenerateRecoveryCodes(
+      user.id,
+      codeDto.code,
+    );
+
+    return {
+      message: 'Recovery codes regenerated successfully',
+      data: result,
+    };
+  }
+}
@@ -0,0 +1,221 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'node:crypto';
+import * as argon2 from 'argon2';
+import { SecurityEventType } from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { RedisService } from 'src/common/redis/redis.service';
+import { RequestMetadata } from 'src/common/utils/request-metadata.util';
+import {
+  buildOtpAuthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from 'src/common/utils/totp.util';
+import { SecurityEventsService } from 'src/security-events/security-events.service';
+
+const RECOVERY_CODE_COUNT = 10;
+
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+    private readonly securityEvents: SecurityEventsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Generate a new secret for enrollment. The secret stays inactive
+   * until it is confirmed through enable().
+   */
+  async setup(userId: string) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: secret },
+    });
+
+    const issuer =
+      this.configService.get<string>('TWO_FACTOR_ISSUER') || 'TaskSine';
+
+    return {
+      secret,
+      otpauthUri: buildOtpAuthUri(secret, user.email, issuer),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   *
+   * @returns one-time recovery codes, shown to the user only once
+   */
+  async enable(userId: string, code: string, metadata?: RequestMetadata) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    if (!user.twoFactorSecret) {
+      throw new BadRequestException(
+        'Two-factor authentication setup has not been started',
+      );
+    }
+    if (!(await this.verifyTotpCode(userId, user.twoFactorSecret, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabled: true },
+    });
+    const recoveryCodes = await this.replaceRecoveryCodes(userId);
+
+    await this.securityEvents.logEvent(
+      userId,
+      SecurityEventType.TWO_FACTOR_ENABLED,
+      metadata,
+    );
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turn off two-factor authentication after confirming
+   * the password and a current code
+   */
+  async disable(
+    userId: string,
+    password: string,
+    code: string,
+    metadata?: RequestMetadata,
+  ): Promise<void> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (!user.password || !(await argon2.verify(user.password, password))) {
+      throw new UnauthorizedException('Invalid password');
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: false, twoFactorSecret: null },
+      }),
+      this.prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    ]);
+
+    await this.securityEvents.logEvent(
+      userId,
+      SecurityEventType.TWO_FACTOR_DISABLED,
+      metadata,
+    );
+  }
+
+  /**
+   * Replace all recovery codes after confirming a current code
+   */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    return { recoveryCodes: await this.replaceRecoveryCodes(userId) };
+  }
+
+  /**
+   * Verify an authenticator code or an unused recovery code
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+    if (/^\d{6}$/.test(normalized)) {
+      return this.verifyTotpCode(userId, user.twoFactorSecret, normalized);
+    }
+
+    const { count } = await this.prisma.twoFactorRecoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: this.hashRecoveryCode(normalized),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Check a TOTP code and reject reuse of the same time step
+   */
+  private async verifyTotpCode(
+    userId: string,
+    secret: string,
+    code: string,
+  ): Promise<boolean> {
+    const step = verifyTotp(secret, code);
+    if (step === null) {
+      return false;
+    }
+
+    // Claiming the step atomically keeps concurrent requests from both
+    // accepting the same code
+    return this.redis.setIfNotExists(`totp-used:${userId}:${step}`, '1', 90);
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await this.prisma.$transaction([
+      this.prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.twoFactorRecoveryCode.createMany({
+        data: codes.map((code) => ({
+          userId,
+          codeHash: this.hashRecoveryCode(code.replace('-', '')),
+        })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return createHash('sha256').update(code).digest('hex');
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+}
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../permissions';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Require every listed permission in the current workspace.
+ * Enforced by AuthorizationGuard.
+ */
+export const Permissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { WorkspaceRole } from 'generated/prisma/client';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Require one of the listed roles in the current workspace.
+ * Enforced by AuthorizationGuard.
+ */
+export const Roles = (...roles: WorkspaceRole[]) =>
+  SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,246 @@
+import { ExecutionContext, ForbiddenException, Type } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WorkspaceRole } from 'generated/prisma/client';
+import { CalendarController } from 'src/calendar/calendar.controller';
+import { HolidayCalendarController } from 'src/calendar/holiday-calendar.controller';
+import { TimeOffController } from 'src/calendar/time-off.controller';
+import { ExportController } from 'src/export/export.controller';
+import { ProjectController } from 'src/project/project.controller';
+import { WorkflowController } from 'src/project/workflow.controller';
+import { BoardController } from 'src/task/board.controller';
+import { TaskController } from 'src/task/task.controller';
+import { TimeEntryController } from 'src/time/time-entry.controller';
+import { TimeController } from 'src/time/time.controller';
+import { TimesheetController } from 'src/timesheet/timesheet.controller';
+import { WorkspaceController } from 'src/workspace/workspace.controller';
+import { WorkspaceContextGuard } from 'src/workspace/guards/workspace-context.guard';
+import {
+  Permissions,
+  PERMISSIONS_KEY,
+} from '../decorators/permissions.decorator';
+import { Roles } from '../decorators/roles.decorator';
+import { hasPermission, Permission } from '../permissions';
+import { AuthorizationGuard } from './authorization.guard';
+
+const CONTROLLERS: Type[] = [
+  CalendarController,
+  HolidayCalendarController,
+  TimeOffController,
+  ExportController,
+  ProjectController,
+  WorkflowController,
+  BoardController,
+  TaskController,
+  TimeEntryController,
+  TimeController,
+  TimesheetController,
+  WorkspaceController,
+];
+
+// Every route guarded by @Permissions and what it requires
+const ROUTES: [Type, string, Permission[]][] = [
+  [CalendarController, 'get', ['time:track']],
+  [HolidayCalendarController, 'list', ['workspace:read']],
+  [HolidayCalendarController, 'create', ['calendar:manage']],
+  [HolidayCalendarController, 'findOne', ['workspace:read']],
+  [HolidayCalendarController, 'update', ['calendar:manage']],
+  [HolidayCalendarController, 'remove', ['calendar:manage']],
+  [HolidayCalendarController, 'listHolidays', ['workspace:read']],
+  [HolidayCalendarController, 'addHoliday', ['calendar:manage']],
+  [HolidayCalendarController, 'removeHoliday', ['calendar:manage']],
+  [HolidayCalendarController, 'import', ['calendar:manage']],
+  [TimeOffController, 'list', ['time:track']],
+  [TimeOffController, 'listPending', ['timesheet:approve']],
+  [TimeOffController, 'get', ['time:track']],
+  [TimeOffController, 'create', ['time:track']],
+  [TimeOffController, 'cancel', ['time:track']],
+  [TimeOffController, 'approve', ['timesheet:approve']],
+  [TimeOffController, 'reject', ['timesheet:approve']],
+  [ExportController, 'exportTimeEntries', ['report:export']],
+  [ExportController, 'exportTimesheets', ['report:export']],
+  [ExportController, 'exportProjectSummary', ['report:export']],
+  [ProjectController, 'create', ['project:create']],
+  [ProjectController, 'list', ['project:read']],
+  [ProjectController, 'findOne', ['project:read']],
+  [ProjectController, 'update', ['project:update']],
+  [ProjectController, 'archive', ['project:update']],
+  [ProjectController, 'unarchive', ['project:update']],
+  [ProjectController, 'remove', ['project:delete']],
+  [ProjectController, 'listMembers', ['project:read']],
+  [ProjectController, 'addMember', ['project:update']],
+  [ProjectController, 'removeMember', ['project:update']],
+  [WorkflowController, 'getWorkflow', ['project:read']],
+  [WorkflowController, 'replaceWorkflow', ['project:update']],
+  [BoardController, 'getBoard', ['task:read']],
+  [BoardController, 'moveTask', ['task:update']],
+  [BoardController, 'moveTasks', ['task:update']],
+  [TaskController, 'create', ['task:create']],
+  [TaskController, 'list', ['task:read']],
+  [TaskController, 'findOne', ['task:read']],
+  [TaskController, 'update', ['task:update']],
+  [TaskController, 'move', ['task:update']],
+  [TaskController, 'remove', ['task:delete']],
+  [TimeEntryController, 'getTimer', ['time:track']],
+  [TimeEntryController, 'startTimer', ['time:track']],
+  [TimeEntryController, 'stopTimer', ['time:track']],
+  [TimeEntryController, 'discardTimer', ['time:track']],
+  [TimeEntryController, 'listEntries', ['time:track']],
+  [TimeEntryController, 'createEntry', ['time:track']],
+  [TimeEntryController, 'updateEntry', ['time:track']],
+  [TimeEntryController, 'deleteEntry', ['time:track']],
+  [TimeEntryController, 'getSummary', ['time:track']],
+  [TimeEntryController, 'setLockDate', ['time:manage']],
+  [TimeEntryController, 'getTaskTotals', ['task:read']],
+  [TimeEntryController, 'getProjectTotals', ['project:read']],
+  [TimeController, 'getCurrentShift', ['time:track']],
+  [TimeController, 'listShifts', ['time:track']],
+  [TimeController, 'clockIn', ['time:track']],
+  [TimeController, 'clockOut', ['time:track']],
+  [TimeController, 'startBreak', ['time:track']],
+  [TimeController, 'endBreak', ['time:track']],
+  [TimesheetController, 'list', ['time:track']],
+  [TimesheetController, 'listPending', ['timesheet:approve']],
+  [TimesheetController, 'get', ['time:track']],
+  [TimesheetController, 'submit', ['time:track']],
+  [TimesheetController, 'recall', ['time:track']],
+  [TimesheetController, 'approve', ['timesheet:approve']],
+  [TimesheetController, 'reject', ['timesheet:approve']],
+  [WorkspaceController, 'findOne', ['workspace:read']],
+  [WorkspaceController, 'update', ['workspace:update']],
+  [WorkspaceController, 'remove', ['workspace:delete']],
+  [WorkspaceController, 'listMembers', ['member:read']],
+  [WorkspaceController, 'updateMemberRole', ['member:manage']],
+  [WorkspaceController, 'removeMember', ['workspace:read']],
+  [WorkspaceController, 'transferOwnership', ['workspace:transfer']],
+  [WorkspaceController, 'invite', ['invitation:manage']],
+  [WorkspaceController, 'listInvitations', ['invitation:manage']],
+  [WorkspaceController, 'revokeInvitation', ['invitation:manage']],
+];
+
+const ROLES = Object.values(WorkspaceRole);
+
+function handlerOf(controller: Type, name: string): () => unknown {
+  return (controller.prototype as Record<string, () => unknown>)[name];
+}
+
+function createContext(
+  controller: Type,
+  handler: string,
+  role: WorkspaceRole,
+): ExecutionContext {
+  const request = { workspace: { id: 'workspace-1', role } };
+
+  return {
+    getClass: () => controller,
+    getHandler: () => handlerOf(controller, handler),
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+describe('AuthorizationGuard', () => {
+  const reflector = new Reflector();
+  const workspaceContextGuard = {
+    canActivate: jest.fn(),
+  };
+  const guard = new AuthorizationGuard(
+    reflector,
+    workspaceContextGuard as unknown as WorkspaceContextGuard,
+  );
+
+  it('lists every decorated route', () => {
+    const decorated = CONTROLLERS.flatMap((controller) =>
+      Object.getOwnPropertyNames(controller.prototype)
+        .filter(
+          (name) =>
+            name !== 'constructor' &&
+            reflector.get(PERMISSIONS_KEY, handlerOf(controller, name)),
+        )
+        .map((name) => `${controller.name}.${name}`),
+    );
+
+    expect(decorated.sort()).toEqual(
+      ROUTES.map(
+        ([controller, handler]) => `${controller.name}.${handler}`,
+      ).sort(),
+    );
+  });
+
+  describe.each(
+    ROUTES.map(
+      ([controller, handler, permissions]) =>
+        [
+          `${controller.name}.${handler}`,
+          controller,
+          handler,
+          permissions,
+        ] as const,
+    ),
+  )('%s', (_route, controller, handler, permissions) => {
+    it(`requires ${permissions.join(', ')}`, async () => {
+      expect(
+        reflector.get(PERMISSIONS_KEY, handlerOf(controller, handler)),
+      ).toEqual(permissions);
+
+      for (const role of ROLES) {
+        const result = guard.canActivate(
+          createContext(controller, handler, role),
+        );
+
+        if (
+          permissions.every((permission) => hasPermission(role, permission))
+        ) {
+          await expect(result).resolves.toBe(true);
+        } else {
+          await expect(result).rejects.toThrow(ForbiddenException);
+        }
+      }
+    });
+  });
+
+  it('allows routes without @Permissions or @Roles', async () => {
+    class OpenController {
+      list() {}
+    }
+
+    await expect(
+      guard.canActivate(
+        createContext(OpenController, 'list', WorkspaceRole.GUEST),
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('enforces @Roles together with @Permissions', async () => {
+    class RestrictedController {
+      @Roles(WorkspaceRole.OWNER)
+      @Permissions('workspace:read')
+      purge() {}
+    }
+
+    await expect(
+      guard.canActivate(
+        createContext(RestrictedController, 'purge', WorkspaceRole.OWNER),
+      ),
+    ).resolves.toBe(true);
+    await expect(
+      guard.canActivate(
+        createContext(RestrictedController, 'purge', WorkspaceRole.ADMIN),
+      ),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('resolves the workspace when no earlier guard did', async () => {
+    const request: { workspace?: unknown } = {};
+    const context = {
+      getClass: () => TaskController,
+      getHandler: () => handlerOf(TaskController, 'create'),
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+    workspaceContextGuard.canActivate.mockImplementationOnce(() => {
+      request.workspace = { id: 'workspace-1', role: WorkspaceRole.MEMBER };
+      return Promise.resolve(true);
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(workspaceContextGuard.canActivate).toHaveBeenCalledWith(context);
+  });
+});
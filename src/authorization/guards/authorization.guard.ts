@@ -0,0 +1,60 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { WorkspaceRole } from 'generated/prisma/client';
+import { WorkspaceContextGuard } from 'src/workspace/guards/workspace-context.guard';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { hasPermission, Permission } from '../permissions';
+
+/**
+ * Enforces @Permissions and @Roles against the user's role in the
+ * workspace of the request. Routes without either decorator are allowed.
+ * Must be used after AuthenticatedGuard.
+ */
+@Injectable()
+export class AuthorizationGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly workspaceContextGuard: WorkspaceContextGuard,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    const permissions = this.reflector.getAllAndOverride<
+      Permission[] | undefined
+    >(PERMISSIONS_KEY, targets);
+    const roles = this.reflector.getAllAndOverride<WorkspaceRole[] | undefined>(
+      ROLES_KEY,
+      targets,
+    );
+
+    if (!permissions?.length && !roles?.length) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    if (!request.workspace) {
+      await this.workspaceContextGuard.canActivate(context);
+    }
+    const { role } = request.workspace!;
+
+    const allowed =
+      (!roles?.length || roles.includes(role)) &&
+      (permissions ?? []).every((permission) =>
+        hasPermission(role, permission),
+      );
+    if (!allowed) {
+      throw new ForbiddenException(
+        'You do not have permission to perform this action',
+      );
+    }
+
+    return true;
+  }
+}
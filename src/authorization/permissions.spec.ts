@@ -0,0 +1,65 @@
+import { WorkspaceRole } from 'generated/prisma/client';
+import {
+  getPermissions,
+  hasPermission,
+  Permission,
+  PERMISSIONS,
+} from './permissions';
+
+const ROLES = [
+  WorkspaceRole.OWNER,
+  WorkspaceRole.ADMIN,
+  WorkspaceRole.MEMBER,
+  WorkspaceRole.GUEST,
+] as const;
+
+// prettier-ignore
+const MATRIX: [Permission, boolean, boolean, boolean, boolean][] = [
+  // permission              OWNER  ADMIN  MEMBER GUEST
+  ['workspace:read',         true,  true,  true,  true ],
+  ['workspace:update',       true,  true,  false, false],
+  ['workspace:delete',       true,  false, false, false],
+  ['workspace:transfer',     true,  false, false, false],
+  ['member:read',            true,  true,  true,  true ],
+  ['member:manage',          true,  true,  false, false],
+  ['invitation:manage',      true,  true,  false, false],
+  ['project:create',         true,  true,  false, false],
+  ['project:read',           true,  true,  true,  true ],
+  ['project:update',         true,  true,  false, false],
+  ['project:delete',         true,  true,  false, false],
+  ['task:create',            true,  true,  true,  false],
+  ['task:read',              true,  true,  true,  true ],
+  ['task:update',            true,  true,  true,  false],
+  ['task:delete',            true,  true,  false, false],
+  ['time:track',             true,  true,  true,  false],
+  ['time:manage',            true,  true,  false, false],
+  ['timesheet:approve',      true,  true,  false, false],
+  ['calendar:manage',        true,  true,  false, false],
+  ['report:export',          true,  true,  true,  false],
+];
+
+describe('permissions', () => {
+  it('lists every permission in the matrix', () => {
+    expect(MATRIX.map(([permission]) => permission).sort()).toEqual(
+      [...PERMISSIONS].sort(),
+    );
+  });
+
+  describe.each(MATRIX)('%s', (permission, ...granted) => {
+    it.each(ROLES.map((role, index) => [role, granted[index]] as const))(
+      'for %s is %s',
+      (role, expected) => {
+        expect(hasPermission(role, permission)).toBe(expected);
+        expect(getPermissions(role).includes(permission)).toBe(expected);
+      },
+    );
+  });
+
+  it('grants each role everything the role below it has', () => {
+    for (let index = 1; index < ROLES.length; index++) {
+      expect(getPermissions(ROLES[index - 1])).toEqual(
+        expect.arrayContaining([...getPermissions(ROLES[index])]),
+      );
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import { WorkspaceRole } from 'generated/prisma/client';
+
+export const PERMISSIONS = [
+  'workspace:read',
+  'workspace:update',
+  'workspace:delete',
+  'workspace:transfer',
+  'member:read',
+  'member:manage',
+  'invitation:manage',
+  'project:create',
+  'project:read',
+  'project:update',
+  'project:delete',
+  'task:create',
+  'task:read',
+  'task:update',
+  'task:delete',
+  'time:track',
+  'time:manage',
+  'timesheet:approve',
+  'calendar:manage',
+  'report:export',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const GUEST_PERMISSIONS: Permission[] = [
+  'workspace:read',
+  'member:read',
+  'project:read',
+  'task:read',
+];
+
+const MEMBER_PERMISSIONS: Permission[] = [
+  ...GUEST_PERMISSIONS,
+  'task:create',
+  'task:update',
+  'time:track',
+  'report:export',
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...MEMBER_PERMISSIONS,
+  'workspace:update',
+  'member:manage',
+  'invitation:manage',
+  'project:create',
+  'project:update',
+  'project:delete',
+  'task:delete',
+  'time:manage',
+  'timesheet:approve',
+  'calendar:manage',
+];
+
+const OWNER_PERMISSIONS: Permission[] = [
+  ...ADMIN_PERMISSIONS,
+  'workspace:delete',
+  'workspace:transfer',
+];
+
+/**
+ * Permissions granted by each workspace role
+ */
+export const ROLE_PERMISSIONS: Record<WorkspaceRole, readonly Permission[]> = {
+  [WorkspaceRole.OWNER]: OWNER_PERMISSIONS,
+  [WorkspaceRole.ADMIN]: ADMIN_PERMISSIONS,
+  [WorkspaceRole.MEMBER]: MEMBER_PERMISSIONS,
+  [WorkspaceRole.GUEST]: GUEST_PERMISSIONS,
+};
+
+export function getPermissions(role: WorkspaceRole): readonly Permission[] {
+  return ROLE_PERMISSIONS[role];
+}
+
+export function hasPermission(
+  role: WorkspaceRole,
+  permission: Permission,
+): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,8 @@
+// Largest iCalendar file accepted for a holiday import
+export const MAX_ICS_FILE_SIZE = 1024 * 1024;
+
+// Longest event imported from an iCalendar file, longer ones are skipped
+export const MAX_HOLIDAY_EVENT_DAYS = 31;
+
+// Longest range a calendar view or a time-off request can cover
+export const MAX_CALENDAR_DAYS = 366;
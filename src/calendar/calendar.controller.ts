@@ -0,0 +1,42 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedGuard } from 'src/auth/guards/authenticated.guard';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { AuthorizationGuard } from 'src/authorization/guards/authorization.guard';
+import { Permissions } from 'src/authorization/decorators/permissions.decorator';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { CurrentWorkspace } from 'src/workspace/decorators/current-workspace.decorator';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { WORKSPACE_HEADER } from 'src/workspace/workspace.constants';
+import { CalendarService } from './calendar.service';
+import { CalendarQueryDto } from './dto/calendar-query.dto';
+
+@ApiTags('Calendar')
+@ApiHeader({ name: WORKSPACE_HEADER, required: true })
+@Controller('calendar')
+@UseGuards(AuthenticatedGuard, AuthorizationGuard)
+export class CalendarController {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  @Permissions('time:track')
+  @Get()
+  @ApiOperation({
+    summary: 'Get holidays, time off and shifts of a member between two days',
+  })
+  async get(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Query() query: CalendarQueryDto,
+  ) {
+    const calendar = await this.calendarService.getCalendar(
+      workspace,
+      user.id,
+      query,
+    );
+
+    return {
+      message: 'Calendar retrieved successfully',
+      data: calendar,
+    };
+  }
+}
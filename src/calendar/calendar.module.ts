@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { UserModule } from 'src/user/user.module';
+import { WorkspaceModule } from 'src/workspace/workspace.module';
+import { TimeModule } from 'src/time/time.module';
+import { NotificationModule } from 'src/notification/notification.module';
+import { HolidayCalendarService } from './holiday-calendar.service';
+import { TimeOffService } from './time-off.service';
+import { CalendarService } from './calendar.service';
+import { HolidayCalendarController } from './holiday-calendar.controller';
+import { TimeOffController } from './time-off.controller';
+import { CalendarController } from './calendar.controller';
+
+@Module({
+  imports: [UserModule, WorkspaceModule, TimeModule, NotificationModule],
+  controllers: [
+    HolidayCalendarController,
+    TimeOffController,
+    CalendarController,
+  ],
+  providers: [HolidayCalendarService, TimeOffService, CalendarService],
+})
+export class CalendarModule {}
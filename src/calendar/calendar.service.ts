@@ -0,0 +1,176 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { DateTime } from 'luxon';
+import { TimeOffStatus } from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { ClockService } from 'src/common/clock/clock.service';
+import { hasPermission } from 'src/authorization/permissions';
+import { UserPreferencesService } from 'src/user/user-preferences.service';
+import { WorkspaceService } from 'src/workspace/workspace.service';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { CalendarQueryDto } from './dto/calendar-query.dto';
+import { CalendarEvent } from './interfaces/calendar-event.interface';
+import { MAX_CALENDAR_DAYS } from './calendar.constants';
+
+const EVENT_TYPE_ORDER: Record<CalendarEvent['type'], number> = {
+  HOLIDAY: 0,
+  TIME_OFF: 1,
+  SHIFT: 2,
+};
+
+/**
+ * A member's holidays, leave and shifts merged into one calendar, with
+ * days taken in the member's timezone
+ */
+@Injectable()
+export class CalendarService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly userPreferencesService: UserPreferencesService,
+    private readonly clock: ClockService,
+    private readonly workspaceService: WorkspaceService,
+  ) {}
+
+  /**
+   * Calendar of the user, or of another member with time:manage.
+   * Holidays are left out when the current user hides them.
+   */
+  async getCalendar(
+    context: WorkspaceContext,
+    userId: string,
+    query: CalendarQueryDto,
+  ) {
+    const targetUserId = query.userId ?? userId;
+    if (targetUserId !== userId) {
+      if (!hasPermission(context.role, 'time:manage')) {
+        throw new ForbiddenException(
+          'You do not have permission to perform this action',
+        );
+      }
+      const member = await this.workspaceService.findMembership(
+        context.id,
+        targetUserId,
+      );
+      if (!member) {
+        throw new NotFoundException('Member not found');
+      }
+    }
+
+    const from = new Date(query.from);
+    const to = new Date(query.to);
+    const days = (to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000) + 1;
+    if (days < 1) {
+      throw new BadRequestException('From must not be after to');
+    }
+    if (days > MAX_CALENDAR_DAYS) {
+      throw new BadRequestException(
+        `A calendar can cover at most ${MAX_CALENDAR_DAYS} days`,
+      );
+    }
+
+    const [viewer, preferences] = await Promise.all([
+      this.userPreferencesService.getPreferences(userId),
+      this.userPreferencesService.getPreferences(targetUserId),
+    ]);
+    const { timezone } = preferences;
+    const start = DateTime.fromISO(query.from, { zone: timezone });
+    const end = DateTime.fromISO(query.to, { zone: timezone }).plus({
+      days: 1,
+    });
+
+    const holidays = viewer.showHolidays
+      ? await this.prisma.holiday.findMany({
+          where: {
+            calendar: { workspaceId: context.id },
+            date: { gte: from, lte: to },
+          },
+          include: { calendar: { select: { id: true, name: true } } },
+          orderBy: { name: 'asc' },
+        })
+      : [];
+
+    const [leave, shifts] = await this.prisma.$transaction([
+      this.prisma.timeOffRequest.findMany({
+        where: {
+          workspaceId: context.id,
+          userId: targetUserId,
+          status: { in: [TimeOffStatus.PENDING, TimeOffStatus.APPROVED] },
+          startDate: { lte: to },
+          endDate: { gte: from },
+        },
+        orderBy: { startDate: 'asc' },
+      }),
+      this.prisma.shift.findMany({
+        where: {
+          workspaceId: context.id,
+          userId: targetUserId,
+          clockInAt: { lt: end.toJSDate() },
+          OR: [{ clockOutAt: null }, { clockOutAt: { gte: start.toJSDate() } }],
+        },
+        orderBy: { clockInAt: 'asc' },
+      }),
+    ]);
+
+    const events: CalendarEvent[] = [
+      ...holidays.map((holiday): CalendarEvent => ({
+        type: 'HOLIDAY',
+        id: holiday.id,
+        title: holiday.name,
+        startDate: this.formatDate(holiday.date),
+        endDate: this.formatDate(holiday.date),
+        calendar: holiday.calendar,
+      })),
+      ...leave.map((request): CalendarEvent => ({
+        type: 'TIME_OFF',
+        id: request.id,
+        title: request.type,
+        startDate: this.formatDate(request.startDate),
+        endDate: this.formatDate(request.endDate),
+        timeOffType: request.type,
+        status: request.status,
+        startHalfDay: request.startHalfDay,
+        endHalfDay: request.endHalfDay,
+      })),
+      ...shifts.map((shift): CalendarEvent => ({
+        type: 'SHIFT',
+        id: shift.id,
+        title: 'SHIFT',
+        startDate: this.toLocalDate(shift.clockInAt, timezone),
+        endDate: this.toLocalDate(
+          shift.clockOutAt ?? this.clock.now(),
+          timezone,
+        ),
+        clockInAt: shift.clockInAt,
+        clockOutAt: shift.clockOutAt,
+        workedMinutes: shift.workedMinutes,
+      })),
+    ];
+
+    // Stable sort, so events of a day keep the order they were queried in
+    events.sort(
+      (a, b) =>
+        a.startDate.localeCompare(b.startDate) ||
+        EVENT_TYPE_ORDER[a.type] - EVENT_TYPE_ORDER[b.type],
+    );
+
+    return {
+      userId: targetUserId,
+      timezone,
+      from: query.from,
+      to: query.to,
+      events,
+    };
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private toLocalDate(date: Date, timezone: string): string {
+    return DateTime.fromJSDate(date, { zone: timezone }).toISODate()!;
+  }
+}
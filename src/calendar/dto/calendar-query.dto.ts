@@ -0,0 +1,29 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsUUID, Matches } from 'class-validator';
+import { DATE_ONLY_PATTERN } from 'src/time/time.constants';
+
+export class CalendarQueryDto {
+  @ApiProperty({
+    description: 'First day of the calendar (YYYY-MM-DD)',
+    example: '2026-02-01',
+  })
+  @IsDateString({ strict: true }, { message: 'From must be a valid date' })
+  @Matches(DATE_ONLY_PATTERN, { message: 'From must be a date (YYYY-MM-DD)' })
+  from: string;
+
+  @ApiProperty({
+    description: 'Last day of the calendar (YYYY-MM-DD)',
+    example: '2026-02-28',
+  })
+  @IsDateString({ strict: true }, { message: 'To must be a valid date' })
+  @Matches(DATE_ONLY_PATTERN, { message: 'To must be a date (YYYY-MM-DD)' })
+  to: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Calendar of another workspace member, requires the time:manage permission',
+  })
+  @IsOptional()
+  @IsUUID('4')
+  userId?: string;
+}
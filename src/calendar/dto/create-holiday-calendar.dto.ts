@@ -0,0 +1,25 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+
+export class CreateHolidayCalendarDto {
+  @ApiProperty({
+    description: 'Calendar name, unique within the workspace',
+    example: 'Public holidays Germany',
+    minLength: 2,
+    maxLength: 100,
+  })
+  @IsString()
+  @MinLength(2, { message: 'Name must be at least 2 characters long' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Short description of the calendar',
+    example: 'Nationwide public holidays',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'Description must not exceed 500 characters' })
+  description?: string;
+}
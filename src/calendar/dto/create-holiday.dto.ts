@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { DATE_ONLY_PATTERN } from 'src/time/time.constants';
+
+export class CreateHolidayDto {
+  @ApiProperty({
+    description: 'Day of the holiday (YYYY-MM-DD)',
+    example: '2026-12-25',
+  })
+  @IsDateString({ strict: true }, { message: 'Date must be a valid date' })
+  @Matches(DATE_ONLY_PATTERN, { message: 'Date must be a date (YYYY-MM-DD)' })
+  date: string;
+
+  @ApiProperty({ example: 'Christmas Day', maxLength: 255 })
+  @IsString()
+  @MinLength(1, { message: 'Name is required' })
+  @MaxLength(255, { message: 'Name must not exceed 255 characters' })
+  name: string;
+}
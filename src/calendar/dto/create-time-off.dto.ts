@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { TimeOffType } from 'generated/prisma/client';
+import { DATE_ONLY_PATTERN } from 'src/time/time.constants';
+
+export class CreateTimeOffDto {
+  @ApiProperty({ enum: TimeOffType, example: TimeOffType.VACATION })
+  @IsEnum(TimeOffType)
+  type: TimeOffType;
+
+  @ApiProperty({
+    description: 'First day off (YYYY-MM-DD)',
+    example: '2026-08-03',
+  })
+  @IsDateString(
+    { strict: true },
+    { message: 'Start date must be a valid date' },
+  )
+  @Matches(DATE_ONLY_PATTERN, {
+    message: 'Start date must be a date (YYYY-MM-DD)',
+  })
+  startDate: string;
+
+  @ApiProperty({
+    description: 'Last day off (YYYY-MM-DD)',
+    example: '2026-08-14',
+  })
+  @IsDateString({ strict: true }, { message: 'End date must be a valid date' })
+  @Matches(DATE_ONLY_PATTERN, {
+    message: 'End date must be a date (YYYY-MM-DD)',
+  })
+  endDate: string;
+
+  @ApiPropertyOptional({
+    description: 'Only the afternoon of the first day is off',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  startHalfDay?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Only the morning of the last day is off',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  endHalfDay?: boolean;
+
+  @ApiPropertyOptional({ example: 'Summer holiday', maxLength: 1000 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000, { message: 'Reason must not exceed 1000 characters' })
+  reason?: string;
+}
@@ -0,0 +1,23 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional, Matches } from 'class-validator';
+import { DATE_ONLY_PATTERN } from 'src/time/time.constants';
+
+export class ListHolidaysQueryDto {
+  @ApiPropertyOptional({
+    description: 'First day to list holidays from (YYYY-MM-DD)',
+    example: '2026-01-01',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'From must be a valid date' })
+  @Matches(DATE_ONLY_PATTERN, { message: 'From must be a date (YYYY-MM-DD)' })
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Last day to list holidays to (YYYY-MM-DD)',
+    example: '2026-12-31',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'To must be a valid date' })
+  @Matches(DATE_ONLY_PATTERN, { message: 'To must be a date (YYYY-MM-DD)' })
+  to?: string;
+}
@@ -0,0 +1,11 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { TimeOffStatus } from 'generated/prisma/client';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+
+export class ListTimeOffQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: TimeOffStatus })
+  @IsOptional()
+  @IsEnum(TimeOffStatus)
+  status?: TimeOffStatus;
+}
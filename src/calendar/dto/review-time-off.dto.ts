@@ -0,0 +1,21 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+
+export class ReviewTimeOffDto {
+  @ApiPropertyOptional({ example: 'Enjoy your holiday!' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000, { message: 'Comment must not exceed 1000 characters' })
+  comment?: string;
+}
+
+export class RejectTimeOffDto {
+  @ApiProperty({
+    description: 'Why the request is rejected',
+    example: 'The release is planned for that week',
+  })
+  @IsString()
+  @MinLength(1, { message: 'A comment is required when rejecting' })
+  @MaxLength(1000, { message: 'Comment must not exceed 1000 characters' })
+  comment: string;
+}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateHolidayCalendarDto } from './create-holiday-calendar.dto';
+
+export class UpdateHolidayCalendarDto extends PartialType(
+  CreateHolidayCalendarDto,
+) {}
@@ -0,0 +1,231 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  MaxFileSizeValidator,
+  Param,
+  ParseFilePipe,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiHeader,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AuthenticatedGuard } from 'src/auth/guards/authenticated.guard';
+import { AuthorizationGuard } from 'src/authorization/guards/authorization.guard';
+import { Permissions } from 'src/authorization/decorators/permissions.decorator';
+import { CurrentWorkspace } from 'src/workspace/decorators/current-workspace.decorator';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { WORKSPACE_HEADER } from 'src/workspace/workspace.constants';
+import { HolidayCalendarService } from './holiday-calendar.service';
+import { CreateHolidayCalendarDto } from './dto/create-holiday-calendar.dto';
+import { UpdateHolidayCalendarDto } from './dto/update-holiday-calendar.dto';
+import { CreateHolidayDto } from './dto/create-holiday.dto';
+import { ListHolidaysQueryDto } from './dto/list-holidays-query.dto';
+import { MAX_ICS_FILE_SIZE } from './calendar.constants';
+
+@ApiTags('Holiday Calendars')
+@ApiHeader({ name: WORKSPACE_HEADER, required: true })
+@Controller('holiday-calendars')
+@UseGuards(AuthenticatedGuard, AuthorizationGuard)
+export class HolidayCalendarController {
+  constructor(
+    private readonly holidayCalendarService: HolidayCalendarService,
+  ) {}
+
+  @Permissions('workspace:read')
+  @Get()
+  @ApiOperation({ summary: 'List holiday calendars of the workspace' })
+  async list(@CurrentWorkspace() workspace: WorkspaceContext) {
+    const calendars =
+      await this.holidayCalendarService.listCalendars(workspace);
+
+    return {
+      message: 'Holiday calendars retrieved successfully',
+      data: calendars,
+    };
+  }
+
+  @Permissions('calendar:manage')
+  @Post()
+  @ApiOperation({ summary: 'Create a holiday calendar' })
+  async create(
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Body() body: CreateHolidayCalendarDto,
+  ) {
+    const calendar = await this.holidayCalendarService.createCalendar(
+      workspace,
+      body,
+    );
+
+    return {
+      message: 'Holiday calendar created successfully',
+      data: calendar,
+    };
+  }
+
+  @Permissions('workspace:read')
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a holiday calendar' })
+  async findOne(
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const calendar = await this.holidayCalendarService.getCalendar(
+      workspace,
+      id,
+    );
+
+    return {
+      message: 'Holiday calendar retrieved successfully',
+      data: calendar,
+    };
+  }
+
+  @Permissions('calendar:manage')
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a holiday calendar' })
+  async update(
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: UpdateHolidayCalendarDto,
+  ) {
+    const calendar = await this.holidayCalendarService.updateCalendar(
+      workspace,
+      id,
+      body,
+    );
+
+    return {
+      message: 'Holiday calendar updated successfully',
+      data: calendar,
+    };
+  }
+
+  @Permissions('calendar:manage')
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a holiday calendar and its holidays' })
+  async remove(
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.holidayCalendarService.deleteCalendar(workspace, id);
+
+    return {
+      message: 'Holiday calendar deleted successfully',
+      data: null,
+    };
+  }
+
+  @Permissions('workspace:read')
+  @Get(':id/holidays')
+  @ApiOperation({ summary: 'List holidays of a calendar' })
+  async listHolidays(
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ListHolidaysQueryDto,
+  ) {
+    const holidays = await this.holidayCalendarService.listHolidays(
+      workspace,
+      id,
+      query,
+    );
+
+    return {
+      message: 'Holidays retrieved successfully',
+      data: holidays,
+    };
+  }
+
+  @Permissions('calendar:manage')
+  @Post(':id/holidays')
+  @ApiOperation({ summary: 'Add a holiday to a calendar' })
+  async addHoliday(
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: CreateHolidayDto,
+  ) {
+    const holiday = await this.holidayCalendarService.addHoliday(
+      workspace,
+      id,
+      body,
+    );
+
+    return {
+      message: 'Holiday added successfully',
+      data: holiday,
+    };
+  }
+
+  @Permissions('calendar:manage')
+  @Delete(':id/holidays/:holidayId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Remove a holiday from a calendar' })
+  async removeHoliday(
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('holidayId', ParseUUIDPipe) holidayId: string,
+  ) {
+    await this.holidayCalendarService.deleteHoliday(workspace, id, holidayId);
+
+    return {
+      message: 'Holiday removed successfully',
+      data: null,
+    };
+  }
+
+  @Permissions('calendar:manage')
+  @Post(':id/import')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_ICS_FILE_SIZE } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+      required: ['file'],
+    },
+  })
+  @ApiOperation({
+    summary: 'Import holidays from an iCalendar (.ics) file',
+    description:
+      'Every day of each event becomes a holiday, named after the event summary. Holidays already in the calendar are skipped.',
+  })
+  async import(
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [new MaxFileSizeValidator({ maxSize: MAX_ICS_FILE_SIZE })],
+      }),
+    )
+    file: Express.Multer.File,
+  ) {
+    const result = await this.holidayCalendarService.importHolidays(
+      workspace,
+      id,
+      file.buffer,
+    );
+
+    return {
+      message: 'Holidays imported successfully',
+      data: result,
+    };
+  }
+}
@@ -0,0 +1,314 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Holiday,
+  HolidayCalendar,
+  Prisma,
+  TimesheetStatus,
+} from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { parseICalendarEvents } from 'src/common/utils/ical.util';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { CreateHolidayCalendarDto } from './dto/create-holiday-calendar.dto';
+import { UpdateHolidayCalendarDto } from './dto/update-holiday-calendar.dto';
+import { CreateHolidayDto } from './dto/create-holiday.dto';
+import { ListHolidaysQueryDto } from './dto/list-holidays-query.dto';
+import { MAX_HOLIDAY_EVENT_DAYS } from './calendar.constants';
+
+const HOLIDAY_CALENDAR_INCLUDE = {
+  _count: { select: { holidays: true } },
+} satisfies Prisma.HolidayCalendarInclude;
+
+/**
+ * Workspace holiday calendars. The holidays of every calendar apply to
+ * all members and are excluded from their expected hours.
+ */
+@Injectable()
+export class HolidayCalendarService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async listCalendars(context: WorkspaceContext) {
+    return this.prisma.holidayCalendar.findMany({
+      where: { workspaceId: context.id },
+      include: HOLIDAY_CALENDAR_INCLUDE,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async getCalendar(context: WorkspaceContext, id: string) {
+    await this.findCalendar(context, id);
+
+    return this.prisma.holidayCalendar.findUniqueOrThrow({
+      where: { id },
+      include: HOLIDAY_CALENDAR_INCLUDE,
+    });
+  }
+
+  async createCalendar(
+    context: WorkspaceContext,
+    data: CreateHolidayCalendarDto,
+  ) {
+    const name = data.name.trim();
+    await this.assertNameAvailable(context.id, name);
+
+    return this.prisma.holidayCalendar.create({
+      data: {
+        workspaceId: context.id,
+        name,
+        description: data.description?.trim() || null,
+      },
+      include: HOLIDAY_CALENDAR_INCLUDE,
+    });
+  }
+
+  async updateCalendar(
+    context: WorkspaceContext,
+    id: string,
+    data: UpdateHolidayCalendarDto,
+  ) {
+    await this.findCalendar(context, id);
+
+    const name = data.name?.trim();
+    if (name) {
+      await this.assertNameAvailable(context.id, name, id);
+    }
+
+    return this.prisma.holidayCalendar.update({
+      where: { id },
+      data: {
+        name,
+        description:
+          data.description === undefined
+            ? undefined
+            : data.description.trim() || null,
+      },
+      include: HOLIDAY_CALENDAR_INCLUDE,
+    });
+  }
+
+  async deleteCalendar(context: WorkspaceContext, id: string): Promise<void> {
+    await this.findCalendar(context, id);
+
+    // The holidays of the calendar are deleted with it
+    const holidays = await this.prisma.holiday.findMany({
+      where: { calendarId: id },
+      select: { date: true },
+    });
+    await this.assertUnlocked(
+      context.id,
+      holidays.map((holiday) => holiday.date),
+    );
+
+    await this.prisma.holidayCalendar.delete({ where: { id } });
+  }
+
+  async listHolidays(
+    context: WorkspaceContext,
+    id: string,
+    query: ListHolidaysQueryDto,
+  ) {
+    await this.findCalendar(context, id);
+
+    const holidays = await this.prisma.holiday.findMany({
+      where: {
+        calendarId: id,
+        date: {
+          gte: query.from ? new Date(query.from) : undefined,
+          lte: query.to ? new Date(query.to) : undefined,
+        },
+      },
+      orderBy: [{ date: 'asc' }, { name: 'asc' }],
+    });
+
+    return holidays.map((holiday) => this.toHolidayResponse(holiday));
+  }
+
+  async addHoliday(
+    context: WorkspaceContext,
+    id: string,
+    data: CreateHolidayDto,
+  ) {
+    await this.findCalendar(context, id);
+
+    const date = new Date(data.date);
+    await this.assertUnlocked(context.id, [date]);
+
+    try {
+      const holiday = await this.prisma.holiday.create({
+        data: { calendarId: id, date, name: data.name.trim() },
+      });
+
+      return this.toHolidayResponse(holiday);
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('This holiday is already in the calendar');
+      }
+      throw error;
+    }
+  }
+
+  async deleteHoliday(
+    context: WorkspaceContext,
+    id: string,
+    holidayId: string,
+  ): Promise<void> {
+    await this.findCalendar(context, id);
+
+    const holiday = await this.prisma.holiday.findFirst({
+      where: { id: holidayId, calendarId: id },
+    });
+    if (!holiday) {
+      throw new NotFoundException('Holiday not found');
+    }
+    await this.assertUnlocked(context.id, [holiday.date]);
+
+    await this.prisma.holiday.delete({ where: { id: holiday.id } });
+  }
+
+  /**
+   * Add the all-day events of an iCalendar file as holidays. Holidays
+   * already in the calendar are kept, recurring events only add their
+   * first occurrence and events longer than MAX_HOLIDAY_EVENT_DAYS are
+   * skipped.
+   */
+  async importHolidays(context: WorkspaceContext, id: string, file: Buffer) {
+    await this.findCalendar(context, id);
+
+    const content = file.toString('utf8');
+    if (!content.includes('BEGIN:VCALENDAR')) {
+      throw new BadRequestException('The file is not an iCalendar file');
+    }
+
+    const events = parseICalendarEvents(content);
+    if (events.length === 0) {
+      throw new BadRequestException('The file does not contain any events');
+    }
+
+    const holidays: Prisma.HolidayCreateManyInput[] = [];
+    let skipped = 0;
+    let recurring = 0;
+
+    for (const event of events) {
+      const start = new Date(event.startDate);
+      const end = new Date(event.endDate);
+      const days =
+        (end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000) + 1;
+
+      if (!event.summary || days > MAX_HOLIDAY_EVENT_DAYS) {
+        skipped++;
+        continue;
+      }
+      if (event.recurring) {
+        recurring++;
+      }
+
+      const name = event.summary.slice(0, 255);
+      while (start <= end) {
+        holidays.push({ calendarId: id, date: new Date(start), name });
+        start.setUTCDate(start.getUTCDate() + 1);
+      }
+    }
+
+    await this.assertUnlocked(
+      context.id,
+      holidays.map((holiday) => holiday.date as Date),
+    );
+
+    const { count } = await this.prisma.holiday.createMany({
+      data: holidays,
+      skipDuplicates: true,
+    });
+
+    return {
+      imported: count,
+      duplicates: holidays.length - count,
+      skippedEvents: skipped,
+      recurringEvents: recurring,
+    };
+  }
+
+  private async findCalendar(
+    context: WorkspaceContext,
+    id: string,
+  ): Promise<HolidayCalendar> {
+    const calendar = await this.prisma.holidayCalendar.findFirst({
+      where: { id, workspaceId: context.id },
+    });
+    if (!calendar) {
+      throw new NotFoundException('Holiday calendar not found');
+    }
+
+    return calendar;
+  }
+
+  /**
+   * Holidays change the expected hours of every member, so they cannot
+   * fall in a week that a member has submitted or that is approved
+   */
+  private async assertUnlocked(
+    workspaceId: string,
+    dates: Date[],
+  ): Promise<void> {
+    if (dates.length === 0) {
+      return;
+    }
+
+    const times = dates.map((date) => date.getTime());
+    const timesheets = await this.prisma.timesheet.findMany({
+      where: {
+        workspaceId,
+        weekStart: { lte: new Date(Math.max(...times)) },
+        weekEnd: { gte: new Date(Math.min(...times)) },
+        status: { in: [TimesheetStatus.SUBMITTED, TimesheetStatus.APPROVED] },
+      },
+      select: { weekStart: true, weekEnd: true },
+    });
+
+    const locked = [
+      ...new Set(
+        dates
+          .filter((date) =>
+            timesheets.some(
+              (timesheet) =>
+                timesheet.weekStart <= date && timesheet.weekEnd >= date,
+            ),
+          )
+          .map((date) => date.toISOString().slice(0, 10)),
+      ),
+    ].sort();
+    if (locked.length > 0) {
+      throw new ConflictException({
+        message:
+          'Holidays cannot change weeks whose timesheets are submitted or approved',
+        details: { lockedDates: locked },
+      });
+    }
+  }
+
+  private async assertNameAvailable(
+    workspaceId: string,
+    name: string,
+    calendarId?: string,
+  ) {
+    const existing = await this.prisma.holidayCalendar.findUnique({
+      where: { workspaceId_name: { workspaceId, name } },
+      select: { id: true },
+    });
+    if (existing && existing.id !== calendarId) {
+      throw new ConflictException(
+        'A holiday calendar with this name already exists in the workspace',
+      );
+    }
+  }
+
+  private toHolidayResponse(holiday: Holiday) {
+    return { ...holiday, date: holiday.date.toISOString().slice(0, 10) };
+  }
+}
@@ -0,0 +1,33 @@
+import { TimeOffStatus, TimeOffType } from 'generated/prisma/client';
+
+interface CalendarEventBase {
+  id: string;
+  title: string;
+  /** First local day of the event, YYYY-MM-DD */
+  startDate: string;
+  /** Last local day of the event, YYYY-MM-DD */
+  endDate: string;
+}
+
+export interface HolidayEvent extends CalendarEventBase {
+  type: 'HOLIDAY';
+  calendar: { id: string; name: string };
+}
+
+export interface TimeOffEvent extends CalendarEventBase {
+  type: 'TIME_OFF';
+  timeOffType: TimeOffType;
+  status: TimeOffStatus;
+  startHalfDay: boolean;
+  endHalfDay: boolean;
+}
+
+export interface ShiftEvent extends CalendarEventBase {
+  type: 'SHIFT';
+  clockInAt: Date;
+  /** Null while the shift is open */
+  clockOutAt: Date | null;
+  workedMinutes: number | null;
+}
+
+export type CalendarEvent = HolidayEvent | TimeOffEvent | ShiftEvent;
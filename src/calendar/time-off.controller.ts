@@ -0,0 +1,186 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedGuard } from 'src/auth/guards/authenticated.guard';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { AuthorizationGuard } from 'src/authorization/guards/authorization.guard';
+import { Permissions } from 'src/authorization/decorators/permissions.decorator';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { CurrentWorkspace } from 'src/workspace/decorators/current-workspace.decorator';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { WORKSPACE_HEADER } from 'src/workspace/workspace.constants';
+import { TimeOffService } from './time-off.service';
+import { CreateTimeOffDto } from './dto/create-time-off.dto';
+import { RejectTimeOffDto, ReviewTimeOffDto } from './dto/review-time-off.dto';
+import { ListTimeOffQueryDto } from './dto/list-time-off-query.dto';
+
+@ApiTags('Time Off')
+@ApiHeader({ name: WORKSPACE_HEADER, required: true })
+@Controller('time-off')
+@UseGuards(AuthenticatedGuard, AuthorizationGuard)
+export class TimeOffController {
+  constructor(private readonly timeOffService: TimeOffService) {}
+
+  @Permissions('time:track')
+  @Get()
+  @ApiOperation({ summary: 'List time-off requests of the current user' })
+  async list(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Query() query: ListTimeOffQueryDto,
+  ) {
+    const { requests, meta } = await this.timeOffService.listTimeOff(
+      workspace,
+      user.id,
+      query,
+    );
+
+    return {
+      message: 'Time-off requests retrieved successfully',
+      data: requests,
+      meta,
+    };
+  }
+
+  @Permissions('timesheet:approve')
+  @Get('pending')
+  @ApiOperation({ summary: 'List time-off requests waiting for review' })
+  async listPending(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Query() query: ListTimeOffQueryDto,
+  ) {
+    const { requests, meta } = await this.timeOffService.listPending(
+      workspace,
+      user.id,
+      query,
+    );
+
+    return {
+      message: 'Pending time-off requests retrieved successfully',
+      data: requests,
+      meta,
+    };
+  }
+
+  @Permissions('time:track')
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a time-off request' })
+  async get(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const request = await this.timeOffService.getTimeOff(
+      workspace,
+      user.id,
+      id,
+    );
+
+    return {
+      message: 'Time-off request retrieved successfully',
+      data: request,
+    };
+  }
+
+  @Permissions('time:track')
+  @Post()
+  @ApiOperation({
+    summary: 'Request time off',
+    description:
+      'Approved time off is excluded from the expected hours and overtime calculation.',
+  })
+  async create(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Body() body: CreateTimeOffDto,
+  ) {
+    const request = await this.timeOffService.createTimeOff(
+      workspace,
+      user.id,
+      body,
+    );
+
+    return {
+      message: 'Time off requested successfully',
+      data: request,
+    };
+  }
+
+  @Permissions('time:track')
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a pending or approved time-off request' })
+  async cancel(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const request = await this.timeOffService.cancelTimeOff(
+      workspace,
+      user.id,
+      id,
+    );
+
+    return {
+      message: 'Time-off request cancelled successfully',
+      data: request,
+    };
+  }
+
+  @Permissions('timesheet:approve')
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve a pending time-off request' })
+  async approve(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: ReviewTimeOffDto,
+  ) {
+    const request = await this.timeOffService.approve(
+      workspace,
+      user.id,
+      id,
+      body,
+    );
+
+    return {
+      message: 'Time-off request approved successfully',
+      data: request,
+    };
+  }
+
+  @Permissions('timesheet:approve')
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject a pending time-off request with a comment' })
+  async reject(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: RejectTimeOffDto,
+  ) {
+    const request = await this.timeOffService.reject(
+      workspace,
+      user.id,
+      id,
+      body,
+    );
+
+    return {
+      message: 'Time-off request rejected successfully',
+      data: request,
+    };
+  }
+}
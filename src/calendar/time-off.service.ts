@@ -0,0 +1,365 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Prisma,
+  TimeOffRequest,
+  TimeOffStatus,
+  TimesheetStatus,
+} from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { ClockService } from 'src/common/clock/clock.service';
+import { hasPermission } from 'src/authorization/permissions';
+import { NotificationService } from 'src/notification/notification.service';
+import { DaysOffService } from 'src/time/days-off.service';
+import { TimesheetLockedException } from 'src/time/exceptions/timesheet-locked.exception';
+import { UserPreferencesService } from 'src/user/user-preferences.service';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { CreateTimeOffDto } from './dto/create-time-off.dto';
+import { RejectTimeOffDto, ReviewTimeOffDto } from './dto/review-time-off.dto';
+import { ListTimeOffQueryDto } from './dto/list-time-off-query.dto';
+import { MAX_CALENDAR_DAYS } from './calendar.constants';
+
+const USER_SELECT = {
+  id: true,
+  name: true,
+  username: true,
+  image: true,
+} satisfies Prisma.UserSelect;
+
+const TIME_OFF_INCLUDE = {
+  user: { select: USER_SELECT },
+  reviewedBy: { select: USER_SELECT },
+} satisfies Prisma.TimeOffRequestInclude;
+
+type TimeOffWithRelations = Prisma.TimeOffRequestGetPayload<{
+  include: typeof TIME_OFF_INCLUDE;
+}>;
+
+const OPEN_STATUSES = [TimeOffStatus.PENDING, TimeOffStatus.APPROVED];
+
+/**
+ * Leave requests: members request time off, reviewers with
+ * timesheet:approve approve or reject it. Approved leave is excluded
+ * from the expected hours of the member.
+ */
+@Injectable()
+export class TimeOffService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly daysOffService: DaysOffService,
+    private readonly userPreferencesService: UserPreferencesService,
+    private readonly notificationService: NotificationService,
+    private readonly clock: ClockService,
+  ) {}
+
+  /**
+   * Time-off requests of the current user
+   */
+  async listTimeOff(
+    context: WorkspaceContext,
+    userId: string,
+    query: ListTimeOffQueryDto,
+  ) {
+    return this.paginate(
+      { workspaceId: context.id, userId, status: query.status },
+      { startDate: 'desc' },
+      query,
+    );
+  }
+
+  /**
+   * Pending requests of other members waiting for review, oldest first
+   */
+  async listPending(
+    context: WorkspaceContext,
+    userId: string,
+    query: ListTimeOffQueryDto,
+  ) {
+    return this.paginate(
+      {
+        workspaceId: context.id,
+        userId: { not: userId },
+        status: TimeOffStatus.PENDING,
+      },
+      { createdAt: 'asc' },
+      query,
+    );
+  }
+
+  async getTimeOff(context: WorkspaceContext, userId: string, id: string) {
+    const request = await this.findTimeOff(context, userId, id);
+
+    return this.toResponse(request);
+  }
+
+  /**
+   * Request leave. A request may not overlap another pending or approved
+   * request of the user.
+   */
+  async createTimeOff(
+    context: WorkspaceContext,
+    userId: string,
+    data: CreateTimeOffDto,
+  ) {
+    const startDate = new Date(data.startDate);
+    const endDate = new Date(data.endDate);
+    const startHalfDay = data.startHalfDay ?? false;
+    const endHalfDay = data.endHalfDay ?? false;
+
+    const days =
+      (endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000) + 1;
+    if (days < 1) {
+      throw new BadRequestException('End date must not be before start date');
+    }
+    if (days > MAX_CALENDAR_DAYS) {
+      throw new BadRequestException(
+        `A request can cover at most ${MAX_CALENDAR_DAYS} days`,
+      );
+    }
+    if (days === 1 && startHalfDay && endHalfDay) {
+      throw new BadRequestException(
+        'A single day request can only be a morning or an afternoon',
+      );
+    }
+
+    const overlapping = await this.prisma.timeOffRequest.findFirst({
+      where: {
+        workspaceId: context.id,
+        userId,
+        status: { in: OPEN_STATUSES },
+        startDate: { lte: endDate },
+        endDate: { gte: startDate },
+      },
+      select: { id: true },
+    });
+    if (overlapping) {
+      throw new ConflictException(
+        'The request overlaps another pending or approved time-off request',
+      );
+    }
+
+    const request = await this.prisma.timeOffRequest.create({
+      data: {
+        workspaceId: context.id,
+        userId,
+        type: data.type,
+        startDate,
+        endDate,
+        startHalfDay,
+        endHalfDay,
+        reason: data.reason?.trim() || null,
+      },
+      include: TIME_OFF_INCLUDE,
+    });
+
+    return this.toResponse(request);
+  }
+
+  /**
+   * Withdraw a pending or approved request
+   */
+  async cancelTimeOff(context: WorkspaceContext, userId: string, id: string) {
+    const request = await this.findTimeOff(context, userId, id);
+    if (request.userId !== userId) {
+      throw new ForbiddenException('Only the requester can cancel a request');
+    }
+    if (!OPEN_STATUSES.some((status) => status === request.status)) {
+      throw new ConflictException(
+        'Only pending or approved requests can be cancelled',
+      );
+    }
+
+    const cancelled = await this.transition(request, TimeOffStatus.CANCELLED);
+
+    return this.toResponse(cancelled);
+  }
+
+  async approve(
+    context: WorkspaceContext,
+    userId: string,
+    id: string,
+    data: ReviewTimeOffDto,
+  ) {
+    return this.review(
+      context,
+      userId,
+      id,
+      TimeOffStatus.APPROVED,
+      data.comment,
+    );
+  }
+
+  async reject(
+    context: WorkspaceContext,
+    userId: string,
+    id: string,
+    data: RejectTimeOffDto,
+  ) {
+    return this.review(
+      context,
+      userId,
+      id,
+      TimeOffStatus.REJECTED,
+      data.comment,
+    );
+  }
+
+  private async review(
+    context: WorkspaceContext,
+    userId: string,
+    id: string,
+    status: TimeOffStatus,
+    comment?: string,
+  ) {
+    const request = await this.findTimeOff(context, userId, id);
+    if (request.userId === userId) {
+      throw new ForbiddenException('You cannot review your own request');
+    }
+    if (request.status !== TimeOffStatus.PENDING) {
+      throw new ConflictException('Only pending requests can be reviewed');
+    }
+
+    const reviewComment = comment?.trim() || null;
+    const reviewed = await this.transition(request, status, {
+      reviewedById: userId,
+      reviewedAt: this.clock.now(),
+      reviewComment,
+    });
+
+    const preferences = await this.userPreferencesService.getPreferences(
+      request.userId,
+    );
+    await this.notificationService.enqueue(`TIME_OFF_${status}`, preferences, {
+      timeOffRequestId: request.id,
+      workspaceId: request.workspaceId,
+      type: request.type,
+      startDate: this.formatDate(request.startDate),
+      endDate: this.formatDate(request.endDate),
+      comment: reviewComment,
+    });
+
+    return this.toResponse(reviewed);
+  }
+
+  /**
+   * Change the status while it is unchanged, so concurrent reviews or a
+   * review racing a cancellation cannot both succeed. Only approved leave
+   * counts against the expected hours, which must not change in submitted
+   * or approved weeks, so leave there cannot be approved or withdrawn.
+   */
+  private async transition(
+    request: TimeOffRequest,
+    status: TimeOffStatus,
+    data: Prisma.TimeOffRequestUncheckedUpdateManyInput = {},
+  ): Promise<TimeOffWithRelations> {
+    if (
+      request.status === TimeOffStatus.APPROVED ||
+      status === TimeOffStatus.APPROVED
+    ) {
+      await this.assertUnlocked(request);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.timeOffRequest.updateMany({
+        where: { id: request.id, status: request.status },
+        data: { ...data, status },
+      });
+      if (count === 0) {
+        throw new ConflictException(
+          'The request was changed in the meantime, please reload it',
+        );
+      }
+
+      return tx.timeOffRequest.findUniqueOrThrow({
+        where: { id: request.id },
+        include: TIME_OFF_INCLUDE,
+      });
+    });
+  }
+
+  /**
+   * Reject changes to leave in a week whose timesheet is submitted or
+   * approved
+   */
+  private async assertUnlocked(request: TimeOffRequest): Promise<void> {
+    const timesheet = await this.prisma.timesheet.findFirst({
+      where: {
+        workspaceId: request.workspaceId,
+        userId: request.userId,
+        weekStart: { lte: request.endDate },
+        weekEnd: { gte: request.startDate },
+        status: { in: [TimesheetStatus.SUBMITTED, TimesheetStatus.APPROVED] },
+      },
+      orderBy: { weekStart: 'asc' },
+      select: { id: true, status: true },
+    });
+    if (timesheet) {
+      throw new TimesheetLockedException(timesheet.id, timesheet.status);
+    }
+  }
+
+  /**
+   * Find a request of the user, or of any member for reviewers
+   */
+  private async findTimeOff(
+    context: WorkspaceContext,
+    userId: string,
+    id: string,
+  ): Promise<TimeOffWithRelations> {
+    const request = await this.prisma.timeOffRequest.findFirst({
+      where: { id, workspaceId: context.id },
+      include: TIME_OFF_INCLUDE,
+    });
+    if (
+      !request ||
+      (request.userId !== userId &&
+        !hasPermission(context.role, 'timesheet:approve'))
+    ) {
+      throw new NotFoundException('Time-off request not found');
+    }
+
+    return request;
+  }
+
+  private async paginate(
+    where: Prisma.TimeOffRequestWhereInput,
+    orderBy: Prisma.TimeOffRequestOrderByWithRelationInput,
+    query: ListTimeOffQueryDto,
+  ) {
+    const [requests, total] = await this.prisma.$transaction([
+      this.prisma.timeOffRequest.findMany({
+        where,
+        include: TIME_OFF_INCLUDE,
+        orderBy,
+        skip: query.skip,
+        take: query.limit,
+      }),
+      this.prisma.timeOffRequest.count({ where }),
+    ]);
+
+    return {
+      requests: requests.map((request) => this.toResponse(request)),
+      meta: query.toMeta(total),
+    };
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private toResponse(request: TimeOffWithRelations) {
+    const days = [...this.daysOffService.getLeaveDays(request).values()];
+
+    return {
+      ...request,
+      startDate: this.formatDate(request.startDate),
+      endDate: this.formatDate(request.endDate),
+      days: days.reduce((total, share) => total + share, 0),
+    };
+  }
+}
@@ -0,0 +1,12 @@
+import { Injectable } from '@nestjs/common';
+
+/**
+ * Source of the current time. Inject it instead of calling `new Date()`
+ * where time drives behavior, so tests can override the provider.
+ */
+@Injectable()
+export class ClockService {
+  now(): Date {
+    return new Date();
+  }
+}
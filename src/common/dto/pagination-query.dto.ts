@@ -0,0 +1,45 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Meta } from '../interfaces/response.interface';
+
+export class PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Page number, starting at 1',
+    example: 1,
+    minimum: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  page: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    example: 20,
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 20;
+
+  get skip(): number {
+    return (this.page - 1) * this.limit;
+  }
+
+  /**
+   * Build the pagination meta for a response
+   */
+  toMeta(total: number): Meta {
+    return {
+      page: this.page,
+      limit: this.limit,
+      skip: this.skip,
+      total,
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Thrown when a login is attempted on a temporarily locked account
+ */
+export class AccountLockedException extends HttpException {
+  constructor(public readonly lockedUntil: Date) {
+    super(
+      {
+        message: `Your account is temporarily locked due to repeated failed login attempts. Try again after ${lockedUntil.toISOString()}.`,
+        errorCode: 'ACCOUNT_LOCKED',
+        details: { lockedUntil: lockedUntil.toISOString() },
+      },
+      HttpStatus.LOCKED,
+    );
+  }
+}
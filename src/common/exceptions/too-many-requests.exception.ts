@@ -0,0 +1,21 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Thrown when a client exceeds a rate limit.
+ * The retry delay is exposed to clients through the Retry-After header.
+ */
+export class TooManyRequestsException extends HttpException {
+  constructor(
+    message: string,
+    public readonly retryAfter: number,
+  ) {
+    super(
+      {
+        message,
+        errorCode: 'TOO_MANY_REQUESTS',
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
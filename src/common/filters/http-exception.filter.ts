@@ -25,6 +25,8 @@ export class HttpExceptionFilter implements ExceptionFilter {
     let statusCode: number;
     let message: string;
     let errorCode: string;
+    let retryAfter: number | undefined;
+    let details: Record<string, unknown> | undefined;
 
     if (exception instanceof HttpException) {
       statusCode = exception.getStatus();
@@ -53,6 +55,13 @@ export class HttpExceptionFilter implements ExceptionFilter {
         errorCode =
           (responseObj as { errorCode?: string }).errorCode ||
           this.getErrorCode(statusCode);
+
+        // Expose rate limit delays to clients
+        retryAfter = (responseObj as { retryAfter?: number }).retryAfter;
+
+        // Pass through structured error details (e.g. unlock time)
+        details = (responseObj as { details?: Record<string, unknown> })
+          .details;
       } else {
         message = exception.message;
         errorCode = this.getErrorCode(statusCode);
@@ -88,8 +97,13 @@ export class HttpExceptionFilter implements ExceptionFilter {
       success: false,
       errorCode,
       message,
+      ...(details && { details }),
     };
 
+    if (retryAfter !== undefined) {
+      response.setHeader('Retry-After', String(retryAfter));
+    }
+
     response.status(statusCode).json(errorResponse);
   }
 
@@ -3,6 +3,7 @@ import {
   ExecutionContext,
   Injectable,
   NestInterceptor,
+  StreamableFile,
 } from '@nestjs/common';
 import { SuccessResponse, Meta } from '../interfaces/response.interface';
 import { map, Observable } from 'rxjs';
@@ -26,6 +27,11 @@ export class ResponseInterceptor<T>
 
     return next.handle().pipe(
       map((data: T | ResponseData): SuccessResponse<T> => {
+        // Files are sent as they are
+        if (data instanceof StreamableFile) {
+          return data as unknown as SuccessResponse<T>;
+        }
+
         if (
           data &&
           typeof data === 'object' &&
@@ -19,6 +19,7 @@ export interface ErrorResponse {
   message: string;
   success: false;
   errorCode: string;
+  details?: Record<string, unknown>;
 }
 
 export type ApiResponse<T = unknown> = SuccessResponse<T> | ErrorResponse;
@@ -0,0 +1,30 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT } from './transports/mail-transport.interface';
+import { ConsoleMailTransport } from './transports/console.transport';
+import { FileMailTransport } from './transports/file.transport';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        // Select the transport with MAIL_TRANSPORT=console|file
+        switch (configService.get<string>('MAIL_TRANSPORT')) {
+          case 'file':
+            return new FileMailTransport(
+              configService.get<string>('MAIL_FILE_DIR') || '.tmp/mail',
+            );
+          default:
+            return new ConsoleMailTransport();
+        }
+      },
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
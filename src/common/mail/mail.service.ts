@@ -0,0 +1,30 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MAIL_TRANSPORT,
+  MailMessage,
+  MailTransport,
+} from './transports/mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly from: string;
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    configService: ConfigService,
+  ) {
+    this.from =
+      configService.get<string>('MAIL_FROM') ||
+      'TaskSine <no-reply@tasksine.local>';
+  }
+
+  /**
+   * Send an email through the configured transport
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: this.from });
+    this.logger.log(`Sent "${message.subject}" to ${message.to}`);
+  }
+}
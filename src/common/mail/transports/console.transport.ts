@@ -0,0 +1,23 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * Writes outgoing mail to the application log, for local development
+ */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  send(message: MailMessage & { from: string }): Promise<void> {
+    this.logger.log(
+      [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+      ].join('\n'),
+    );
+
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,24 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * Stores every outgoing mail as a JSON file, so local tooling
+ * and tests can read the delivered messages
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const sentAt = new Date().toISOString();
+    const fileName = `${sentAt.replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+
+    await writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt }, null, 2),
+    );
+  }
+}
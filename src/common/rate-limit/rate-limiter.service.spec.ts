@@ -0,0 +1,133 @@
+import { InMemoryRedis } from '../redis/testing/in-memory-redis';
+import { TooManyRequestsException } from '../exceptions/too-many-requests.exception';
+import { RateLimitPolicy, RateLimiterService } from './rate-limiter.service';
+
+const POLICY: RateLimitPolicy = { limit: 5, windowSeconds: 60 };
+
+// Start of a window, so elapsed fractions are easy to reason about
+const WINDOW_START = 1_800_000_000_000 - (1_800_000_000_000 % 60_000);
+
+describe('RateLimiterService', () => {
+  let redis: InMemoryRedis;
+  let limiter: RateLimiterService;
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(WINDOW_START);
+    redis = new InMemoryRedis();
+    limiter = new RateLimiterService(redis.asService());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  async function hit(times: number) {
+    for (let i = 0; i < times; i++) {
+      await limiter.hit('key', POLICY);
+    }
+  }
+
+  it('allows hits below the limit and counts them down', async () => {
+    const result = await limiter.hit('key', POLICY);
+
+    expect(result).toEqual({
+      allowed: true,
+      count: 0,
+      remaining: 5,
+      retryAfter: 0,
+    });
+    expect(await limiter.check('key', POLICY)).toMatchObject({
+      allowed: true,
+      count: 1,
+      remaining: 4,
+    });
+  });
+
+  it('blocks once the limit is reached', async () => {
+    await hit(5);
+
+    const result = await limiter.check('key', POLICY);
+
+    expect(result.allowed).toBe(false);
+    expect(result.remaining).toBe(0);
+    expect(result.retryAfter).toBeGreaterThan(0);
+  });
+
+  it('keeps keys apart', async () => {
+    await hit(5);
+
+    expect((await limiter.check('other', POLICY)).allowed).toBe(true);
+  });
+
+  it('weights the previous window by the part still overlapping', async () => {
+    await hit(5);
+
+    // Halfway into the next window half of the previous hits still count
+    jest.setSystemTime(WINDOW_START + 90_000);
+    const result = await limiter.check('key', POLICY);
+
+    expect(result.allowed).toBe(true);
+    expect(result.count).toBe(3);
+    expect(result.remaining).toBe(2);
+  });
+
+  it('forgets hits two windows back', async () => {
+    await hit(5);
+
+    jest.setSystemTime(WINDOW_START + 120_000);
+
+    expect(await limiter.check('key', POLICY)).toMatchObject({
+      allowed: true,
+      count: 0,
+    });
+  });
+
+  it('expires counters after two windows', async () => {
+    await hit(1);
+
+    expect(redis.keys()).toHaveLength(1);
+    jest.setSystemTime(WINDOW_START + 120_000);
+    expect(redis.keys()).toHaveLength(0);
+  });
+
+  it('retries after the weighted count drops below the limit', async () => {
+    await hit(5);
+
+    const { retryAfter } = await limiter.check('key', POLICY);
+
+    jest.setSystemTime(WINDOW_START + (retryAfter - 1) * 1000);
+    expect((await limiter.check('key', POLICY)).allowed).toBe(false);
+
+    jest.setSystemTime(WINDOW_START + retryAfter * 1000);
+    expect((await limiter.check('key', POLICY)).allowed).toBe(true);
+  });
+
+  it('throws TooManyRequestsException from assertNotLimited', async () => {
+    await hit(5);
+
+    await expect(
+      limiter.assertNotLimited('key', POLICY, 'Slow down'),
+    ).rejects.toThrow(TooManyRequestsException);
+  });
+
+  it('clears the counters on reset', async () => {
+    await hit(5);
+    jest.setSystemTime(WINDOW_START + 70_000);
+    await hit(1);
+
+    await limiter.reset('key', POLICY);
+
+    expect(await limiter.check('key', POLICY)).toMatchObject({
+      allowed: true,
+      count: 0,
+    });
+  });
+
+  it('allows everything while Redis is down', async () => {
+    await hit(5);
+    redis.connected = false;
+
+    expect((await limiter.hit('key', POLICY)).allowed).toBe(true);
+    expect((await limiter.check('key', POLICY)).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,181 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RedisService } from '../redis/redis.service';
+import { TooManyRequestsException } from '../exceptions/too-many-requests.exception';
+
+export interface RateLimitPolicy {
+  /** Maximum number of hits allowed within the window */
+  limit: number;
+  /** Window length in seconds */
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Estimated number of hits in the sliding window */
+  count: number;
+  remaining: number;
+  /** Seconds until the next hit would be allowed, 0 when allowed */
+  retryAfter: number;
+}
+
+/**
+ * Sliding window rate limiter backed by Redis counters.
+ *
+ * Each window is stored as a fixed counter; the hit count of the sliding
+ * window is estimated by weighting the previous counter with the part of it
+ * that still overlaps the sliding window. When Redis is unavailable every
+ * request is allowed, so rate limiting never takes the application down.
+ */
+@Injectable()
+export class RateLimiterService {
+  private readonly logger = new Logger(RateLimiterService.name);
+
+  constructor(private readonly redis: RedisService) {}
+
+  /**
+   * Check the limit for a key without recording a hit
+   */
+  async check(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    if (!this.redis.isConnected()) {
+      return this.allowAll(policy);
+    }
+
+    const window = this.getWindow(policy);
+    const [current, previous] = await Promise.all([
+      this.redis.get(this.counterKey(key, window.index)),
+      this.redis.get(this.counterKey(key, window.index - 1)),
+    ]);
+
+    return this.evaluate(
+      Number(current ?? 0),
+      Number(previous ?? 0),
+      window,
+      policy,
+    );
+  }
+
+  /**
+   * Record a hit for a key and return the resulting state
+   */
+  async hit(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    if (!this.redis.isConnected()) {
+      return this.allowAll(policy);
+    }
+
+    const window = this.getWindow(policy);
+    const currentKey = this.counterKey(key, window.index);
+
+    const current = await this.redis.incr(currentKey);
+    if (current === null) {
+      return this.allowAll(policy);
+    }
+    if (current === 1) {
+      // Keep the counter alive while it is still the previous window
+      await this.redis.expire(currentKey, policy.windowSeconds * 2);
+    }
+
+    const previous = await this.redis.get(
+      this.counterKey(key, window.index - 1),
+    );
+
+    return this.evaluate(current - 1, Number(previous ?? 0), window, policy);
+  }
+
+  /**
+   * Throw TooManyRequestsException when the key is over its limit
+   */
+  async assertNotLimited(
+    key: string,
+    policy: RateLimitPolicy,
+    message = 'Too many requests. Please try again later.',
+  ): Promise<void> {
+    const result = await this.check(key, policy);
+
+    if (!result.allowed) {
+      this.logger.warn(`Rate limit exceeded for ${key}`);
+      throw new TooManyRequestsException(message, result.retryAfter);
+    }
+  }
+
+  /**
+   * Clear all recorded hits for a key
+   */
+  async reset(key: string, policy: RateLimitPolicy): Promise<void> {
+    const window = this.getWindow(policy);
+
+    await this.redis.del(
+      this.counterKey(key, window.index),
+      this.counterKey(key, window.index - 1),
+    );
+  }
+
+  /**
+   * Compute the state for the next hit given the counters seen so far
+   */
+  private evaluate(
+    current: number,
+    previous: number,
+    window: { index: number; elapsed: number; lengthMs: number },
+    policy: RateLimitPolicy,
+  ): RateLimitResult {
+    const count = previous * (1 - window.elapsed) + current;
+    const allowed = count < policy.limit;
+
+    return {
+      allowed,
+      count: Math.ceil(count),
+      remaining: Math.max(0, Math.floor(policy.limit - count)),
+      retryAfter: allowed
+        ? 0
+        : this.getRetryAfter(current, previous, window, policy),
+    };
+  }
+
+  /**
+   * Seconds until the weighted count drops below the limit again
+   */
+  private getRetryAfter(
+    current: number,
+    previous: number,
+    window: { elapsed: number; lengthMs: number },
+    policy: RateLimitPolicy,
+  ): number {
+    let waitFraction: number;
+
+    if (current < policy.limit) {
+      // The previous window still has to slide out far enough
+      waitFraction = 1 - (policy.limit - current) / previous - window.elapsed;
+    } else {
+      // Wait for this window to end, then for it to slide out far enough
+      waitFraction = 1 - window.elapsed + (1 - policy.limit / current);
+    }
+
+    // The count has to drop strictly below the limit, so an exact second
+    // boundary is still blocked
+    return Math.max(1, Math.floor((waitFraction * window.lengthMs) / 1000) + 1);
+  }
+
+  private getWindow(policy: RateLimitPolicy) {
+    const lengthMs = policy.windowSeconds * 1000;
+    const now = Date.now();
+
+    return {
+      index: Math.floor(now / lengthMs),
+      elapsed: (now % lengthMs) / lengthMs,
+      lengthMs,
+    };
+  }
+
+  private counterKey(key: string, windowIndex: number): string {
+    return `rate-limit:${key}:${windowIndex}`;
+  }
+
+  private allowAll(policy: RateLimitPolicy): RateLimitResult {
+    return {
+      allowed: true,
+      count: 0,
+      remaining: policy.limit,
+      retryAfter: 0,
+    };
+  }
+}
@@ -159,6 +159,49 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Set value only when the key does not exist yet
+   *
+   * @returns true when the value was set
+   */
+  async setIfNotExists(
+    key: string,
+    value: string,
+    ttlSeconds?: number,
+  ): Promise<boolean> {
+    if (!this.ensureConnected()) {
+      return false;
+    }
+    try {
+      const result = await this.client!.set(key, value, {
+        NX: true,
+        ...(ttlSeconds !== undefined && ttlSeconds > 0 && { EX: ttlSeconds }),
+      });
+      return result === 'OK';
+    } catch (error) {
+      this.logger.error(`Error setting key ${key} in Redis`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Get value and delete the key in one step
+   */
+  async getDel(key: string): Promise<string | null> {
+    if (!this.ensureConnected()) {
+      return null;
+    }
+    try {
+      return await this.client!.getDel(key);
+    } catch (error) {
+      this.logger.error(
+        `Error getting and deleting key ${key} in Redis`,
+        error,
+      );
+      return null;
+    }
+  }
+
   /**
    * Delete key(s) from Redis
    */
@@ -178,6 +221,27 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Delete a key only while it still holds the given value
+   *
+   * @returns true when the key was deleted
+   */
+  async delIfEquals(key: string, value: string): Promise<boolean> {
+    if (!this.ensureConnected()) {
+      return false;
+    }
+    try {
+      const result = await this.client!.eval(
+        "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+        { keys: [key], arguments: [value] },
+      );
+      return result === 1;
+    } catch (error) {
+      this.logger.error(`Error deleting key ${key} from Redis`, error);
+      return false;
+    }
+  }
+
   /**
    * Check if key exists
    */
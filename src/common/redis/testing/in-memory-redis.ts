@@ -0,0 +1,146 @@
+import { RedisService } from '../redis.service';
+
+interface Entry {
+  value: string | string[];
+  expiresAt: number | null;
+}
+
+/**
+ * In-memory stand-in for RedisService in unit tests, covering the
+ * operations the services use. Expiry follows Date.now(), so it moves
+ * with jest fake timers.
+ */
+export class InMemoryRedis {
+  private readonly entries = new Map<string, Entry>();
+
+  connected = true;
+
+  /**
+   * Typed as the real service for injection into the code under test
+   */
+  asService(): RedisService {
+    return this as unknown as RedisService;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Live keys, for assertions
+   */
+  keys(): string[] {
+    return [...this.entries.keys()].filter((key) => this.read(key));
+  }
+
+  /**
+   * Items of a list, for assertions
+   */
+  list(key: string): string[] {
+    const value = this.read(key)?.value;
+    return Array.isArray(value) ? value : [];
+  }
+
+  get(key: string): Promise<string | null> {
+    return Promise.resolve(this.readString(key));
+  }
+
+  set(key: string, value: string, ttlSeconds?: number): Promise<boolean> {
+    if (!this.connected) {
+      return Promise.resolve(false);
+    }
+    this.write(key, value, ttlSeconds);
+    return Promise.resolve(true);
+  }
+
+  setIfNotExists(
+    key: string,
+    value: string,
+    ttlSeconds?: number,
+  ): Promise<boolean> {
+    if (!this.connected || this.read(key)) {
+      return Promise.resolve(false);
+    }
+    this.write(key, value, ttlSeconds);
+    return Promise.resolve(true);
+  }
+
+  getDel(key: string): Promise<string | null> {
+    const value = this.readString(key);
+    this.entries.delete(key);
+    return Promise.resolve(value);
+  }
+
+  del(...keys: string[]): Promise<boolean> {
+    for (const key of keys) {
+      this.entries.delete(key);
+    }
+    return Promise.resolve(this.connected);
+  }
+
+  delIfEquals(key: string, value: string): Promise<boolean> {
+    if (!this.connected || this.readString(key) !== value) {
+      return Promise.resolve(false);
+    }
+    this.entries.delete(key);
+    return Promise.resolve(true);
+  }
+
+  exists(key: string): Promise<boolean> {
+    return Promise.resolve(!!this.read(key));
+  }
+
+  expire(key: string, seconds: number): Promise<boolean> {
+    const entry = this.read(key);
+    if (entry) {
+      entry.expiresAt = Date.now() + seconds * 1000;
+    }
+    return Promise.resolve(!!entry);
+  }
+
+  incr(key: string): Promise<number | null> {
+    if (!this.connected) {
+      return Promise.resolve(null);
+    }
+    const entry = this.read(key);
+    const value = Number(entry?.value ?? 0) + 1;
+    this.entries.set(key, {
+      value: String(value),
+      expiresAt: entry?.expiresAt ?? null,
+    });
+    return Promise.resolve(value);
+  }
+
+  rPush(key: string, ...values: string[]): Promise<number | null> {
+    if (!this.connected) {
+      return Promise.resolve(null);
+    }
+    const list = [...this.list(key), ...values];
+    this.entries.set(key, { value: list, expiresAt: null });
+    return Promise.resolve(list.length);
+  }
+
+  private read(key: string): Entry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private readString(key: string): string | null {
+    const value = this.read(key)?.value;
+    return typeof value === 'string' ? value : null;
+  }
+
+  private write(key: string, value: string, ttlSeconds?: number): void {
+    this.entries.set(key, {
+      value,
+      expiresAt:
+        ttlSeconds !== undefined && ttlSeconds > 0
+          ? Date.now() + ttlSeconds * 1000
+          : null,
+    });
+  }
+}
@@ -0,0 +1,118 @@
+import { InMemoryRedis } from '../redis/testing/in-memory-redis';
+import { JobLockService } from './job-lock.service';
+import { JOB_LOCK_KEY_PREFIX } from './scheduler.constants';
+
+const LOCK_KEY = `${JOB_LOCK_KEY_PREFIX}nightly`;
+
+/**
+ * A task that runs until it is told to finish
+ */
+function pendingTask() {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+
+  return { task: jest.fn(() => done), finish };
+}
+
+describe('JobLockService', () => {
+  let redis: InMemoryRedis;
+  let jobLock: JobLockService;
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-02-02T08:00:00Z'));
+    redis = new InMemoryRedis();
+    jobLock = new JobLockService(redis.asService());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('runs the job and releases the lock', async () => {
+    const task = jest.fn(() => Promise.resolve());
+
+    await expect(jobLock.runExclusive('nightly', 60, task)).resolves.toBe(true);
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(redis.keys()).toEqual([]);
+  });
+
+  it('skips the job while another run holds the lock', async () => {
+    const first = pendingTask();
+    const second = jest.fn(() => Promise.resolve());
+
+    const running = jobLock.runExclusive('nightly', 60, first.task);
+    await expect(jobLock.runExclusive('nightly', 60, second)).resolves.toBe(
+      false,
+    );
+
+    first.finish();
+    await expect(running).resolves.toBe(true);
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('runs different jobs side by side', async () => {
+    const first = pendingTask();
+    const other = jest.fn(() => Promise.resolve());
+
+    const running = jobLock.runExclusive('nightly', 60, first.task);
+    await expect(jobLock.runExclusive('hourly', 60, other)).resolves.toBe(true);
+
+    first.finish();
+    await running;
+  });
+
+  it('releases the lock when the job fails', async () => {
+    const task = jest.fn(() => Promise.reject(new Error('Database down')));
+
+    await expect(jobLock.runExclusive('nightly', 60, task)).rejects.toThrow(
+      'Database down',
+    );
+
+    expect(redis.keys()).toEqual([]);
+  });
+
+  it('runs again once the lock of a dead instance expires', async () => {
+    await redis.set(LOCK_KEY, 'dead-instance', 60);
+    const task = jest.fn(() => Promise.resolve());
+
+    await expect(jobLock.runExclusive('nightly', 60, task)).resolves.toBe(
+      false,
+    );
+
+    jest.advanceTimersByTime(60_000);
+    await expect(jobLock.runExclusive('nightly', 60, task)).resolves.toBe(true);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a lock taken over after its own expired', async () => {
+    const slow = pendingTask();
+    const running = jobLock.runExclusive('nightly', 60, slow.task);
+
+    // The run outlasts its lock and another instance takes over
+    jest.advanceTimersByTime(60_000);
+    const next = pendingTask();
+    const takeover = jobLock.runExclusive('nightly', 60, next.task);
+    const takeoverToken = await redis.get(LOCK_KEY);
+
+    slow.finish();
+    await running;
+
+    expect(takeoverToken).not.toBeNull();
+    expect(await redis.get(LOCK_KEY)).toBe(takeoverToken);
+
+    next.finish();
+    await expect(takeover).resolves.toBe(true);
+    expect(redis.keys()).toEqual([]);
+  });
+
+  it('skips the job without Redis', async () => {
+    redis.connected = false;
+    const task = jest.fn(() => Promise.resolve());
+
+    await expect(jobLock.runExclusive('nightly', 60, task)).resolves.toBe(
+      false,
+    );
+    expect(task).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,46 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { RedisService } from '../redis/redis.service';
+import { JOB_LOCK_KEY_PREFIX } from './scheduler.constants';
+
+/**
+ * Redis locks that let a scheduled job run on only one application
+ * instance at a time. Without Redis the job is skipped, as there is no
+ * way to tell whether another instance is already running it.
+ */
+@Injectable()
+export class JobLockService {
+  private readonly logger = new Logger(JobLockService.name);
+
+  constructor(private readonly redis: RedisService) {}
+
+  /**
+   * Run the job unless another instance holds its lock
+   *
+   * @param ttlSeconds how long the lock is held at most, in case the
+   * instance dies while running the job
+   * @returns whether the job ran
+   */
+  async runExclusive(
+    job: string,
+    ttlSeconds: number,
+    task: () => Promise<void>,
+  ): Promise<boolean> {
+    const key = `${JOB_LOCK_KEY_PREFIX}${job}`;
+    const token = randomUUID();
+
+    const acquired = await this.redis.setIfNotExists(key, token, ttlSeconds);
+    if (!acquired) {
+      this.logger.debug(`Skipping job ${job}, it is running elsewhere`);
+      return false;
+    }
+
+    try {
+      await task();
+      return true;
+    } finally {
+      // Only release the lock if it has not expired and been taken over
+      await this.redis.delIfEquals(key, token);
+    }
+  }
+}
@@ -0,0 +1 @@
+export const JOB_LOCK_KEY_PREFIX = 'scheduler:lock:';
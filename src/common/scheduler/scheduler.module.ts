@@ -0,0 +1,9 @@
+import { Global, Module } from '@nestjs/common';
+import { JobLockService } from './job-lock.service';
+
+@Global()
+@Module({
+  providers: [JobLockService],
+  exports: [JobLockService],
+})
+export class SchedulerModule {}
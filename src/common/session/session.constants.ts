@@ -0,0 +1,14 @@
+/**
+ * Name of the cookie holding the session id
+ */
+export const SESSION_COOKIE_NAME = 'session';
+
+/**
+ * Key prefix used by the Redis session store
+ */
+export const SESSION_KEY_PREFIX = 'auth:';
+
+/**
+ * Lifetime of a session cookie and its Redis entry
+ */
+export const SESSION_MAX_AGE_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
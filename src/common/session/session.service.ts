@@ -0,0 +1,155 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Request } from 'express';
+import { RedisService } from '../redis/redis.service';
+import { RequestMetadata } from '../utils/request-metadata.util';
+import { SESSION_KEY_PREFIX, SESSION_MAX_AGE_MS } from './session.constants';
+
+export interface ActiveSession {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string | null;
+}
+
+/**
+ * Maintains a per-user index of sessions stored by the Redis session store,
+ * so users can review and revoke their active logins
+ */
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+  private readonly ttlSeconds = Math.ceil(SESSION_MAX_AGE_MS / 1000);
+
+  constructor(private readonly redis: RedisService) {}
+
+  /**
+   * Record a newly authenticated session in the user's index
+   */
+  async track(
+    userId: string,
+    sessionId: string,
+    metadata?: RequestMetadata,
+  ): Promise<void> {
+    const indexKey = this.indexKey(userId);
+    const metaKey = this.metaKey(sessionId);
+
+    await this.redis.sAdd(indexKey, sessionId);
+    await this.redis.expire(indexKey, this.ttlSeconds);
+
+    await this.redis.hSetMultiple(metaKey, {
+      userId,
+      ipAddress: metadata?.ipAddress ?? '',
+      userAgent: metadata?.userAgent ?? '',
+      createdAt: new Date().toISOString(),
+    });
+    await this.redis.expire(metaKey, this.ttlSeconds);
+  }
+
+  /**
+   * Remove a session from the user's index without touching the store
+   */
+  async untrack(userId: string, sessionId: string): Promise<void> {
+    await this.redis.sRem(this.indexKey(userId), sessionId);
+    await this.redis.del(this.metaKey(sessionId));
+  }
+
+  /**
+   * Log out the request's user and destroy its session in the store
+   */
+  async destroyCurrent(req: Request): Promise<void> {
+    const userId = (req.user as { id: string } | undefined)?.id;
+    const sessionId = req.sessionID;
+
+    await new Promise<void>((resolve, reject) =>
+      req.logout((err?: Error) => (err ? reject(err) : resolve())),
+    );
+
+    await new Promise<void>((resolve, reject) =>
+      req.session.destroy((err?: Error) => (err ? reject(err) : resolve())),
+    );
+
+    if (userId) {
+      await this.untrack(userId, sessionId);
+    }
+  }
+
+  /**
+   * List the user's sessions that are still present in the store,
+   * pruning index entries whose session has expired
+   */
+  async list(userId: string): Promise<ActiveSession[]> {
+    const sessionIds = await this.redis.sMembers(this.indexKey(userId));
+    const sessions: ActiveSession[] = [];
+
+    for (const sessionId of sessionIds) {
+      const isAlive = await this.redis.exists(this.storeKey(sessionId));
+      if (!isAlive) {
+        await this.untrack(userId, sessionId);
+        continue;
+      }
+
+      const meta = await this.redis.hGetAll(this.metaKey(sessionId));
+      sessions.push({
+        id: sessionId,
+        ipAddress: meta.ipAddress || null,
+        userAgent: meta.userAgent || null,
+        createdAt: meta.createdAt || null,
+      });
+    }
+
+    return sessions.sort((a, b) =>
+      (b.createdAt ?? '').localeCompare(a.createdAt ?? ''),
+    );
+  }
+
+  /**
+   * Destroy a single session belonging to the user
+   */
+  async revoke(userId: string, sessionId: string): Promise<void> {
+    const isMember = await this.redis.sIsMember(
+      this.indexKey(userId),
+      sessionId,
+    );
+    if (!isMember) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.redis.del(this.storeKey(sessionId));
+    await this.untrack(userId, sessionId);
+  }
+
+  /**
+   * Destroy all sessions of the user, optionally keeping one
+   *
+   * @returns number of revoked sessions
+   */
+  async revokeAll(userId: string, exceptSessionId?: string): Promise<number> {
+    const sessionIds = await this.redis.sMembers(this.indexKey(userId));
+    const toRevoke = sessionIds.filter((id) => id !== exceptSessionId);
+
+    for (const sessionId of toRevoke) {
+      await this.redis.del(this.storeKey(sessionId));
+      await this.untrack(userId, sessionId);
+    }
+
+    if (toRevoke.length > 0) {
+      this.logger.log(
+        `Revoked ${toRevoke.length} session(s) of user ${userId}`,
+      );
+    }
+
+    return toRevoke.length;
+  }
+
+  private indexKey(userId: string): string {
+    return `user-sessions:${userId}`;
+  }
+
+  private metaKey(sessionId: string): string {
+    return `session-meta:${sessionId}`;
+  }
+
+  private storeKey(sessionId: string): string {
+    return `${SESSION_KEY_PREFIX}${sessionId}`;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * All-day view of a VEVENT from an iCalendar (RFC 5545) file
+ */
+export interface ICalendarEvent {
+  uid: string | null;
+  summary: string;
+  /** First day, YYYY-MM-DD */
+  startDate: string;
+  /** Last day (inclusive), YYYY-MM-DD */
+  endDate: string;
+  /** Whether the event has an RRULE, which is not expanded */
+  recurring: boolean;
+}
+
+const PROPERTY_PATTERN = /^([A-Za-z0-9-]+)((?:;[^:]*)?):(.*)$/;
+const DATE_VALUE_PATTERN = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/;
+
+/**
+ * Parse the events of an iCalendar file as whole days, which is what
+ * holiday calendars publish. Timed events are reduced to the day they
+ * start on, events without a DTSTART are skipped.
+ */
+export function parseICalendarEvents(content: string): ICalendarEvent[] {
+  // Long lines are folded onto continuation lines starting with whitespace
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  const events: ICalendarEvent[] = [];
+  let current: Map<string, { params: string; value: string }> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = new Map();
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      const event = current && toEvent(current);
+      if (event) {
+        events.push(event);
+      }
+      current = null;
+      continue;
+    }
+
+    const match = current && PROPERTY_PATTERN.exec(line);
+    if (current && match) {
+      current.set(match[1].toUpperCase(), {
+        params: match[2].toUpperCase(),
+        value: match[3],
+      });
+    }
+  }
+
+  return events;
+}
+
+function toEvent(
+  properties: Map<string, { params: string; value: string }>,
+): ICalendarEvent | null {
+  const start = properties.get('DTSTART');
+  const startDate = start && parseDate(start.value);
+  if (!startDate) {
+    return null;
+  }
+
+  let endDate = startDate.date;
+  const end = properties.get('DTEND');
+  const parsedEnd = end && parseDate(end.value);
+  if (parsedEnd) {
+    // The end of an all-day event is exclusive
+    endDate = parsedEnd.timed ? parsedEnd.date : addDays(parsedEnd.date, -1);
+  }
+  if (endDate < startDate.date) {
+    endDate = startDate.date;
+  }
+
+  return {
+    uid: properties.get('UID')?.value ?? null,
+    summary: unescapeText(properties.get('SUMMARY')?.value ?? '').trim(),
+    startDate: startDate.date,
+    endDate,
+    recurring: properties.has('RRULE'),
+  };
+}
+
+function parseDate(value: string): { date: string; timed: boolean } | null {
+  const match = DATE_VALUE_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  return { date: `${match[1]}-${match[2]}-${match[3]}`, timed: !!match[4] };
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+
+  return result.toISOString().slice(0, 10);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === 'n' ? '\n' : char,
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * Lexicographic ranks for ordering items without renumbering their
+ * neighbours. Ranks use base-36 digits and never end with '0', so there
+ * is always room for another rank between two existing ones.
+ */
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+
+/**
+ * Rank strictly between `before` and `after`.
+ * `null` stands for the start or the end of the list.
+ */
+export function rankBetween(
+  before: string | null,
+  after: string | null,
+): string {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Rank ${before} must be lower than ${after}`);
+  }
+
+  if (after === null) {
+    return before === null ? DIGITS[BASE / 2] : increment(before);
+  }
+  if (before === null) {
+    return decrement(after);
+  }
+
+  return midpoint(before, after);
+}
+
+/**
+ * `count` evenly spread ranks between `before` and `after`, in order
+ */
+export function ranksBetween(
+  before: string | null,
+  after: string | null,
+  count: number,
+): string[] {
+  if (count <= 0) {
+    return [];
+  }
+
+  const middle = rankBetween(before, after);
+  const leftCount = Math.floor((count - 1) / 2);
+
+  return [
+    ...ranksBetween(before, middle, leftCount),
+    middle,
+    ...ranksBetween(middle, after, count - 1 - leftCount),
+  ];
+}
+
+/**
+ * `count` ranks with equal gaps, used to rebalance a list whose ranks
+ * have grown too long
+ */
+export function evenlySpacedRanks(count: number): string[] {
+  let width = 1;
+  while (BASE ** width < (count + 1) * BASE) {
+    width++;
+  }
+  const step = Math.floor(BASE ** width / (count + 1));
+
+  return Array.from({ length: count }, (_, index) =>
+    ((index + 1) * step).toString(BASE).padStart(width, '0').replace(/0+$/, ''),
+  );
+}
+
+/**
+ * Shortest rank after `rank`, so appending keeps ranks short
+ */
+function increment(rank: string): string {
+  const digit = DIGITS.indexOf(rank[0]);
+  if (digit < BASE - 1) {
+    return DIGITS[digit + 1];
+  }
+
+  return (
+    DIGITS[digit] +
+    (rank.length > 1 ? increment(rank.slice(1)) : DIGITS[BASE / 2])
+  );
+}
+
+/**
+ * Shortest rank before `rank`, so prepending keeps ranks short
+ */
+function decrement(rank: string): string {
+  const digit = DIGITS.indexOf(rank[0]);
+  if (digit > 1) {
+    return DIGITS[digit - 1];
+  }
+  if (digit === 1) {
+    return DIGITS[0] + DIGITS[BASE / 2];
+  }
+
+  return DIGITS[0] + decrement(rank.slice(1));
+}
+
+function midpoint(before: string, after: string | null): string {
+  if (after !== null) {
+    // Keep the common prefix and find the midpoint of the remainder
+    let prefix = 0;
+    while ((before[prefix] ?? '0') === after[prefix]) {
+      prefix++;
+    }
+    if (prefix > 0) {
+      return (
+        after.slice(0, prefix) +
+        midpoint(before.slice(prefix), after.slice(prefix))
+      );
+    }
+  }
+
+  const low = before ? DIGITS.indexOf(before[0]) : 0;
+  const high = after !== null ? DIGITS.indexOf(after[0]) : BASE;
+
+  if (high - low > 1) {
+    return DIGITS[Math.round((low + high) / 2)];
+  }
+  if (after !== null && after.length > 1) {
+    return after.slice(0, 1);
+  }
+
+  return DIGITS[low] + midpoint(before.slice(1), null);
+}
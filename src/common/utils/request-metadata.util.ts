@@ -0,0 +1,20 @@
+import { Request } from 'express';
+
+export interface RequestMetadata {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Extract client IP address and user agent from the request.
+ *
+ * The IP comes from `req.ip`, which only honours X-Forwarded-For for the
+ * proxies trusted through the express `trust proxy` setting. Reading the
+ * header directly would let any client pick its own address.
+ */
+export function extractRequestMetadata(req: Request): RequestMetadata {
+  return {
+    ipAddress: req.ip || req.socket?.remoteAddress,
+    userAgent: req.headers['user-agent'],
+  };
+}
@@ -0,0 +1,94 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateTotp,
+  getTotpTimeStep,
+  verifyTotp,
+} from './totp.util';
+
+// Shared secret of the RFC 6238 SHA-1 test vectors, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+describe('totp.util', () => {
+  describe('base32', () => {
+    it.each([
+      ['', ''],
+      ['f', 'MY'],
+      ['fo', 'MZXQ'],
+      ['foo', 'MZXW6'],
+      ['foob', 'MZXW6YQ'],
+      ['fooba', 'MZXW6YTB'],
+      ['foobar', 'MZXW6YTBOI'],
+    ])('encodes %j as the RFC 4648 vector %s', (input, encoded) => {
+      expect(base32Encode(Buffer.from(input))).toBe(encoded);
+      expect(base32Decode(encoded).toString()).toBe(input);
+    });
+
+    it('ignores padding and case when decoding', () => {
+      expect(base32Decode('mzxw6ytb======').toString()).toBe('fooba');
+    });
+
+    it('rejects characters outside the alphabet', () => {
+      expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('encodes the RFC secret', () => {
+      expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    });
+
+    // RFC 6238 appendix B, SHA-1, truncated to the last 6 of 8 digits
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+      [20000000000, '353130'],
+    ])('matches the RFC 6238 vector at %i seconds', (seconds, code) => {
+      expect(generateTotp(RFC_SECRET, getTotpTimeStep(seconds * 1000))).toBe(
+        code,
+      );
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const timestamp = 1111111111 * 1000;
+    const step = getTotpTimeStep(timestamp);
+
+    it('returns the matching time step', () => {
+      expect(verifyTotp(RFC_SECRET, '050471', 1, timestamp)).toBe(step);
+    });
+
+    it('accepts codes one step off within the window', () => {
+      const previous = generateTotp(RFC_SECRET, step - 1);
+      const next = generateTotp(RFC_SECRET, step + 1);
+
+      expect(verifyTotp(RFC_SECRET, previous, 1, timestamp)).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, next, 1, timestamp)).toBe(step + 1);
+    });
+
+    it('rejects codes outside the window', () => {
+      const old = generateTotp(RFC_SECRET, step - 2);
+
+      expect(verifyTotp(RFC_SECRET, old, 1, timestamp)).toBeNull();
+    });
+
+    it.each(['', '12345', '1234567', 'abcdef'])(
+      'rejects the malformed code %j',
+      (code) => {
+        expect(verifyTotp(RFC_SECRET, code, 1, timestamp)).toBeNull();
+      },
+    );
+  });
+
+  describe('buildOtpAuthUri', () => {
+    it('builds an otpauth URI with the TOTP parameters', () => {
+      expect(buildOtpAuthUri('ABC', 'jane@example.com', 'Tasksine')).toBe(
+        'otpauth://totp/Tasksine%3Ajane%40example.com?secret=ABC&issuer=Tasksine&algorithm=SHA1&digits=6&period=30',
+      );
+    });
+  });
+});
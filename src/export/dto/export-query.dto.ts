@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsIn, Matches } from 'class-validator';
+import { DATE_ONLY_PATTERN } from 'src/time/time.constants';
+import { EXPORT_FORMATS, ExportFormat } from '../export.constants';
+
+export class ExportQueryDto {
+  @ApiProperty({ enum: EXPORT_FORMATS, example: 'csv' })
+  @IsIn(EXPORT_FORMATS, {
+    message: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+  })
+  format: ExportFormat;
+}
+
+export class ExportPeriodQueryDto extends ExportQueryDto {
+  @ApiProperty({
+    description: 'First day to export (YYYY-MM-DD)',
+    example: '2026-02-01',
+  })
+  @IsDateString({ strict: true }, { message: 'From must be a valid date' })
+  @Matches(DATE_ONLY_PATTERN, { message: 'From must be a date (YYYY-MM-DD)' })
+  from: string;
+
+  @ApiProperty({
+    description: 'Last day to export (YYYY-MM-DD)',
+    example: '2026-02-28',
+  })
+  @IsDateString({ strict: true }, { message: 'To must be a valid date' })
+  @Matches(DATE_ONLY_PATTERN, { message: 'To must be a date (YYYY-MM-DD)' })
+  to: string;
+}
@@ -0,0 +1,18 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+import { ExportPeriodQueryDto } from './export-query.dto';
+
+export class ExportTimeEntriesQueryDto extends ExportPeriodQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Entries of another workspace member, requires the time:manage permission',
+  })
+  @IsOptional()
+  @IsUUID('4')
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by project' })
+  @IsOptional()
+  @IsUUID('4')
+  projectId?: string;
+}
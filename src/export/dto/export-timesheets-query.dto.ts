@@ -0,0 +1,22 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { TimesheetStatus } from 'generated/prisma/client';
+import { ExportPeriodQueryDto } from './export-query.dto';
+
+/**
+ * Timesheets whose week starts between from and to
+ */
+export class ExportTimesheetsQueryDto extends ExportPeriodQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Only this member. Reviewers with timesheet:approve export every member by default, others only their own.',
+  })
+  @IsOptional()
+  @IsUUID('4')
+  userId?: string;
+
+  @ApiPropertyOptional({ enum: TimesheetStatus })
+  @IsOptional()
+  @IsEnum(TimesheetStatus)
+  status?: TimesheetStatus;
+}
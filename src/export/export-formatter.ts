@@ -0,0 +1,78 @@
+import { DateTime } from 'luxon';
+import { UserPreferences } from 'generated/prisma/client';
+import {
+  DATE_FORMATS,
+  TIME_FORMATS,
+} from 'src/user/user-preferences.constants';
+import { EXPORT_DATE_FORMATS, EXPORT_TIME_FORMATS } from './export.constants';
+
+/**
+ * Formats values the way the requester reads them: their date and time
+ * formats, in their timezone and language
+ */
+export class ExportFormatter {
+  private readonly dateFormat: string;
+  private readonly timeFormat: string;
+
+  constructor(
+    private readonly preferences: Pick<
+      UserPreferences,
+      'dateFormat' | 'timeFormat' | 'timezone' | 'language'
+    >,
+  ) {
+    // Preferences saved before a format was dropped fall back to ISO
+    this.dateFormat =
+      EXPORT_DATE_FORMATS[
+        preferences.dateFormat as (typeof DATE_FORMATS)[number]
+      ] ?? 'yyyy-MM-dd';
+    this.timeFormat =
+      EXPORT_TIME_FORMATS[
+        preferences.timeFormat as (typeof TIME_FORMATS)[number]
+      ] ?? 'HH:mm';
+  }
+
+  /**
+   * A date-only value, or a YYYY-MM-DD string. No timezone applies.
+   */
+  date(value: Date | string): string {
+    const date =
+      typeof value === 'string'
+        ? DateTime.fromISO(value, { zone: 'utc' })
+        : DateTime.fromJSDate(value, { zone: 'utc' });
+
+    return date.setLocale(this.preferences.language).toFormat(this.dateFormat);
+  }
+
+  time(value: Date | null): string {
+    return value ? this.toLocal(value).toFormat(this.timeFormat) : '';
+  }
+
+  dateTime(value: Date | null): string {
+    return value
+      ? this.toLocal(value).toFormat(`${this.dateFormat} ${this.timeFormat}`)
+      : '';
+  }
+
+  /**
+   * Minutes as hours and minutes, e.g. 7:05
+   */
+  duration(minutes: number): string {
+    const sign = minutes < 0 ? '-' : '';
+    const absolute = Math.abs(minutes);
+
+    return `${sign}${Math.floor(absolute / 60)}:${String(absolute % 60).padStart(2, '0')}`;
+  }
+
+  /**
+   * Minutes as decimal hours, as payroll systems expect
+   */
+  hours(minutes: number): number {
+    return Math.round((minutes / 60) * 100) / 100;
+  }
+
+  private toLocal(value: Date): DateTime {
+    return DateTime.fromJSDate(value, {
+      zone: this.preferences.timezone,
+    }).setLocale(this.preferences.language);
+  }
+}
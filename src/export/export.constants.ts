@@ -0,0 +1,42 @@
+import {
+  DATE_FORMATS,
+  TIME_FORMATS,
+} from 'src/user/user-preferences.constants';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'pdf'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+// Rows read from the database at a time while streaming an export
+export const EXPORT_BATCH_SIZE = 500;
+
+// Longest range an export can cover
+export const MAX_EXPORT_DAYS = 366;
+
+// Luxon tokens of the date formats users can pick
+export const EXPORT_DATE_FORMATS: Record<
+  (typeof DATE_FORMATS)[number],
+  string
+> = {
+  'MM/DD/YYYY': 'MM/dd/yyyy',
+  'DD/MM/YYYY': 'dd/MM/yyyy',
+  'YYYY-MM-DD': 'yyyy-MM-dd',
+  'DD.MM.YYYY': 'dd.MM.yyyy',
+  'MMM D, YYYY': 'MMM d, yyyy',
+  'D MMM YYYY': 'd MMM yyyy',
+};
+
+// Luxon tokens of the time formats users can pick
+export const EXPORT_TIME_FORMATS: Record<
+  (typeof TIME_FORMATS)[number],
+  string
+> = {
+  '12h': 'h:mm a',
+  '24h': 'HH:mm',
+};
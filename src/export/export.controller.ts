@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiProduces, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedGuard } from 'src/auth/guards/authenticated.guard';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { AuthorizationGuard } from 'src/authorization/guards/authorization.guard';
+import { Permissions } from 'src/authorization/decorators/permissions.decorator';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { CurrentWorkspace } from 'src/workspace/decorators/current-workspace.decorator';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { WORKSPACE_HEADER } from 'src/workspace/workspace.constants';
+import { ExportService } from './export.service';
+import { ExportQueryDto } from './dto/export-query.dto';
+import { ExportTimeEntriesQueryDto } from './dto/export-time-entries-query.dto';
+import { ExportTimesheetsQueryDto } from './dto/export-timesheets-query.dto';
+import { ExportFile } from './interfaces/export-table.interface';
+import { EXPORT_CONTENT_TYPES } from './export.constants';
+
+@ApiTags('Exports')
+@ApiHeader({ name: WORKSPACE_HEADER, required: true })
+@ApiProduces(...Object.values(EXPORT_CONTENT_TYPES))
+@Controller('exports')
+@UseGuards(AuthenticatedGuard, AuthorizationGuard)
+export class ExportController {
+  constructor(private readonly exportService: ExportService) {}
+
+  @Permissions('report:export')
+  @Get('time-entries')
+  @ApiOperation({ summary: 'Download time entries of a period' })
+  async exportTimeEntries(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Query() query: ExportTimeEntriesQueryDto,
+  ) {
+    const file = await this.exportService.exportTimeEntries(
+      workspace,
+      user.id,
+      query,
+    );
+
+    return this.toStreamableFile(file);
+  }
+
+  @Permissions('report:export')
+  @Get('timesheets')
+  @ApiOperation({
+    summary: 'Download timesheets with a week starting in a period',
+  })
+  async exportTimesheets(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Query() query: ExportTimesheetsQueryDto,
+  ) {
+    const file = await this.exportService.exportTimesheets(
+      workspace,
+      user.id,
+      query,
+    );
+
+    return this.toStreamableFile(file);
+  }
+
+  @Permissions('report:export')
+  @Get('projects/:id/summary')
+  @ApiOperation({ summary: 'Download the time logged on a project, per task' })
+  async exportProjectSummary(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ExportQueryDto,
+  ) {
+    const file = await this.exportService.exportProjectSummary(
+      workspace,
+      user.id,
+      id,
+      query,
+    );
+
+    return this.toStreamableFile(file);
+  }
+
+  private toStreamableFile(file: ExportFile): StreamableFile {
+    return new StreamableFile(file.stream, {
+      type: EXPORT_CONTENT_TYPES[file.format],
+      disposition: `attachment; filename="${file.fileName}"`,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { UserModule } from 'src/user/user.module';
+import { WorkspaceModule } from 'src/workspace/workspace.module';
+import { TimeModule } from 'src/time/time.module';
+import { ExportService } from './export.service';
+import { ExportController } from './export.controller';
+
+@Module({
+  imports: [UserModule, WorkspaceModule, TimeModule],
+  controllers: [ExportController],
+  providers: [ExportService],
+})
+export class ExportModule {}
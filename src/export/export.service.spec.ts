@@ -0,0 +1,321 @@
+import { Workbook } from 'exceljs';
+import { Readable } from 'stream';
+import { inflateSync } from 'zlib';
+import { WorkspaceRole } from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { TimeEntryService } from 'src/time/time-entry.service';
+import { UserPreferencesService } from 'src/user/user-preferences.service';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { ExportFormat } from './export.constants';
+import { ExportService } from './export.service';
+import { ExportFile } from './interfaces/export-table.interface';
+
+const CONTEXT: WorkspaceContext = {
+  id: 'workspace-1',
+  role: WorkspaceRole.OWNER,
+};
+const USER_ID = 'user-1';
+
+const PREFERENCES = {
+  dateFormat: 'DD.MM.YYYY',
+  timeFormat: '24h',
+  timezone: 'Europe/Berlin',
+  language: 'en',
+};
+
+const TASK = {
+  number: 12,
+  title: 'Design review',
+  project: { key: 'WEB', name: 'Website, relaunch' },
+};
+
+const TIME_ENTRIES = [
+  {
+    id: 'entry-1',
+    date: new Date('2026-02-02'),
+    startedAt: new Date('2026-02-02T08:00:00Z'),
+    endedAt: new Date('2026-02-02T12:30:00Z'),
+    durationMinutes: 270,
+    billable: true,
+    notes: 'Went through the "final" mockups',
+    user: { name: 'Jürgen Weiß' },
+    task: TASK,
+  },
+  {
+    id: 'entry-2',
+    date: new Date('2026-02-03'),
+    startedAt: null,
+    endedAt: null,
+    durationMinutes: 45,
+    billable: false,
+    notes: '=HYPERLINK("https://example.com")',
+    user: { name: 'Jürgen Weiß' },
+    task: { ...TASK, number: 13, title: 'Fix login\nredirect' },
+  },
+];
+
+const TIMESHEETS = [
+  {
+    id: 'timesheet-1',
+    weekStart: new Date('2026-02-02'),
+    weekEnd: new Date('2026-02-08'),
+    status: 'APPROVED',
+    workedMinutes: 2490,
+    regularMinutes: 2400,
+    overtimeMinutes: 90,
+    billableMinutes: 1800,
+    submittedAt: new Date('2026-02-06T16:00:00Z'),
+    reviewedAt: new Date('2026-02-09T08:15:00Z'),
+    reviewComment: 'Thanks, approved',
+    user: { name: 'Jürgen Weiß' },
+    reviewedBy: { name: 'Ana Silva' },
+  },
+  {
+    id: 'timesheet-2',
+    weekStart: new Date('2026-02-09'),
+    weekEnd: new Date('2026-02-15'),
+    status: 'SUBMITTED',
+    workedMinutes: 2400,
+    regularMinutes: 2400,
+    overtimeMinutes: 0,
+    billableMinutes: 0,
+    submittedAt: new Date('2026-02-13T17:30:00Z'),
+    reviewedAt: null,
+    reviewComment: null,
+    user: { name: 'Jürgen Weiß' },
+    reviewedBy: null,
+  },
+];
+
+const PROJECT_TOTALS = {
+  project: { id: 'project-1', key: 'WEB', name: 'Website', budgetHours: 120 },
+  tasks: [
+    {
+      key: 'WEB-12',
+      title: 'Design review',
+      totalMinutes: 270,
+      billableMinutes: 270,
+    },
+    {
+      key: 'WEB-13',
+      title: 'Fix login redirect',
+      totalMinutes: 45,
+      billableMinutes: 0,
+    },
+  ],
+  totalMinutes: 315,
+  billableMinutes: 270,
+};
+
+const FORMATS: ExportFormat[] = ['csv', 'xlsx', 'pdf'];
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Cell values of every sheet, leaving out the timestamps of the file
+ */
+async function readXlsx(content: Buffer) {
+  const workbook = new Workbook();
+  await workbook.xlsx.read(Readable.from(content));
+
+  return workbook.worksheets.map((sheet) => {
+    const rows: unknown[][] = [];
+    sheet.eachRow((row) => {
+      rows.push((row.values as unknown[]).slice(1));
+    });
+
+    return {
+      name: sheet.name,
+      views: sheet.views,
+      columnWidths: sheet.columns.map((column) => column.width),
+      rows,
+    };
+  });
+}
+
+// Windows-1252 characters in 0x80-0x9F, the range where it differs from
+// Latin-1, as pdfkit encodes the standard fonts
+const WIN_ANSI_EXTRAS =
+  '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+function decodeWinAnsi(bytes: Buffer): string {
+  return [...bytes]
+    .map((byte) =>
+      byte >= 0x80 && byte <= 0x9f
+        ? WIN_ANSI_EXTRAS[byte - 0x80]
+        : String.fromCharCode(byte),
+    )
+    .join('');
+}
+
+/**
+ * Text drawn on each page with its font, leaving out the creation date
+ * and layout details of the file
+ */
+function readPdf(content: Buffer): string[][] {
+  const pdf = content.toString('latin1');
+  const pages: string[][] = [];
+
+  for (const [, data] of pdf.matchAll(/stream\n([\s\S]*?)\nendstream/g)) {
+    const operations = inflateSync(Buffer.from(data, 'latin1')).toString(
+      'latin1',
+    );
+    if (!operations.includes('BT')) {
+      continue;
+    }
+
+    const lines: string[] = [];
+    let font = '';
+    for (const [, fontName, text] of operations.matchAll(
+      /\/(\w+) [\d.]+ Tf|\[(.*?)\] TJ/g,
+    )) {
+      if (fontName) {
+        font = fontName;
+        continue;
+      }
+      const hex = [...text.matchAll(/<([0-9a-f]*)>/g)]
+        .map(([, part]) => part)
+        .join('');
+      lines.push(`${font}: ${decodeWinAnsi(Buffer.from(hex, 'hex'))}`);
+    }
+    pages.push(lines);
+  }
+
+  return pages;
+}
+
+async function render(file: ExportFile): Promise<unknown> {
+  const content = await readAll(file.stream);
+
+  switch (file.format) {
+    case 'csv':
+      return content.toString('utf8');
+    case 'xlsx':
+      return readXlsx(content);
+    case 'pdf':
+      return readPdf(content);
+  }
+}
+
+describe('ExportService', () => {
+  let service: ExportService;
+  let prisma: {
+    timeEntry: { findMany: jest.Mock };
+    timesheet: { findMany: jest.Mock };
+  };
+
+  beforeEach(() => {
+    prisma = {
+      timeEntry: { findMany: jest.fn().mockResolvedValue(TIME_ENTRIES) },
+      timesheet: { findMany: jest.fn().mockResolvedValue(TIMESHEETS) },
+    };
+    const timeEntryService = {
+      getProjectTotals: jest.fn().mockResolvedValue(PROJECT_TOTALS),
+    };
+    const userPreferencesService = {
+      getPreferences: jest.fn().mockResolvedValue(PREFERENCES),
+    };
+
+    service = new ExportService(
+      prisma as unknown as PrismaService,
+      timeEntryService as unknown as TimeEntryService,
+      userPreferencesService as unknown as UserPreferencesService,
+    );
+  });
+
+  describe.each(FORMATS)('as %s', (format) => {
+    it('exports time entries', async () => {
+      const file = await service.exportTimeEntries(CONTEXT, USER_ID, {
+        format,
+        from: '2026-02-01',
+        to: '2026-02-28',
+      });
+
+      expect(file.fileName).toBe(
+        `time-entries_2026-02-01_2026-02-28.${format}`,
+      );
+      expect(await render(file)).toMatchSnapshot();
+    });
+
+    it('exports timesheets', async () => {
+      const file = await service.exportTimesheets(CONTEXT, USER_ID, {
+        format,
+        from: '2026-02-01',
+        to: '2026-02-28',
+      });
+
+      expect(file.fileName).toBe(`timesheets_2026-02-01_2026-02-28.${format}`);
+      expect(await render(file)).toMatchSnapshot();
+    });
+
+    it('exports a project summary', async () => {
+      const file = await service.exportProjectSummary(
+        CONTEXT,
+        USER_ID,
+        'project-1',
+        { format },
+      );
+
+      expect(file.fileName).toBe(`project-WEB-summary.${format}`);
+      expect(await render(file)).toMatchSnapshot();
+    });
+  });
+
+  it('repeats the header row on every PDF page', async () => {
+    prisma.timeEntry.findMany.mockResolvedValue(
+      Array.from({ length: 60 }, (_, index) => ({
+        ...TIME_ENTRIES[0],
+        id: `entry-${index}`,
+      })),
+    );
+
+    const file = await service.exportTimeEntries(CONTEXT, USER_ID, {
+      format: 'pdf',
+      from: '2026-02-01',
+      to: '2026-02-28',
+    });
+    const pages = readPdf(await readAll(file.stream));
+
+    expect(pages.length).toBeGreaterThan(1);
+    for (const page of pages.slice(1)) {
+      expect(page.slice(0, 3)).toEqual([
+        'F2: Date',
+        'F2: Member',
+        'F2: Project',
+      ]);
+    }
+    expect(
+      pages.flat().filter((line) => line === 'F1: Design review'),
+    ).toHaveLength(60);
+  });
+
+  it('reads time entries in batches until a batch comes back short', async () => {
+    const full = Array.from({ length: 500 }, (_, index) => ({
+      ...TIME_ENTRIES[0],
+      id: `entry-${index}`,
+    }));
+    prisma.timeEntry.findMany
+      .mockResolvedValueOnce(full)
+      .mockResolvedValueOnce(TIME_ENTRIES);
+
+    const file = await service.exportTimeEntries(CONTEXT, USER_ID, {
+      format: 'csv',
+      from: '2026-02-01',
+      to: '2026-02-28',
+    });
+    const lines = (await readAll(file.stream)).toString('utf8').split('\r\n');
+
+    // Header, 502 rows and the empty string after the last line break
+    expect(lines).toHaveLength(504);
+    expect(prisma.timeEntry.findMany).toHaveBeenCalledTimes(2);
+    expect(prisma.timeEntry.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ cursor: { id: 'entry-499' }, skip: 1 }),
+    );
+  });
+});
@@ -0,0 +1,342 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { PassThrough, Writable } from 'stream';
+import { Prisma } from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { hasPermission } from 'src/authorization/permissions';
+import { TimeEntryService } from 'src/time/time-entry.service';
+import { UserPreferencesService } from 'src/user/user-preferences.service';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { ExportFormatter } from './export-formatter';
+import {
+  ExportCell,
+  ExportFile,
+  ExportTable,
+} from './interfaces/export-table.interface';
+import { ExportPeriodQueryDto, ExportQueryDto } from './dto/export-query.dto';
+import { ExportTimeEntriesQueryDto } from './dto/export-time-entries-query.dto';
+import { ExportTimesheetsQueryDto } from './dto/export-timesheets-query.dto';
+import {
+  EXPORT_BATCH_SIZE,
+  ExportFormat,
+  MAX_EXPORT_DAYS,
+} from './export.constants';
+import { writeCsv } from './writers/csv.writer';
+import { writeXlsx } from './writers/xlsx.writer';
+import { writePdf } from './writers/pdf.writer';
+
+const EXPORT_WRITERS: Record<
+  ExportFormat,
+  (table: ExportTable, output: Writable) => Promise<void>
+> = {
+  csv: writeCsv,
+  xlsx: writeXlsx,
+  pdf: writePdf,
+};
+
+const TIME_ENTRY_EXPORT_INCLUDE = {
+  user: { select: { name: true } },
+  task: {
+    select: {
+      number: true,
+      title: true,
+      project: { select: { key: true, name: true } },
+    },
+  },
+} satisfies Prisma.TimeEntryInclude;
+
+const TIMESHEET_EXPORT_INCLUDE = {
+  user: { select: { name: true } },
+  reviewedBy: { select: { name: true } },
+} satisfies Prisma.TimesheetInclude;
+
+/**
+ * Time entries, timesheets and project summaries as CSV, XLSX or PDF
+ * files, formatted with the requester's date, time and timezone
+ * preferences.
+ *
+ * Access is checked before the file is returned. Rows are then read in
+ * batches while the file streams, so a failure halfway aborts the
+ * download instead of sending an error response.
+ */
+@Injectable()
+export class ExportService {
+  private readonly logger = new Logger(ExportService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly timeEntryService: TimeEntryService,
+    private readonly userPreferencesService: UserPreferencesService,
+  ) {}
+
+  /**
+   * Time entries of the user, or of another member with time:manage
+   */
+  async exportTimeEntries(
+    context: WorkspaceContext,
+    userId: string,
+    query: ExportTimeEntriesQueryDto,
+  ): Promise<ExportFile> {
+    const targetUserId = query.userId ?? userId;
+    if (
+      targetUserId !== userId &&
+      !hasPermission(context.role, 'time:manage')
+    ) {
+      throw new ForbiddenException(
+        'You do not have permission to perform this action',
+      );
+    }
+    this.assertPeriod(query);
+
+    const format = await this.getFormatter(userId);
+    const where: Prisma.TimeEntryWhereInput = {
+      workspaceId: context.id,
+      userId: targetUserId,
+      ...(query.projectId && { task: { projectId: query.projectId } }),
+      date: { gte: new Date(query.from), lte: new Date(query.to) },
+    };
+
+    const rows = this.mapRows(
+      this.readBatches((cursor) =>
+        this.prisma.timeEntry.findMany({
+          where,
+          include: TIME_ENTRY_EXPORT_INCLUDE,
+          orderBy: [{ date: 'asc' }, { startedAt: 'asc' }, { id: 'asc' }],
+          take: EXPORT_BATCH_SIZE,
+          ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        }),
+      ),
+      (entry): ExportCell[] => [
+        format.date(entry.date),
+        entry.user.name,
+        entry.task.project.name,
+        `${entry.task.project.key}-${entry.task.number}`,
+        entry.task.title,
+        format.time(entry.startedAt),
+        format.time(entry.endedAt),
+        format.duration(entry.durationMinutes),
+        format.hours(entry.durationMinutes),
+        entry.billable ? 'Yes' : 'No',
+        entry.notes,
+      ],
+    );
+
+    return this.toFile(`time-entries_${query.from}_${query.to}`, query, {
+      title: 'Time entries',
+      subtitle: `${format.date(query.from)} – ${format.date(query.to)}`,
+      columns: [
+        { header: 'Date', width: 12 },
+        { header: 'Member', width: 18 },
+        { header: 'Project', width: 18 },
+        { header: 'Task', width: 10 },
+        { header: 'Title', width: 30 },
+        { header: 'Start', width: 9 },
+        { header: 'End', width: 9 },
+        { header: 'Duration', width: 9, align: 'right' },
+        { header: 'Hours', width: 8, align: 'right' },
+        { header: 'Billable', width: 8 },
+        { header: 'Notes', width: 30 },
+      ],
+      rows,
+    });
+  }
+
+  /**
+   * Timesheets with a week starting in the period. Reviewers export every
+   * member's, others only their own.
+   */
+  async exportTimesheets(
+    context: WorkspaceContext,
+    userId: string,
+    query: ExportTimesheetsQueryDto,
+  ): Promise<ExportFile> {
+    const canReview = hasPermission(context.role, 'timesheet:approve');
+    if (query.userId && query.userId !== userId && !canReview) {
+      throw new ForbiddenException(
+        'You do not have permission to perform this action',
+      );
+    }
+    this.assertPeriod(query);
+
+    const format = await this.getFormatter(userId);
+    const where: Prisma.TimesheetWhereInput = {
+      workspaceId: context.id,
+      userId: query.userId ?? (canReview ? undefined : userId),
+      status: query.status,
+      weekStart: { gte: new Date(query.from), lte: new Date(query.to) },
+    };
+
+    const rows = this.mapRows(
+      this.readBatches((cursor) =>
+        this.prisma.timesheet.findMany({
+          where,
+          include: TIMESHEET_EXPORT_INCLUDE,
+          orderBy: [{ weekStart: 'asc' }, { userId: 'asc' }, { id: 'asc' }],
+          take: EXPORT_BATCH_SIZE,
+          ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        }),
+      ),
+      (timesheet): ExportCell[] => [
+        timesheet.user.name,
+        format.date(timesheet.weekStart),
+        format.date(timesheet.weekEnd),
+        timesheet.status,
+        format.hours(timesheet.workedMinutes),
+        format.hours(timesheet.regularMinutes),
+        format.hours(timesheet.overtimeMinutes),
+        format.hours(timesheet.billableMinutes),
+        format.dateTime(timesheet.submittedAt),
+        timesheet.reviewedBy?.name ?? '',
+        format.dateTime(timesheet.reviewedAt),
+        timesheet.reviewComment,
+      ],
+    );
+
+    return this.toFile(`timesheets_${query.from}_${query.to}`, query, {
+      title: 'Timesheets',
+      subtitle: `Weeks starting ${format.date(query.from)} – ${format.date(query.to)}`,
+      columns: [
+        { header: 'Member', width: 18 },
+        { header: 'Week start', width: 12 },
+        { header: 'Week end', width: 12 },
+        { header: 'Status', width: 14 },
+        { header: 'Worked hours', width: 11, align: 'right' },
+        { header: 'Regular hours', width: 11, align: 'right' },
+        { header: 'Overtime hours', width: 11, align: 'right' },
+        { header: 'Billable hours', width: 11, align: 'right' },
+        { header: 'Submitted', width: 18 },
+        { header: 'Reviewed by', width: 18 },
+        { header: 'Reviewed', width: 18 },
+        { header: 'Comment', width: 30 },
+      ],
+      rows,
+    });
+  }
+
+  /**
+   * Time logged on a project, per task. Bounded by the number of tasks,
+   * so it is read at once.
+   */
+  async exportProjectSummary(
+    context: WorkspaceContext,
+    userId: string,
+    projectId: string,
+    query: ExportQueryDto,
+  ): Promise<ExportFile> {
+    const [totals, format] = await Promise.all([
+      this.timeEntryService.getProjectTotals(context, userId, projectId),
+      this.getFormatter(userId),
+    ]);
+
+    const rows: ExportCell[][] = totals.tasks.map((task) => [
+      task.key,
+      task.title,
+      format.duration(task.totalMinutes),
+      format.hours(task.totalMinutes),
+      format.hours(task.billableMinutes),
+      format.hours(task.totalMinutes - task.billableMinutes),
+    ]);
+    rows.push([
+      'Total',
+      '',
+      format.duration(totals.totalMinutes),
+      format.hours(totals.totalMinutes),
+      format.hours(totals.billableMinutes),
+      format.hours(totals.totalMinutes - totals.billableMinutes),
+    ]);
+
+    const { project } = totals;
+    return this.toFile(`project-${project.key}-summary`, query, {
+      title: `${project.name} (${project.key})`,
+      subtitle:
+        project.budgetHours === null
+          ? undefined
+          : `Budget: ${project.budgetHours} hours`,
+      columns: [
+        { header: 'Task', width: 10 },
+        { header: 'Title', width: 40 },
+        { header: 'Duration', width: 10, align: 'right' },
+        { header: 'Hours', width: 9, align: 'right' },
+        { header: 'Billable hours', width: 9, align: 'right' },
+        { header: 'Non-billable hours', width: 9, align: 'right' },
+      ],
+      rows,
+    });
+  }
+
+  /**
+   * Start writing the table into a stream. Writing only progresses as
+   * fast as the client reads.
+   */
+  private toFile(
+    name: string,
+    query: ExportQueryDto,
+    table: ExportTable,
+  ): ExportFile {
+    const stream = new PassThrough();
+
+    EXPORT_WRITERS[query.format](table, stream).catch((error: Error) => {
+      this.logger.error(`Failed to export ${name}`, error.stack);
+      stream.destroy(error);
+    });
+
+    return {
+      fileName: `${name}.${query.format}`,
+      format: query.format,
+      stream,
+    };
+  }
+
+  /**
+   * Read rows in batches by cursor, yielding them one at a time
+   */
+  private async *readBatches<T extends { id: string }>(
+    read: (cursor: string | undefined) => Promise<T[]>,
+  ): AsyncGenerator<T> {
+    let cursor: string | undefined;
+
+    do {
+      const batch = await read(cursor);
+      yield* batch;
+      cursor =
+        batch.length === EXPORT_BATCH_SIZE
+          ? batch[batch.length - 1].id
+          : undefined;
+    } while (cursor);
+  }
+
+  private async *mapRows<T>(
+    records: AsyncIterable<T>,
+    toRow: (record: T) => ExportCell[],
+  ): AsyncGenerator<ExportCell[]> {
+    for await (const record of records) {
+      yield toRow(record);
+    }
+  }
+
+  private async getFormatter(userId: string): Promise<ExportFormatter> {
+    const preferences =
+      await this.userPreferencesService.getPreferences(userId);
+
+    return new ExportFormatter(preferences);
+  }
+
+  private assertPeriod(query: ExportPeriodQueryDto): void {
+    const days =
+      (new Date(query.to).getTime() - new Date(query.from).getTime()) /
+        (24 * 60 * 60 * 1000) +
+      1;
+    if (days < 1) {
+      throw new BadRequestException('From must not be after to');
+    }
+    if (days > MAX_EXPORT_DAYS) {
+      throw new BadRequestException(
+        `An export can cover at most ${MAX_EXPORT_DAYS} days`,
+      );
+    }
+  }
+}
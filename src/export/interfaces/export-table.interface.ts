@@ -0,0 +1,30 @@
+import { Readable } from 'stream';
+import { ExportFormat } from '../export.constants';
+
+export interface ExportColumn {
+  header: string;
+  /** Width in characters, also used to share the page width in PDFs */
+  width: number;
+  align?: 'left' | 'right';
+}
+
+/** A cell, already formatted for the requester */
+export type ExportCell = string | number | null;
+
+/**
+ * Tabular export. Rows are pulled one at a time, so writers never hold
+ * more than a batch in memory.
+ */
+export interface ExportTable {
+  title: string;
+  /** Line below the title, e.g. the period covered */
+  subtitle?: string;
+  columns: ExportColumn[];
+  rows: AsyncIterable<ExportCell[]> | Iterable<ExportCell[]>;
+}
+
+export interface ExportFile {
+  fileName: string;
+  format: ExportFormat;
+  stream: Readable;
+}
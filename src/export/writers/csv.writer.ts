@@ -0,0 +1,44 @@
+import { Writable } from 'stream';
+import { ExportCell, ExportTable } from '../interfaces/export-table.interface';
+import { waitForDrain } from './wait-for-drain';
+
+// Cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * RFC 4180 CSV with a byte order mark, so spreadsheet apps pick UTF-8
+ */
+export async function writeCsv(
+  table: ExportTable,
+  output: Writable,
+): Promise<void> {
+  output.write('\uFEFF');
+  output.write(toLine(table.columns.map((column) => column.header)));
+
+  for await (const row of table.rows) {
+    if (!(await waitForDrain(output))) {
+      // Leaving the loop also stops reading further rows
+      return;
+    }
+    output.write(toLine(row));
+  }
+
+  output.end();
+}
+
+function toLine(cells: ExportCell[]): string {
+  return `${cells.map(toField).join(',')}\r\n`;
+}
+
+function toField(cell: ExportCell): string {
+  if (cell === null) {
+    return '';
+  }
+  if (typeof cell === 'number') {
+    return String(cell);
+  }
+
+  const value = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,134 @@
+import * as PDFDocument from 'pdfkit';
+import { Writable } from 'stream';
+import {
+  ExportCell,
+  ExportColumn,
+  ExportTable,
+} from '../interfaces/export-table.interface';
+import { waitForDrain } from './wait-for-drain';
+
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const CELL_PADDING = 3;
+
+/**
+ * Landscape A4 table. Rows are drawn as they arrive, and the header row
+ * is repeated on every page.
+ */
+export async function writePdf(
+  table: ExportTable,
+  output: Writable,
+): Promise<void> {
+  const doc = new PDFDocument({
+    size: 'A4',
+    layout: 'landscape',
+    margin: MARGIN,
+    info: { Title: table.title },
+  });
+  doc.pipe(output);
+
+  doc.font('Helvetica-Bold').fontSize(14).text(table.title);
+  if (table.subtitle) {
+    doc.font('Helvetica').fontSize(10).text(table.subtitle);
+  }
+  doc.moveDown();
+
+  const widths = getColumnWidths(table.columns, doc.page.width - 2 * MARGIN);
+  const bottom = doc.page.height - MARGIN;
+
+  drawRow(
+    doc,
+    table.columns,
+    widths,
+    table.columns.map((column) => column.header),
+    true,
+  );
+
+  for await (const row of table.rows) {
+    if (!(await waitForDrain(output))) {
+      return;
+    }
+
+    doc.font('Helvetica').fontSize(FONT_SIZE);
+    if (doc.y + getRowHeight(doc, widths, row) > bottom) {
+      doc.addPage();
+      drawRow(
+        doc,
+        table.columns,
+        widths,
+        table.columns.map((column) => column.header),
+        true,
+      );
+    }
+    drawRow(doc, table.columns, widths, row, false);
+  }
+
+  doc.end();
+  if (output.destroyed) {
+    return;
+  }
+  // Settles on close too, as an aborted download never finishes
+  await new Promise<void>((resolve, reject) => {
+    output.once('finish', resolve);
+    output.once('close', resolve);
+    output.once('error', reject);
+  });
+}
+
+/**
+ * Share the page width between the columns by their character widths
+ */
+function getColumnWidths(columns: ExportColumn[], pageWidth: number) {
+  const total = columns.reduce((sum, column) => sum + column.width, 0);
+
+  return columns.map((column) => (column.width / total) * pageWidth);
+}
+
+function getRowHeight(
+  doc: PDFKit.PDFDocument,
+  widths: number[],
+  cells: ExportCell[],
+): number {
+  const heights = cells.map((cell, index) =>
+    doc.heightOfString(toText(cell), {
+      width: widths[index] - 2 * CELL_PADDING,
+    }),
+  );
+
+  return Math.max(FONT_SIZE, ...heights) + 2 * CELL_PADDING;
+}
+
+function drawRow(
+  doc: PDFKit.PDFDocument,
+  columns: ExportColumn[],
+  widths: number[],
+  cells: ExportCell[],
+  header: boolean,
+): void {
+  doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(FONT_SIZE);
+
+  const top = doc.y;
+  const height = getRowHeight(doc, widths, cells);
+  let x = MARGIN;
+
+  cells.forEach((cell, index) => {
+    doc.text(toText(cell), x + CELL_PADDING, top + CELL_PADDING, {
+      width: widths[index] - 2 * CELL_PADDING,
+      align: columns[index].align ?? 'left',
+    });
+    x += widths[index];
+  });
+
+  doc
+    .moveTo(MARGIN, top + height)
+    .lineTo(x, top + height)
+    .lineWidth(header ? 1 : 0.25)
+    .stroke('#999999');
+
+  doc.x = MARGIN;
+  doc.y = top + height;
+}
+
+function toText(cell: ExportCell): string {
+  return cell === null ? '' : String(cell);
+}
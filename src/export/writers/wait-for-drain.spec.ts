@@ -0,0 +1,91 @@
+import { PassThrough, Writable } from 'stream';
+import { ExportTable } from '../interfaces/export-table.interface';
+import { writeCsv } from './csv.writer';
+import { writePdf } from './pdf.writer';
+import { waitForDrain } from './wait-for-drain';
+import { writeXlsx } from './xlsx.writer';
+
+/**
+ * Output that never gets read, like a client that stopped reading
+ */
+function stalledOutput(): PassThrough {
+  return new PassThrough({ highWaterMark: 16 });
+}
+
+describe('waitForDrain', () => {
+  it('resolves at once while the output takes more', async () => {
+    await expect(waitForDrain(new PassThrough())).resolves.toBe(true);
+  });
+
+  it('waits for the output to drain', async () => {
+    const output = stalledOutput();
+    output.write('x'.repeat(64));
+
+    const drained = waitForDrain(output);
+    output.resume();
+
+    await expect(drained).resolves.toBe(true);
+  });
+
+  it('settles with false when the output is destroyed while waiting', async () => {
+    const output = stalledOutput();
+    output.write('x'.repeat(64));
+
+    const drained = waitForDrain(output);
+    output.destroy();
+
+    await expect(drained).resolves.toBe(false);
+  });
+
+  it('settles with false when the output fails while waiting', async () => {
+    const output = stalledOutput();
+    output.on('error', () => undefined);
+    output.write('x'.repeat(64));
+
+    const drained = waitForDrain(output);
+    output.destroy(new Error('Connection reset'));
+
+    await expect(drained).resolves.toBe(false);
+  });
+});
+
+describe.each([
+  ['csv', writeCsv],
+  ['xlsx', writeXlsx],
+  ['pdf', writePdf],
+])('%s writer on an aborted download', (_format, write) => {
+  it('stops reading rows once the output is destroyed', async () => {
+    let produced = 0;
+    let finalized = false;
+    const output: Writable = stalledOutput();
+
+    async function* rows() {
+      try {
+        for (let index = 0; index < 100_000; index++) {
+          // Like reading from the database, give the event loop a turn
+          await new Promise((resolve) => setImmediate(resolve));
+          produced++;
+          yield [`Row ${index}`, 'x'.repeat(200)];
+        }
+      } finally {
+        finalized = true;
+      }
+    }
+
+    const table: ExportTable = {
+      title: 'Aborted',
+      columns: [
+        { header: 'Name', width: 10 },
+        { header: 'Value', width: 30 },
+      ],
+      rows: rows(),
+    };
+
+    const written = write(table, output);
+    setTimeout(() => output.destroy(), 20);
+
+    await expect(written).resolves.toBeUndefined();
+    expect(finalized).toBe(true);
+    expect(produced).toBeLessThan(100_000);
+  });
+});
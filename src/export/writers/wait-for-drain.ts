@@ -0,0 +1,27 @@
+import { Writable } from 'stream';
+
+/**
+ * Wait until the output drains before producing more, so a slow client
+ * never makes the export buffer in memory. Also settles when the output
+ * closes or fails, which it does when the client aborts the download.
+ *
+ * @returns false once the output can no longer be written to
+ */
+export async function waitForDrain(output: Writable): Promise<boolean> {
+  if (!output.destroyed && output.writableNeedDrain) {
+    await new Promise<void>((resolve) => {
+      const settle = () => {
+        output.off('drain', settle);
+        output.off('close', settle);
+        output.off('error', settle);
+        resolve();
+      };
+
+      output.on('drain', settle);
+      output.on('close', settle);
+      output.on('error', settle);
+    });
+  }
+
+  return !output.destroyed;
+}
@@ -0,0 +1,44 @@
+import { stream } from 'exceljs';
+import { Writable } from 'stream';
+import { ExportTable } from '../interfaces/export-table.interface';
+import { waitForDrain } from './wait-for-drain';
+
+// Characters Excel does not allow in sheet names
+const INVALID_SHEET_NAME = /[[\]:*?/\\]/g;
+
+/**
+ * Single sheet workbook, written row by row. Committed rows are flushed
+ * to the output and released.
+ */
+export async function writeXlsx(
+  table: ExportTable,
+  output: Writable,
+): Promise<void> {
+  const workbook = new stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+    useSharedStrings: false,
+  });
+  const sheet = workbook.addWorksheet(
+    table.title.replace(INVALID_SHEET_NAME, ' ').slice(0, 31),
+    { views: [{ state: 'frozen', ySplit: 1 }] },
+  );
+
+  sheet.columns = table.columns.map((column) => ({
+    header: column.header,
+    width: column.width,
+    style: { alignment: { horizontal: column.align ?? 'left' } },
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.getRow(1).commit();
+
+  for await (const row of table.rows) {
+    if (!(await waitForDrain(output))) {
+      return;
+    }
+    sheet.addRow(row).commit();
+  }
+
+  sheet.commit();
+  await workbook.commit();
+}
@@ -1,5 +1,6 @@
 import { ValidationPipe, VersioningType } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import * as session from 'express-session';
 import * as passport from 'passport';
@@ -8,9 +9,22 @@ import { createClient } from 'redis';
 import { RedisStore } from 'connect-redis';
 import { ResponseInterceptor } from './common/interceptors/response.interceptor';
 import { HttpExceptionFilter } from './common/filters/http-exception.filter';
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_KEY_PREFIX,
+  SESSION_MAX_AGE_MS,
+} from './common/session/session.constants';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Proxies allowed to set X-Forwarded-For: a hop count or a list of
+  // addresses and subnets. Only local proxies are trusted by default.
+  const trustProxy = process.env.TRUST_PROXY || 'loopback';
+  app.set(
+    'trust proxy',
+    /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy,
+  );
 
   // Enable global validation pipe
   app.useGlobalPipes(
@@ -46,7 +60,10 @@ async function bootstrap() {
   // Configure session middleware with Redis store
   app.use(
     session({
-      store: new RedisStore({ client: redisClient, prefix: 'auth:' }),
+      store: new RedisStore({
+        client: redisClient,
+        prefix: SESSION_KEY_PREFIX,
+      }),
       secret:
         process.env.SESSION_SECRET || 'your-secret-key-change-in-production',
       resave: false,
@@ -54,10 +71,10 @@ async function bootstrap() {
       cookie: {
         secure: process.env.NODE_ENV === 'production', // Only send over HTTPS in production
         httpOnly: true,
-        maxAge: 1000 * 60 * 60 * 24 * 7, // 7 days
+        maxAge: SESSION_MAX_AGE_MS,
         sameSite: 'lax',
       },
-      name: 'session',
+      name: SESSION_COOKIE_NAME,
     }),
   );
 
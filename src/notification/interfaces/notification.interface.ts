@@ -0,0 +1,12 @@
+export type NotificationChannel = 'email' | 'sms' | 'push';
+
+/**
+ * Notification waiting in the queue to be delivered
+ */
+export interface QueuedNotification {
+  type: string;
+  userId: string;
+  channels: NotificationChannel[];
+  data: Record<string, unknown>;
+  queuedAt: string;
+}
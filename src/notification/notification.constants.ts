@@ -0,0 +1,2 @@
+// Redis list the notification workers consume from
+export const NOTIFICATION_QUEUE_KEY = 'notifications:queue';
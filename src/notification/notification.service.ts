@@ -0,0 +1,80 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { UserPreferences } from 'generated/prisma/client';
+import { RedisService } from 'src/common/redis/redis.service';
+import { ClockService } from 'src/common/clock/clock.service';
+import {
+  NotificationChannel,
+  QueuedNotification,
+} from './interfaces/notification.interface';
+import { NOTIFICATION_QUEUE_KEY } from './notification.constants';
+
+/**
+ * Queues notifications in Redis for delivery by the notification workers
+ */
+@Injectable()
+export class NotificationService {
+  private readonly logger = new Logger(NotificationService.name);
+
+  constructor(
+    private readonly redis: RedisService,
+    private readonly clock: ClockService,
+  ) {}
+
+  /**
+   * Queue a notification on the channels the user has enabled
+   *
+   * @returns false when the user has no channel enabled or Redis is down
+   */
+  async enqueue(
+    type: string,
+    preferences: Pick<
+      UserPreferences,
+      'userId' | 'emailNotifications' | 'smsNotifications' | 'pushNotifications'
+    >,
+    data: Record<string, unknown>,
+  ): Promise<boolean> {
+    const channels = this.getChannels(preferences);
+    if (channels.length === 0) {
+      return false;
+    }
+
+    const notification: QueuedNotification = {
+      type,
+      userId: preferences.userId,
+      channels,
+      data,
+      queuedAt: this.clock.now().toISOString(),
+    };
+
+    const length = await this.redis.rPush(
+      NOTIFICATION_QUEUE_KEY,
+      JSON.stringify(notification),
+    );
+    if (length === null) {
+      this.logger.warn(`Failed to queue ${type} notification`);
+      return false;
+    }
+
+    return true;
+  }
+
+  private getChannels(
+    preferences: Pick<
+      UserPreferences,
+      'emailNotifications' | 'smsNotifications' | 'pushNotifications'
+    >,
+  ): NotificationChannel[] {
+    const channels: NotificationChannel[] = [];
+    if (preferences.emailNotifications) {
+      channels.push('email');
+    }
+    if (preferences.smsNotifications) {
+      channels.push('sms');
+    }
+    if (preferences.pushNotifications) {
+      channels.push('push');
+    }
+
+    return channels;
+  }
+}
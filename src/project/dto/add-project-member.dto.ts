@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+
+export class AddProjectMemberDto {
+  @ApiProperty({
+    description: 'User id of a workspace member',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID('4', { message: 'User id must be a valid UUID' })
+  userId: string;
+}
@@ -0,0 +1,112 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+import { ProjectStatus } from 'generated/prisma/client';
+import {
+  EDITABLE_PROJECT_STATUSES,
+  HEX_COLOR_PATTERN,
+  PROJECT_KEY_PATTERN,
+} from '../project.constants';
+
+export class CreateProjectDto {
+  @ApiProperty({
+    description: 'Project name',
+    example: 'Website Redesign',
+    minLength: 2,
+    maxLength: 100,
+  })
+  @IsString()
+  @MinLength(2, { message: 'Name must be at least 2 characters long' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Unique key used as the prefix of task keys',
+    example: 'WEB',
+    pattern: PROJECT_KEY_PATTERN.source,
+  })
+  @IsString()
+  @Matches(PROJECT_KEY_PATTERN, {
+    message:
+      'Key must be 2-10 uppercase letters or digits, starting with a letter',
+  })
+  key: string;
+
+  @ApiPropertyOptional({
+    description: 'Project description',
+    maxLength: 2000,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @MaxLength(2000, { message: 'Description must not exceed 2000 characters' })
+  description?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Hex color used to display the project',
+    example: '#6366F1',
+  })
+  @IsOptional()
+  @Matches(HEX_COLOR_PATTERN, {
+    message: 'Color must be a hex color such as #6366F1',
+  })
+  color?: string;
+
+  @ApiPropertyOptional({
+    enum: EDITABLE_PROJECT_STATUSES,
+    default: ProjectStatus.ACTIVE,
+  })
+  @IsOptional()
+  @IsIn(EDITABLE_PROJECT_STATUSES, {
+    message: `Status must be one of: ${EDITABLE_PROJECT_STATUSES.join(', ')}`,
+  })
+  status?: (typeof EDITABLE_PROJECT_STATUSES)[number];
+
+  @ApiPropertyOptional({
+    description: 'Start date (YYYY-MM-DD)',
+    example: '2026-01-05',
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsDateString(
+    { strict: true },
+    { message: 'Start date must be a valid date' },
+  )
+  startDate?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Due date (YYYY-MM-DD)',
+    example: '2026-03-31',
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsDateString({ strict: true }, { message: 'Due date must be a valid date' })
+  dueDate?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Budgeted hours for the project',
+    example: 120,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(1000000)
+  budgetHours?: number | null;
+}
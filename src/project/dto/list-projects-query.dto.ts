@@ -0,0 +1,20 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ProjectStatus } from 'generated/prisma/client';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+
+export class ListProjectsQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: ProjectStatus })
+  @IsOptional()
+  @IsEnum(ProjectStatus)
+  status?: ProjectStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by project name or key',
+    example: 'web',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+}
@@ -0,0 +1,84 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { WorkflowStateCategory } from 'generated/prisma/client';
+import { HEX_COLOR_PATTERN } from '../project.constants';
+
+export class WorkflowStateDto {
+  @ApiProperty({
+    description: 'State name, unique within the workflow',
+    example: 'In Progress',
+  })
+  @IsString()
+  @MinLength(1, { message: 'State name must not be empty' })
+  @MaxLength(50, { message: 'State name must not exceed 50 characters' })
+  name: string;
+
+  @ApiProperty({ enum: WorkflowStateCategory })
+  @IsEnum(WorkflowStateCategory)
+  category: WorkflowStateCategory;
+
+  @ApiPropertyOptional({ example: '#3B82F6' })
+  @IsOptional()
+  @Matches(HEX_COLOR_PATTERN, {
+    message: 'Color must be a hex color such as #3B82F6',
+  })
+  color?: string;
+}
+
+export class WorkflowTransitionDto {
+  @ApiProperty({ description: 'Name of the source state', example: 'To Do' })
+  @IsString()
+  from: string;
+
+  @ApiProperty({
+    description: 'Name of the target state',
+    example: 'In Progress',
+  })
+  @IsString()
+  to: string;
+}
+
+export class UpdateWorkflowDto {
+  @ApiProperty({
+    description: 'States in board order. States are matched by name.',
+    type: [WorkflowStateDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'A workflow needs at least one state' })
+  @ArrayMaxSize(30)
+  @ValidateNested({ each: true })
+  @Type(() => WorkflowStateDto)
+  states: WorkflowStateDto[];
+
+  @ApiProperty({
+    description: 'Allowed state changes',
+    type: [WorkflowTransitionDto],
+  })
+  @IsArray()
+  @ArrayMaxSize(900)
+  @ValidateNested({ each: true })
+  @Type(() => WorkflowTransitionDto)
+  transitions: WorkflowTransitionDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Maps removed state names to new state names. Required for every removed state that still has tasks.',
+    example: { 'In Review': 'In Progress' },
+  })
+  @IsOptional()
+  @IsObject()
+  stateMapping?: Record<string, string>;
+}
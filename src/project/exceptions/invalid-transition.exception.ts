@@ -0,0 +1,17 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Thrown when a task status change is not allowed by the project workflow
+ */
+export class InvalidTransitionException extends HttpException {
+  constructor(from: string, to: string, allowed: string[]) {
+    super(
+      {
+        message: `Tasks cannot move from "${from}" to "${to}" in this workflow`,
+        errorCode: 'INVALID_TRANSITION',
+        details: { from, to, allowed },
+      },
+      HttpStatus.UNPROCESSABLE_ENTITY,
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Thrown when a change is attempted on an archived, read-only project
+ */
+export class ProjectArchivedException extends HttpException {
+  constructor(public readonly projectId: string) {
+    super(
+      {
+        message: 'Archived projects are read-only. Unarchive it first.',
+        errorCode: 'PROJECT_ARCHIVED',
+        details: { projectId },
+      },
+      HttpStatus.CONFLICT,
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { ProjectStatus, WorkflowStateCategory } from 'generated/prisma/client';
+
+// Statuses that can be set directly, archiving has dedicated endpoints
+export const EDITABLE_PROJECT_STATUSES = [
+  ProjectStatus.ACTIVE,
+  ProjectStatus.ON_HOLD,
+] as const;
+
+// Uppercase letter followed by letters or digits, e.g. WEB or API2
+export const PROJECT_KEY_PATTERN = /^[A-Z][A-Z0-9]{1,9}$/;
+
+export const HEX_COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+
+// Workflow every new project starts with, any state can move to any other
+export const DEFAULT_WORKFLOW_STATES = [
+  { name: 'To Do', category: WorkflowStateCategory.TODO, color: '#94A3B8' },
+  {
+    name: 'In Progress',
+    category: WorkflowStateCategory.IN_PROGRESS,
+    color: '#3B82F6',
+  },
+  {
+    name: 'In Review',
+    category: WorkflowStateCategory.IN_PROGRESS,
+    color: '#A855F7',
+  },
+  { name: 'Done', category: WorkflowStateCategory.DONE, color: '#22C55E' },
+  { name: 'Cancelled', category: WorkflowStateCategory.DONE, color: '#EF4444' },
+] as const;
+
+// Columns whose task ranks grow longer than this are rebalanced
+export const MAX_TASK_RANK_LENGTH = 24;
@@ -0,0 +1,238 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedGuard } from 'src/auth/guards/authenticated.guard';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { AuthorizationGuard } from 'src/authorization/guards/authorization.guard';
+import { Permissions } from 'src/authorization/decorators/permissions.decorator';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { CurrentWorkspace } from 'src/workspace/decorators/current-workspace.decorator';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { WORKSPACE_HEADER } from 'src/workspace/workspace.constants';
+import { ProjectService } from './project.service';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { ListProjectsQueryDto } from './dto/list-projects-query.dto';
+import { AddProjectMemberDto } from './dto/add-project-member.dto';
+
+@ApiTags('Projects')
+@ApiHeader({ name: WORKSPACE_HEADER, required: true })
+@Controller('projects')
+@UseGuards(AuthenticatedGuard, AuthorizationGuard)
+export class ProjectController {
+  constructor(private readonly projectService: ProjectService) {}
+
+  @Permissions('project:create')
+  @Post()
+  @ApiOperation({ summary: 'Create a project in the workspace' })
+  async create(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Body() body: CreateProjectDto,
+  ) {
+    const project = await this.projectService.createProject(
+      workspace,
+      user.id,
+      body,
+    );
+
+    return {
+      message: 'Project created successfully',
+      data: project,
+    };
+  }
+
+  @Permissions('project:read')
+  @Get()
+  @ApiOperation({ summary: 'List projects of the workspace' })
+  async list(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Query() query: ListProjectsQueryDto,
+  ) {
+    const { projects, meta } = await this.projectService.listProjects(
+      workspace,
+      user.id,
+      query,
+    );
+
+    return {
+      message: 'Projects retrieved successfully',
+      data: projects,
+      meta,
+    };
+  }
+
+  @Permissions('project:read')
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a project' })
+  async findOne(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const project = await this.projectService.getProject(
+      workspace,
+      user.id,
+      id,
+    );
+
+    return {
+      message: 'Project retrieved successfully',
+      data: project,
+    };
+  }
+
+  @Permissions('project:update')
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a project' })
+  async update(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: UpdateProjectDto,
+  ) {
+    const project = await this.projectService.updateProject(
+      workspace,
+      user.id,
+      id,
+      body,
+    );
+
+    return {
+      message: 'Project updated successfully',
+      data: project,
+    };
+  }
+
+  @Permissions('project:update')
+  @Post(':id/archive')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Archive a project, making it read-only' })
+  async archive(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const project = await this.projectService.archiveProject(
+      workspace,
+      user.id,
+      id,
+    );
+
+    return {
+      message: 'Project archived successfully',
+      data: project,
+    };
+  }
+
+  @Permissions('project:update')
+  @Post(':id/unarchive')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore an archived project' })
+  async unarchive(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const project = await this.projectService.unarchiveProject(
+      workspace,
+      user.id,
+      id,
+    );
+
+    return {
+      message: 'Project unarchived successfully',
+      data: project,
+    };
+  }
+
+  @Permissions('project:delete')
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a project' })
+  async remove(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.projectService.deleteProject(workspace, user.id, id);
+
+    return {
+      message: 'Project deleted successfully',
+      data: null,
+    };
+  }
+
+  @Permissions('project:read')
+  @Get(':id/members')
+  @ApiOperation({ summary: 'List members of a project' })
+  async listMembers(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const members = await this.projectService.listMembers(
+      workspace,
+      user.id,
+      id,
+    );
+
+    return {
+      message: 'Project members retrieved successfully',
+      data: members,
+    };
+  }
+
+  @Permissions('project:update')
+  @Post(':id/members')
+  @ApiOperation({ summary: 'Add a workspace member to a project' })
+  async addMember(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: AddProjectMemberDto,
+  ) {
+    const member = await this.projectService.addMember(
+      workspace,
+      user.id,
+      id,
+      body.userId,
+    );
+
+    return {
+      message: 'Project member added successfully',
+      data: member,
+    };
+  }
+
+  @Permissions('project:update')
+  @Delete(':id/members/:userId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Remove a member from a project' })
+  async removeMember(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+  ) {
+    await this.projectService.removeMember(workspace, user.id, id, userId);
+
+    return {
+      message: 'Project member removed successfully',
+      data: null,
+    };
+  }
+}
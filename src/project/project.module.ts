@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { WorkspaceModule } from 'src/workspace/workspace.module';
+import { ProjectService } from './project.service';
+import { ProjectController } from './project.controller';
+import { WorkflowService } from './workflow.service';
+import { WorkflowController } from './workflow.controller';
+import { TaskRankService } from './task-rank.service';
+
+@Module({
+  imports: [WorkspaceModule],
+  controllers: [ProjectController, WorkflowController],
+  providers: [ProjectService, WorkflowService, TaskRankService],
+  exports: [ProjectService, WorkflowService, TaskRankService],
+})
+export class ProjectModule {}
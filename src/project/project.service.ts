@@ -0,0 +1,355 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Prisma,
+  Project,
+  ProjectStatus,
+  TimesheetStatus,
+  WorkspaceRole,
+} from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { TimeEntryLockedException } from 'src/time/exceptions/time-entry-locked.exception';
+import { TimesheetLockedException } from 'src/time/exceptions/timesheet-locked.exception';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { ListProjectsQueryDto } from './dto/list-projects-query.dto';
+import { ProjectArchivedException } from './exceptions/project-archived.exception';
+import { WorkflowService } from './workflow.service';
+
+const MEMBER_USER_SELECT = {
+  id: true,
+  name: true,
+  username: true,
+  email: true,
+  image: true,
+} as const;
+
+@Injectable()
+export class ProjectService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly workflowService: WorkflowService,
+  ) {}
+
+  /**
+   * List the projects of the workspace. Guests only see the projects
+   * they are a member of.
+   */
+  async listProjects(
+    context: WorkspaceContext,
+    userId: string,
+    query: ListProjectsQueryDto,
+  ) {
+    const search = query.search?.trim();
+    const where: Prisma.ProjectWhereInput = {
+      ...this.visibleTo(context, userId),
+      status: query.status,
+      ...(search && {
+        OR: [
+          { name: { contains: search, mode: 'insensitive' } },
+          { key: { contains: search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const [projects, total] = await this.prisma.$transaction([
+      this.prisma.project.findMany({
+        where,
+        include: { _count: { select: { members: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: query.skip,
+        take: query.limit,
+      }),
+      this.prisma.project.count({ where }),
+    ]);
+
+    return { projects, meta: query.toMeta(total) };
+  }
+
+  async getProject(context: WorkspaceContext, userId: string, id: string) {
+    const project = await this.prisma.project.findFirst({
+      where: { id, ...this.visibleTo(context, userId) },
+      include: { _count: { select: { members: true } } },
+    });
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    return project;
+  }
+
+  async createProject(
+    context: WorkspaceContext,
+    userId: string,
+    data: CreateProjectDto,
+  ) {
+    await this.assertKeyAvailable(context.id, data.key);
+    this.assertDateRange(data.startDate, data.dueDate);
+
+    return this.prisma.$transaction(async (tx) => {
+      const project = await tx.project.create({
+        data: {
+          workspaceId: context.id,
+          name: data.name.trim(),
+          key: data.key,
+          description: data.description?.trim(),
+          color: data.color,
+          status: data.status,
+          startDate: this.toDate(data.startDate),
+          dueDate: this.toDate(data.dueDate),
+          budgetHours: data.budgetHours,
+          createdById: userId,
+          members: { create: { userId } },
+        },
+      });
+      await this.workflowService.createDefaultWorkflow(tx, project.id);
+
+      return project;
+    });
+  }
+
+  async updateProject(
+    context: WorkspaceContext,
+    userId: string,
+    id: string,
+    data: UpdateProjectDto,
+  ) {
+    const project = await this.getProject(context, userId, id);
+    this.assertWritable(project);
+
+    if (data.key && data.key !== project.key) {
+      await this.assertKeyAvailable(context.id, data.key);
+    }
+    this.assertDateRange(
+      data.startDate === undefined ? project.startDate : data.startDate,
+      data.dueDate === undefined ? project.dueDate : data.dueDate,
+    );
+
+    return this.prisma.project.update({
+      where: { id },
+      data: {
+        name: data.name?.trim(),
+        key: data.key,
+        description:
+          data.description === null ? null : data.description?.trim(),
+        color: data.color,
+        status: data.status,
+        startDate: this.toDate(data.startDate),
+        dueDate: this.toDate(data.dueDate),
+        budgetHours: data.budgetHours,
+      },
+    });
+  }
+
+  /**
+   * Archive the project, making it read-only
+   */
+  async archiveProject(context: WorkspaceContext, userId: string, id: string) {
+    const project = await this.getProject(context, userId, id);
+    if (project.status === ProjectStatus.ARCHIVED) {
+      throw new BadRequestException('Project is already archived');
+    }
+
+    return this.prisma.project.update({
+      where: { id },
+      data: { status: ProjectStatus.ARCHIVED, archivedAt: new Date() },
+    });
+  }
+
+  async unarchiveProject(
+    context: WorkspaceContext,
+    userId: string,
+    id: string,
+  ) {
+    const project = await this.getProject(context, userId, id);
+    if (project.status !== ProjectStatus.ARCHIVED) {
+      throw new BadRequestException('Project is not archived');
+    }
+
+    return this.prisma.project.update({
+      where: { id },
+      data: { status: ProjectStatus.ACTIVE, archivedAt: null },
+    });
+  }
+
+  async deleteProject(
+    context: WorkspaceContext,
+    userId: string,
+    id: string,
+  ): Promise<void> {
+    await this.getProject(context, userId, id);
+    await this.assertNoLockedTime(context.id, { projectId: id });
+
+    await this.prisma.project.delete({ where: { id } });
+  }
+
+  async listMembers(context: WorkspaceContext, userId: string, id: string) {
+    await this.getProject(context, userId, id);
+
+    return this.prisma.projectMember.findMany({
+      where: { projectId: id },
+      include: { user: { select: MEMBER_USER_SELECT } },
+      orderBy: { addedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Add a workspace member to the project
+   */
+  async addMember(
+    context: WorkspaceContext,
+    currentUserId: string,
+    id: string,
+    userId: string,
+  ) {
+    const project = await this.getProject(context, currentUserId, id);
+    this.assertWritable(project);
+
+    const workspaceMember = await this.prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId: context.id, userId } },
+      select: { id: true },
+    });
+    if (!workspaceMember) {
+      throw new BadRequestException('User is not a member of this workspace');
+    }
+
+    const existing = await this.prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId: id, userId } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ConflictException('User is already a project member');
+    }
+
+    return this.prisma.projectMember.create({
+      data: { projectId: id, userId },
+      include: { user: { select: MEMBER_USER_SELECT } },
+    });
+  }
+
+  async removeMember(
+    context: WorkspaceContext,
+    currentUserId: string,
+    id: string,
+    userId: string,
+  ): Promise<void> {
+    const project = await this.getProject(context, currentUserId, id);
+    this.assertWritable(project);
+
+    const { count } = await this.prisma.projectMember.deleteMany({
+      where: { projectId: id, userId },
+    });
+    if (count === 0) {
+      throw new NotFoundException('Member not found');
+    }
+  }
+
+  /**
+   * Reject changes to archived projects
+   */
+  assertWritable(project: Pick<Project, 'id' | 'status'>): void {
+    if (project.status === ProjectStatus.ARCHIVED) {
+      throw new ProjectArchivedException(project.id);
+    }
+  }
+
+  /**
+   * Reject deleting tasks whose time entries are locked, on or before the
+   * workspace lock date or in a week whose timesheet is submitted or
+   * approved. The entries would otherwise be deleted with the tasks.
+   */
+  async assertNoLockedTime(
+    workspaceId: string,
+    tasks: { projectId: string } | { taskIds: string[] },
+  ): Promise<void> {
+    const { timeLockDate } = await this.prisma.workspace.findUniqueOrThrow({
+      where: { id: workspaceId },
+      select: { timeLockDate: true },
+    });
+
+    if (timeLockDate) {
+      const locked = await this.prisma.timeEntry.findFirst({
+        where: {
+          ...('projectId' in tasks
+            ? { task: { projectId: tasks.projectId } }
+            : { taskId: { in: tasks.taskIds } }),
+          date: { lte: timeLockDate },
+        },
+        select: { id: true },
+      });
+      if (locked) {
+        throw new TimeEntryLockedException(
+          timeLockDate.toISOString().slice(0, 10),
+        );
+      }
+    }
+
+    const taskIds =
+      'projectId' in tasks
+        ? Prisma.sql`SELECT "id" FROM "tasks" WHERE "projectId" = ${tasks.projectId}`
+        : Prisma.join(tasks.taskIds);
+    const [timesheet] = await this.prisma.$queryRaw<
+      { id: string; status: TimesheetStatus }[]
+    >`
+      SELECT t."id", t."status" FROM "timesheets" t
+      WHERE t."workspaceId" = ${workspaceId}
+        AND t."status"::text IN (${Prisma.join([TimesheetStatus.SUBMITTED, TimesheetStatus.APPROVED])})
+        AND EXISTS (
+          SELECT 1 FROM "time_entries" e
+          WHERE e."userId" = t."userId"
+            AND e."taskId" IN (${taskIds})
+            AND e."date" BETWEEN t."weekStart" AND t."weekEnd"
+        )
+      ORDER BY t."weekStart"
+      LIMIT 1
+    `;
+    if (timesheet) {
+      throw new TimesheetLockedException(timesheet.id, timesheet.status);
+    }
+  }
+
+  /**
+   * Filter for the projects of the workspace visible to the user
+   */
+  visibleTo(
+    context: WorkspaceContext,
+    userId: string,
+  ): Prisma.ProjectWhereInput {
+    return {
+      workspaceId: context.id,
+      ...(context.role === WorkspaceRole.GUEST && {
+        members: { some: { userId } },
+      }),
+    };
+  }
+
+  private async assertKeyAvailable(workspaceId: string, key: string) {
+    const existing = await this.prisma.project.findUnique({
+      where: { workspaceId_key: { workspaceId, key } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ConflictException(
+        'A project with this key already exists in the workspace',
+      );
+    }
+  }
+
+  private assertDateRange(
+    startDate?: string | Date | null,
+    dueDate?: string | Date | null,
+  ): void {
+    if (startDate && dueDate && new Date(startDate) > new Date(dueDate)) {
+      throw new BadRequestException('Due date must not be before start date');
+    }
+  }
+
+  private toDate(value?: string | null): Date | null | undefined {
+    return value === null || value === undefined ? value : new Date(value);
+  }
+}
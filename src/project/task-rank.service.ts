@@ -0,0 +1,93 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from 'generated/prisma/client';
+import { evenlySpacedRanks, rankBetween } from 'src/common/utils/rank.util';
+
+/**
+ * Board positions of tasks within their workflow state column.
+ * Every method runs inside the caller's transaction.
+ */
+@Injectable()
+export class TaskRankService {
+  /**
+   * Lock the columns until the transaction ends, so concurrent moves
+   * into the same column cannot compute the same rank
+   */
+  async lockColumns(
+    tx: Prisma.TransactionClient,
+    stateIds: string[],
+  ): Promise<void> {
+    // A fixed lock order prevents deadlocks between transactions
+    const ids = [...new Set(stateIds)].sort();
+    if (ids.length === 0) {
+      return;
+    }
+
+    await tx.$queryRaw`SELECT "id" FROM "workflow_states" WHERE "id" IN (${Prisma.join(ids)}) ORDER BY "id" FOR UPDATE`;
+  }
+
+  /**
+   * Ranks for tasks appended to the end of a column.
+   * The column must be locked.
+   */
+  async appendRanks(
+    tx: Prisma.TransactionClient,
+    stateId: string,
+    count: number,
+  ): Promise<string[]> {
+    const last = await tx.task.findFirst({
+      where: { stateId },
+      orderBy: { rank: 'desc' },
+      select: { rank: true },
+    });
+
+    const ranks: string[] = [];
+    let previous = last?.rank ?? null;
+    for (let i = 0; i < count; i++) {
+      previous = rankBetween(previous, null);
+      ranks.push(previous);
+    }
+
+    return ranks;
+  }
+
+  /**
+   * Move tasks out of the way before assigning new ranks, so the new
+   * ranks cannot collide with ranks the tasks are about to give up
+   */
+  async parkRanks(
+    tx: Prisma.TransactionClient,
+    taskIds: string[],
+  ): Promise<void> {
+    if (taskIds.length === 0) {
+      return;
+    }
+
+    await tx.$executeRaw`UPDATE "tasks" SET "rank" = '~' || "id" WHERE "id" IN (${Prisma.join(taskIds)})`;
+  }
+
+  /**
+   * Give the tasks of a column evenly spaced ranks, keeping their order.
+   * The column must be locked.
+   */
+  async rebalanceColumn(
+    tx: Prisma.TransactionClient,
+    stateId: string,
+  ): Promise<number> {
+    const tasks = await tx.task.findMany({
+      where: { stateId },
+      orderBy: { rank: 'asc' },
+      select: { id: true },
+    });
+    const ranks = evenlySpacedRanks(tasks.length);
+
+    await this.parkRanks(
+      tx,
+      tasks.map(({ id }) => id),
+    );
+    for (const [index, { id }] of tasks.entries()) {
+      await tx.task.update({ where: { id }, data: { rank: ranks[index] } });
+    }
+
+    return tasks.length;
+  }
+}
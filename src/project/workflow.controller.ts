@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedGuard } from 'src/auth/guards/authenticated.guard';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { AuthorizationGuard } from 'src/authorization/guards/authorization.guard';
+import { Permissions } from 'src/authorization/decorators/permissions.decorator';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { CurrentWorkspace } from 'src/workspace/decorators/current-workspace.decorator';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { WORKSPACE_HEADER } from 'src/workspace/workspace.constants';
+import { ProjectService } from './project.service';
+import { WorkflowService } from './workflow.service';
+import { UpdateWorkflowDto } from './dto/update-workflow.dto';
+
+@ApiTags('Projects')
+@ApiHeader({ name: WORKSPACE_HEADER, required: true })
+@Controller('projects')
+@UseGuards(AuthenticatedGuard, AuthorizationGuard)
+export class WorkflowController {
+  constructor(
+    private readonly projectService: ProjectService,
+    private readonly workflowService: WorkflowService,
+  ) {}
+
+  @Permissions('project:read')
+  @Get(':id/workflow')
+  @ApiOperation({ summary: 'Get the task workflow of a project' })
+  async getWorkflow(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const project = await this.projectService.getProject(
+      workspace,
+      user.id,
+      id,
+    );
+    const workflow = await this.workflowService.getWorkflow(project.id);
+
+    return {
+      message: 'Workflow retrieved successfully',
+      data: workflow,
+    };
+  }
+
+  @Permissions('project:update')
+  @Put(':id/workflow')
+  @ApiOperation({
+    summary: 'Replace the task workflow of a project',
+    description:
+      'Tasks in removed states are moved to the states given in stateMapping.',
+  })
+  async replaceWorkflow(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: UpdateWorkflowDto,
+  ) {
+    const project = await this.projectService.getProject(
+      workspace,
+      user.id,
+      id,
+    );
+    this.projectService.assertWritable(project);
+
+    const workflow = await this.workflowService.replaceWorkflow(
+      project.id,
+      body,
+    );
+
+    return {
+      message: 'Workflow updated successfully',
+      data: workflow,
+    };
+  }
+}
@@ -0,0 +1,310 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+} from '@nestjs/common';
+import {
+  Prisma,
+  WorkflowState,
+  WorkflowStateCategory,
+} from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { DEFAULT_WORKFLOW_STATES } from './project.constants';
+import { UpdateWorkflowDto } from './dto/update-workflow.dto';
+import { InvalidTransitionException } from './exceptions/invalid-transition.exception';
+import { TaskRankService } from './task-rank.service';
+
+/**
+ * Per-project task workflows: ordered states and the allowed
+ * transitions between them
+ */
+@Injectable()
+export class WorkflowService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly taskRankService: TaskRankService,
+  ) {}
+
+  /**
+   * Create the default workflow of a new project
+   */
+  async createDefaultWorkflow(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+  ): Promise<void> {
+    const states = await tx.workflowState.createManyAndReturn({
+      data: DEFAULT_WORKFLOW_STATES.map((state, position) => ({
+        ...state,
+        projectId,
+        position,
+      })),
+      select: { id: true },
+    });
+
+    await tx.workflowTransition.createMany({
+      data: states.flatMap((from) =>
+        states
+          .filter((to) => to.id !== from.id)
+          .map((to) => ({
+            projectId,
+            fromStateId: from.id,
+            toStateId: to.id,
+          })),
+      ),
+    });
+  }
+
+  async getWorkflow(projectId: string) {
+    const [states, transitions] = await this.prisma.$transaction([
+      this.prisma.workflowState.findMany({
+        where: { projectId },
+        orderBy: { position: 'asc' },
+      }),
+      this.prisma.workflowTransition.findMany({
+        where: { projectId },
+        select: { fromStateId: true, toStateId: true },
+      }),
+    ]);
+
+    return { states, transitions };
+  }
+
+  /**
+   * Replace the workflow of a project. States are matched by name, tasks
+   * in removed states are moved according to the state mapping.
+   */
+  async replaceWorkflow(projectId: string, data: UpdateWorkflowDto) {
+    const names = data.states.map((state) => state.name.trim());
+    if (
+      new Set(names.map((name) => name.toLowerCase())).size !== names.length
+    ) {
+      throw new BadRequestException('State names must be unique');
+    }
+
+    const transitions = data.transitions
+      .map((transition) => ({
+        from: transition.from.trim(),
+        to: transition.to.trim(),
+      }))
+      .filter((transition) => transition.from !== transition.to);
+    const unknown = transitions
+      .flatMap((transition) => [transition.from, transition.to])
+      .filter((name) => !names.includes(name));
+    if (unknown.length > 0) {
+      throw new BadRequestException({
+        message: 'Transitions must reference states of the workflow',
+        details: { unknownStates: [...new Set(unknown)] },
+      });
+    }
+
+    const mapping = data.stateMapping ?? {};
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        // Lock the current columns first, so no task can enter a state
+        // that is about to be removed after the mapping was checked
+        const current = await tx.workflowState.findMany({
+          where: { projectId },
+          select: { id: true },
+        });
+        await this.taskRankService.lockColumns(
+          tx,
+          current.map((state) => state.id),
+        );
+
+        const existing = await tx.workflowState.findMany({
+          where: { projectId },
+          include: { _count: { select: { tasks: true } } },
+        });
+        const removed = existing.filter((state) => !names.includes(state.name));
+
+        const unmapped = removed
+          .filter((state) => state._count.tasks > 0)
+          .filter((state) => !names.includes(mapping[state.name]))
+          .map((state) => state.name);
+        if (unmapped.length > 0) {
+          throw new BadRequestException({
+            message:
+              'Map every removed state that still has tasks to a state of the new workflow',
+            details: { unmappedStates: unmapped },
+          });
+        }
+
+        const stateIds = new Map<string, string>();
+        const categories = new Map<string, WorkflowStateCategory>();
+
+        for (const [position, state] of data.states.entries()) {
+          const name = state.name.trim();
+          const saved = await tx.workflowState.upsert({
+            where: { projectId_name: { projectId, name } },
+            create: {
+              projectId,
+              name,
+              category: state.category,
+              color: state.color,
+              position,
+            },
+            update: {
+              category: state.category,
+              color: state.color,
+              position,
+            },
+            select: { id: true },
+          });
+          stateIds.set(name, saved.id);
+          categories.set(saved.id, state.category);
+        }
+
+        await this.taskRankService.lockColumns(tx, [
+          ...stateIds.values(),
+          ...removed.map((state) => state.id),
+        ]);
+
+        // Mapped tasks keep their order at the end of the new column
+        for (const state of removed) {
+          const target = stateIds.get(mapping[state.name]);
+          if (!target) {
+            continue;
+          }
+
+          const tasks = await tx.task.findMany({
+            where: { stateId: state.id },
+            orderBy: { rank: 'asc' },
+            select: { id: true },
+          });
+          const ranks = await this.taskRankService.appendRanks(
+            tx,
+            target,
+            tasks.length,
+          );
+          for (const [index, { id }] of tasks.entries()) {
+            await tx.task.update({
+              where: { id },
+              data: { stateId: target, rank: ranks[index] },
+            });
+          }
+        }
+
+        await tx.workflowState.deleteMany({
+          where: { id: { in: removed.map((state) => state.id) } },
+        });
+
+        await tx.workflowTransition.deleteMany({ where: { projectId } });
+        await tx.workflowTransition.createMany({
+          data: transitions.map((transition) => ({
+            projectId,
+            fromStateId: stateIds.get(transition.from)!,
+            toStateId: stateIds.get(transition.to)!,
+          })),
+          skipDuplicates: true,
+        });
+
+        await this.syncCompletion(tx, projectId, categories);
+      });
+    } catch (error) {
+      // A task entered a removed state of a concurrent workflow change
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2003'
+      ) {
+        throw new ConflictException(
+          'The workflow changed while it was being replaced, please try again',
+        );
+      }
+      throw error;
+    }
+
+    return this.getWorkflow(projectId);
+  }
+
+  /**
+   * Ensure the state belongs to the project workflow
+   */
+  async getState(projectId: string, stateId: string): Promise<WorkflowState> {
+    const state = await this.prisma.workflowState.findFirst({
+      where: { id: stateId, projectId },
+    });
+    if (!state) {
+      throw new BadRequestException(
+        'State does not belong to the project workflow',
+      );
+    }
+
+    return state;
+  }
+
+  /**
+   * The first state of the workflow, used for new tasks
+   */
+  async getInitialState(projectId: string): Promise<WorkflowState> {
+    return this.prisma.workflowState.findFirstOrThrow({
+      where: { projectId },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  /**
+   * The first state of the workflow in the category, falling back to the
+   * initial state. Used when tasks move between projects.
+   */
+  async getStateForCategory(
+    projectId: string,
+    category: WorkflowStateCategory,
+  ): Promise<WorkflowState> {
+    const state = await this.prisma.workflowState.findFirst({
+      where: { projectId, category },
+      orderBy: { position: 'asc' },
+    });
+
+    return state ?? this.getInitialState(projectId);
+  }
+
+  /**
+   * Reject a state change that the workflow does not allow
+   */
+  async assertTransition(
+    from: Pick<WorkflowState, 'id' | 'name'>,
+    to: Pick<WorkflowState, 'id' | 'name'>,
+  ): Promise<void> {
+    if (from.id === to.id) {
+      return;
+    }
+
+    const allowed = await this.prisma.workflowTransition.findMany({
+      where: { fromStateId: from.id },
+      select: { toState: { select: { id: true, name: true } } },
+    });
+    if (!allowed.some(({ toState }) => toState.id === to.id)) {
+      throw new InvalidTransitionException(
+        from.name,
+        to.name,
+        allowed.map(({ toState }) => toState.name),
+      );
+    }
+  }
+
+  /**
+   * Keep completedAt in line with the category of each task's state
+   */
+  private async syncCompletion(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    categories: Map<string, WorkflowStateCategory>,
+  ): Promise<void> {
+    const doneIds = [...categories]
+      .filter(([, category]) => category === WorkflowStateCategory.DONE)
+      .map(([id]) => id);
+
+    await tx.task.updateMany({
+      where: { projectId, stateId: { in: doneIds }, completedAt: null },
+      data: { completedAt: new Date() },
+    });
+    await tx.task.updateMany({
+      where: {
+        projectId,
+        stateId: { notIn: doneIds },
+        completedAt: { not: null },
+      },
+      data: { completedAt: null },
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SecurityEventType } from 'generated/prisma/client';
+
+export class SecurityEventResponseDto {
+  @ApiProperty({
+    description: 'Unique event identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'User the event belongs to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  userId: string | null;
+
+  @ApiProperty({
+    description: 'Type of the security event',
+    enum: SecurityEventType,
+    example: SecurityEventType.LOGIN_SUCCESS,
+  })
+  type: SecurityEventType;
+
+  @ApiProperty({
+    description: 'IP address the event originated from',
+    example: '203.0.113.42',
+    nullable: true,
+  })
+  ipAddress: string | null;
+
+  @ApiProperty({
+    description: 'User agent the event originated from',
+    example: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0)',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @ApiProperty({
+    description: 'Additional event details',
+    example: { sessionId: 'mXk1c3ZxQ2p0b0dQb3pQd2hQb1Z5' },
+    nullable: true,
+  })
+  metadata: Record<string, unknown> | null;
+
+  @ApiProperty({
+    description: 'Event timestamp',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  createdAt: Date;
+}
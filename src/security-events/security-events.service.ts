@@ -0,0 +1,57 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma, SecurityEventType } from 'generated/prisma/client';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { RequestMetadata } from 'src/common/utils/request-metadata.util';
+
+/**
+ * Audit log of security relevant account activity
+ */
+@Injectable()
+export class SecurityEventsService {
+  private readonly logger = new Logger(SecurityEventsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Record a security event. Failures are logged and never
+   * propagated, so auditing cannot break the calling flow.
+   */
+  async logEvent(
+    userId: string | null,
+    type: SecurityEventType,
+    metadata?: RequestMetadata,
+    details?: Prisma.InputJsonObject,
+  ): Promise<void> {
+    try {
+      await this.prisma.securityEvent.create({
+        data: {
+          userId,
+          type,
+          ipAddress: metadata?.ipAddress?.slice(0, 255),
+          userAgent: metadata?.userAgent?.slice(0, 500),
+          metadata: details,
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to log security event ${type}`, error);
+    }
+  }
+
+  /**
+   * List a user's security events, newest first
+   */
+  async findForUser(userId: string, pagination: PaginationQueryDto) {
+    const [events, total] = await this.prisma.$transaction([
+      this.prisma.securityEvent.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        skip: pagination.skip,
+        take: pagination.limit,
+      }),
+      this.prisma.securityEvent.count({ where: { userId } }),
+    ]);
+
+    return { events, meta: pagination.toMeta(total) };
+  }
+}
@@ -0,0 +1,36 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { JobLockService } from 'src/common/scheduler/job-lock.service';
+import { BoardService } from './board.service';
+
+@Injectable()
+export class BoardRebalanceService {
+  private readonly logger = new Logger(BoardRebalanceService.name);
+
+  constructor(
+    private readonly boardService: BoardService,
+    private readonly jobLockService: JobLockService,
+  ) {}
+
+  /**
+   * Respread the ranks of board columns after many moves into the
+   * same gap have made them long
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async rebalanceBoards(): Promise<void> {
+    try {
+      await this.jobLockService.runExclusive(
+        'rebalance-boards',
+        600,
+        async () => {
+          const count = await this.boardService.rebalanceColumns();
+          if (count > 0) {
+            this.logger.log(`Rebalanced ${count} board column(s)`);
+          }
+        },
+      );
+    } catch (error) {
+      this.logger.error('Failed to rebalance board columns', error);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedGuard } from 'src/auth/guards/authenticated.guard';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { AuthorizationGuard } from 'src/authorization/guards/authorization.guard';
+import { Permissions } from 'src/authorization/decorators/permissions.decorator';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { CurrentWorkspace } from 'src/workspace/decorators/current-workspace.decorator';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { WORKSPACE_HEADER } from 'src/workspace/workspace.constants';
+import { BoardService } from './board.service';
+import {
+  BulkMoveBoardTasksDto,
+  MoveBoardTaskDto,
+} from './dto/move-board-task.dto';
+
+@ApiTags('Boards')
+@ApiHeader({ name: WORKSPACE_HEADER, required: true })
+@Controller('projects')
+@UseGuards(AuthenticatedGuard, AuthorizationGuard)
+export class BoardController {
+  constructor(private readonly boardService: BoardService) {}
+
+  @Permissions('task:read')
+  @Get(':id/board')
+  @ApiOperation({ summary: 'Get the kanban board of a project' })
+  async getBoard(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const board = await this.boardService.getBoard(workspace, user.id, id);
+
+    return {
+      message: 'Board retrieved successfully',
+      data: board,
+    };
+  }
+
+  @Permissions('task:update')
+  @Post(':id/board/move')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Move a task on the board',
+    description:
+      'Places the task between previousTaskId and nextTaskId of the target column.',
+  })
+  async moveTask(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: MoveBoardTaskDto,
+  ) {
+    const { taskId, ...position } = body;
+    const [task] = await this.boardService.moveTasks(workspace, user.id, id, {
+      ...position,
+      taskIds: [taskId],
+    });
+
+    return {
+      message: 'Task moved successfully',
+      data: task,
+    };
+  }
+
+  @Permissions('task:update')
+  @Post(':id/board/move/bulk')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Move several tasks on the board at once',
+    description:
+      'The tasks are placed next to each other in the given order. Either all tasks move or none.',
+  })
+  async moveTasks(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: BulkMoveBoardTasksDto,
+  ) {
+    const tasks = await this.boardService.moveTasks(
+      workspace,
+      user.id,
+      id,
+      body,
+    );
+
+    return {
+      message: 'Tasks moved successfully',
+      data: tasks,
+    };
+  }
+}
@@ -0,0 +1,234 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, WorkflowStateCategory } from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { ranksBetween } from 'src/common/utils/rank.util';
+import { MAX_TASK_RANK_LENGTH } from 'src/project/project.constants';
+import { ProjectService } from 'src/project/project.service';
+import { TaskRankService } from 'src/project/task-rank.service';
+import { WorkflowService } from 'src/project/workflow.service';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { TaskService } from './task.service';
+import { BulkMoveBoardTasksDto } from './dto/move-board-task.dto';
+
+type RankedTask = { id: string; rank: string };
+
+/**
+ * Kanban board of a project: one column per workflow state, with tasks
+ * ordered by fractional ranks so a move only rewrites the moved tasks
+ */
+@Injectable()
+export class BoardService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly projectService: ProjectService,
+    private readonly workflowService: WorkflowService,
+    private readonly taskRankService: TaskRankService,
+    private readonly taskService: TaskService,
+  ) {}
+
+  async getBoard(context: WorkspaceContext, userId: string, projectId: string) {
+    const project = await this.projectService.getProject(
+      context,
+      userId,
+      projectId,
+    );
+    const { states } = await this.workflowService.getWorkflow(project.id);
+    const tasks = await this.taskService.listBoardTasks(project.id);
+
+    return {
+      project: { id: project.id, key: project.key, name: project.name },
+      columns: states.map((state) => ({
+        state,
+        tasks: tasks.filter((task) => task.stateId === state.id),
+      })),
+    };
+  }
+
+  /**
+   * Move tasks into a column, between the given neighbors. The tasks keep
+   * the order they are given in and every state change must be allowed
+   * by the workflow.
+   */
+  async moveTasks(
+    context: WorkspaceContext,
+    userId: string,
+    projectId: string,
+    data: BulkMoveBoardTasksDto,
+  ) {
+    const project = await this.projectService.getProject(
+      context,
+      userId,
+      projectId,
+    );
+    this.projectService.assertWritable(project);
+
+    const target = await this.workflowService.getState(
+      project.id,
+      data.stateId,
+    );
+
+    const neighborIds = [data.previousTaskId, data.nextTaskId];
+    if (neighborIds.some((id) => id && data.taskIds.includes(id))) {
+      throw new BadRequestException('A moved task cannot be its own neighbor');
+    }
+
+    const tasks = await this.prisma.task.findMany({
+      where: { id: { in: data.taskIds }, projectId: project.id },
+      select: {
+        id: true,
+        stateId: true,
+        state: { select: { id: true, name: true } },
+      },
+    });
+    if (tasks.length !== data.taskIds.length) {
+      throw new NotFoundException('Task not found');
+    }
+
+    for (const task of tasks) {
+      await this.workflowService.assertTransition(task.state, target);
+    }
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        await this.taskRankService.lockColumns(tx, [
+          target.id,
+          ...tasks.map((task) => task.stateId),
+        ]);
+
+        const [previous, next] = await this.resolveNeighbors(
+          tx,
+          target.id,
+          data,
+        );
+        const ranks = ranksBetween(
+          previous?.rank ?? null,
+          next?.rank ?? null,
+          data.taskIds.length,
+        );
+
+        await this.taskRankService.parkRanks(tx, data.taskIds);
+
+        const completedAt =
+          target.category === WorkflowStateCategory.DONE ? new Date() : null;
+        for (const [index, id] of data.taskIds.entries()) {
+          const task = tasks.find((candidate) => candidate.id === id)!;
+          await tx.task.update({
+            where: { id },
+            data: {
+              rank: ranks[index],
+              ...(task.stateId !== target.id && {
+                stateId: target.id,
+                completedAt,
+              }),
+            },
+          });
+        }
+
+        return data.taskIds.map((id, index) => ({
+          id,
+          stateId: target.id,
+          rank: ranks[index],
+        }));
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'The board changed while moving the tasks, please try again',
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Rebalance every column whose ranks have grown too long
+   *
+   * @returns the number of rebalanced columns
+   */
+  async rebalanceColumns(): Promise<number> {
+    const columns = await this.prisma.$queryRaw<{ stateId: string }[]>`
+      SELECT DISTINCT "stateId" FROM "tasks"
+      WHERE length("rank") > ${MAX_TASK_RANK_LENGTH}
+    `;
+
+    for (const { stateId } of columns) {
+      await this.prisma.$transaction(async (tx) => {
+        await this.taskRankService.lockColumns(tx, [stateId]);
+        await this.taskRankService.rebalanceColumn(tx, stateId);
+      });
+    }
+
+    return columns.length;
+  }
+
+  /**
+   * Find the tasks the moved tasks go between. A single neighbor is
+   * completed with the adjacent task of the column, and no neighbors
+   * means the end of the column.
+   */
+  private async resolveNeighbors(
+    tx: Prisma.TransactionClient,
+    stateId: string,
+    data: BulkMoveBoardTasksDto,
+  ): Promise<[RankedTask | null, RankedTask | null]> {
+    const others = { stateId, id: { notIn: data.taskIds } };
+    const select = { id: true, rank: true };
+
+    const findNeighbor = async (id?: string) => {
+      if (!id) {
+        return null;
+      }
+
+      const task = await tx.task.findFirst({
+        where: { id, stateId },
+        select,
+      });
+      if (!task) {
+        throw new BadRequestException(
+          'Neighbor tasks must be in the target column',
+        );
+      }
+
+      return task;
+    };
+
+    let previous = await findNeighbor(data.previousTaskId);
+    let next = await findNeighbor(data.nextTaskId);
+
+    if (previous && next && previous.rank >= next.rank) {
+      throw new BadRequestException(
+        'Previous task must come before the next task',
+      );
+    }
+
+    if (previous && !next) {
+      next = await tx.task.findFirst({
+        where: { ...others, rank: { gt: previous.rank } },
+        orderBy: { rank: 'asc' },
+        select,
+      });
+    } else if (next && !previous) {
+      previous = await tx.task.findFirst({
+        where: { ...others, rank: { lt: next.rank } },
+        orderBy: { rank: 'desc' },
+        select,
+      });
+    } else if (!previous && !next) {
+      previous = await tx.task.findFirst({
+        where: others,
+        orderBy: { rank: 'desc' },
+        select,
+      });
+    }
+
+    return [previous, next];
+  }
+}
@@ -0,0 +1,105 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+import { TaskPriority } from 'generated/prisma/client';
+
+export class CreateTaskDto {
+  @ApiProperty({
+    description: 'Project the task belongs to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID('4', { message: 'Project id must be a valid UUID' })
+  projectId: string;
+
+  @ApiProperty({
+    description: 'Task title',
+    example: 'Design the landing page',
+    minLength: 1,
+    maxLength: 255,
+  })
+  @IsString()
+  @MinLength(1, { message: 'Title must not be empty' })
+  @MaxLength(255, { message: 'Title must not exceed 255 characters' })
+  title: string;
+
+  @ApiPropertyOptional({
+    description: 'Rich text description (Markdown)',
+    maxLength: 50000,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @MaxLength(50000, { message: 'Description must not exceed 50000 characters' })
+  description?: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Workflow state of the task, defaults to the first state of the project workflow',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'State id must be a valid UUID' })
+  stateId?: string;
+
+  @ApiPropertyOptional({ enum: TaskPriority, default: TaskPriority.MEDIUM })
+  @IsOptional()
+  @IsEnum(TaskPriority)
+  priority?: TaskPriority;
+
+  @ApiPropertyOptional({
+    description: 'Due date (YYYY-MM-DD)',
+    example: '2026-02-15',
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsDateString({ strict: true }, { message: 'Due date must be a valid date' })
+  dueDate?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Estimated effort in minutes',
+    example: 90,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  @Min(0)
+  @Max(1000000)
+  estimateMinutes?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Parent task id, makes this task a subtask',
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsUUID('4', { message: 'Parent id must be a valid UUID' })
+  parentId?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'User ids of the assignees, all must be workspace members',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ArrayUnique()
+  @IsUUID('4', { each: true, message: 'Assignee ids must be valid UUIDs' })
+  assigneeIds?: string[];
+}
@@ -0,0 +1,51 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { TaskPriority, WorkflowStateCategory } from 'generated/prisma/client';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+
+export class ListTasksQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ description: 'Filter by project' })
+  @IsOptional()
+  @IsUUID('4')
+  projectId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by workflow state' })
+  @IsOptional()
+  @IsUUID('4')
+  stateId?: string;
+
+  @ApiPropertyOptional({
+    enum: WorkflowStateCategory,
+    description: 'Filter by the category of the workflow state',
+  })
+  @IsOptional()
+  @IsEnum(WorkflowStateCategory)
+  category?: WorkflowStateCategory;
+
+  @ApiPropertyOptional({ enum: TaskPriority })
+  @IsOptional()
+  @IsEnum(TaskPriority)
+  priority?: TaskPriority;
+
+  @ApiPropertyOptional({ description: 'Filter by assigned user' })
+  @IsOptional()
+  @IsUUID('4')
+  assigneeId?: string;
+
+  @ApiPropertyOptional({ description: 'List the subtasks of a task' })
+  @IsOptional()
+  @IsUUID('4')
+  parentId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by title', example: 'landing' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+}
@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsOptional,
+  IsUUID,
+} from 'class-validator';
+
+export class BoardPositionDto {
+  @ApiProperty({
+    description: 'Workflow state (column) the tasks are moved to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID('4', { message: 'State id must be a valid UUID' })
+  stateId: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Task the moved tasks are placed after. Omit both neighbors to append to the column.',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Previous task id must be a valid UUID' })
+  previousTaskId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Task the moved tasks are placed before',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Next task id must be a valid UUID' })
+  nextTaskId?: string;
+}
+
+export class MoveBoardTaskDto extends BoardPositionDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @IsUUID('4', { message: 'Task id must be a valid UUID' })
+  taskId: string;
+}
+
+export class BulkMoveBoardTasksDto extends BoardPositionDto {
+  @ApiProperty({
+    description: 'Tasks to move, in the order they should appear',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Select at least one task' })
+  @ArrayMaxSize(100, { message: 'At most 100 tasks can be moved at once' })
+  @ArrayUnique({ message: 'Task ids must be unique' })
+  @IsUUID('4', { each: true, message: 'Task ids must be valid UUIDs' })
+  taskIds: string[];
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+
+export class MoveTaskDto {
+  @ApiProperty({
+    description: 'Project the task and its subtasks are moved to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID('4', { message: 'Project id must be a valid UUID' })
+  projectId: string;
+}
@@ -0,0 +1,5 @@
+// Levels of the task hierarchy: task, subtask and sub-subtask
+export const MAX_TASK_DEPTH = 3;
+
+// Project key followed by the task number, e.g. WEB-42
+export const TASK_KEY_PATTERN = /^([A-Z][A-Z0-9]{1,9})-(\d+)$/;
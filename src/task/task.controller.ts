@@ -0,0 +1,163 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedGuard } from 'src/auth/guards/authenticated.guard';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { AuthorizationGuard } from 'src/authorization/guards/authorization.guard';
+import { Permissions } from 'src/authorization/decorators/permissions.decorator';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { CurrentWorkspace } from 'src/workspace/decorators/current-workspace.decorator';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { WORKSPACE_HEADER } from 'src/workspace/workspace.constants';
+import { TaskService } from './task.service';
+import { CreateTaskDto } from './dto/create-task.dto';
+import { UpdateTaskDto } from './dto/update-task.dto';
+import { ListTasksQueryDto } from './dto/list-tasks-query.dto';
+import { MoveTaskDto } from './dto/move-task.dto';
+
+const TASK_KEY_PARAM = {
+  name: 'key',
+  description: 'Task key (e.g. WEB-42) or id',
+  example: 'WEB-42',
+};
+
+@ApiTags('Tasks')
+@ApiHeader({ name: WORKSPACE_HEADER, required: true })
+@Controller('tasks')
+@UseGuards(AuthenticatedGuard, AuthorizationGuard)
+export class TaskController {
+  constructor(private readonly taskService: TaskService) {}
+
+  @Permissions('task:create')
+  @Post()
+  @ApiOperation({ summary: 'Create a task' })
+  async create(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Body() body: CreateTaskDto,
+  ) {
+    const task = await this.taskService.createTask(workspace, user.id, body);
+
+    return {
+      message: 'Task created successfully',
+      data: task,
+    };
+  }
+
+  @Permissions('task:read')
+  @Get()
+  @ApiOperation({ summary: 'List tasks of the workspace' })
+  async list(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Query() query: ListTasksQueryDto,
+  ) {
+    const { tasks, meta } = await this.taskService.listTasks(
+      workspace,
+      user.id,
+      query,
+    );
+
+    return {
+      message: 'Tasks retrieved successfully',
+      data: tasks,
+      meta,
+    };
+  }
+
+  @Permissions('task:read')
+  @Get(':key')
+  @ApiOperation({ summary: 'Get a task with its subtasks' })
+  @ApiParam(TASK_KEY_PARAM)
+  async findOne(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('key') key: string,
+  ) {
+    const task = await this.taskService.getTask(workspace, user.id, key);
+
+    return {
+      message: 'Task retrieved successfully',
+      data: task,
+    };
+  }
+
+  @Permissions('task:update')
+  @Patch(':key')
+  @ApiOperation({ summary: 'Update a task' })
+  @ApiParam(TASK_KEY_PARAM)
+  async update(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('key') key: string,
+    @Body() body: UpdateTaskDto,
+  ) {
+    const task = await this.taskService.updateTask(
+      workspace,
+      user.id,
+      key,
+      body,
+    );
+
+    return {
+      message: 'Task updated successfully',
+      data: task,
+    };
+  }
+
+  @Permissions('task:update')
+  @Post(':key/move')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Move a task and its subtasks to another project',
+    description: 'The moved tasks receive new keys from the target project.',
+  })
+  @ApiParam(TASK_KEY_PARAM)
+  async move(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('key') key: string,
+    @Body() body: MoveTaskDto,
+  ) {
+    const task = await this.taskService.moveTask(
+      workspace,
+      user.id,
+      key,
+      body.projectId,
+    );
+
+    return {
+      message: 'Task moved successfully',
+      data: task,
+    };
+  }
+
+  @Permissions('task:delete')
+  @Delete(':key')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a task and its subtasks' })
+  @ApiParam(TASK_KEY_PARAM)
+  async remove(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('key') key: string,
+  ) {
+    await this.taskService.deleteTask(workspace, user.id, key);
+
+    return {
+      message: 'Task deleted successfully',
+      data: null,
+    };
+  }
+}
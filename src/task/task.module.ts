@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { WorkspaceModule } from 'src/workspace/workspace.module';
+import { ProjectModule } from 'src/project/project.module';
+import { TaskService } from './task.service';
+import { TaskController } from './task.controller';
+import { BoardService } from './board.service';
+import { BoardController } from './board.controller';
+import { BoardRebalanceService } from './board-rebalance.service';
+
+@Module({
+  imports: [WorkspaceModule, ProjectModule],
+  controllers: [TaskController, BoardController],
+  providers: [TaskService, BoardService, BoardRebalanceService],
+  exports: [TaskService],
+})
+export class TaskModule {}
@@ -0,0 +1,504 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import { Prisma, WorkflowStateCategory } from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { ProjectService } from 'src/project/project.service';
+import { WorkflowService } from 'src/project/workflow.service';
+import { TaskRankService } from 'src/project/task-rank.service';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { CreateTaskDto } from './dto/create-task.dto';
+import { UpdateTaskDto } from './dto/update-task.dto';
+import { ListTasksQueryDto } from './dto/list-tasks-query.dto';
+import { MAX_TASK_DEPTH, TASK_KEY_PATTERN } from './task.constants';
+
+const TASK_INCLUDE = {
+  project: { select: { id: true, key: true, name: true, status: true } },
+  state: { select: { id: true, name: true, category: true, color: true } },
+  assignees: {
+    select: {
+      user: {
+        select: { id: true, name: true, username: true, image: true },
+      },
+    },
+    orderBy: { assignedAt: 'asc' },
+  },
+  _count: { select: { subtasks: true } },
+} satisfies Prisma.TaskInclude;
+
+type TaskWithRelations = Prisma.TaskGetPayload<{
+  include: typeof TASK_INCLUDE;
+}>;
+
+@Injectable()
+export class TaskService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly projectService: ProjectService,
+    private readonly workflowService: WorkflowService,
+    private readonly taskRankService: TaskRankService,
+  ) {}
+
+  async listTasks(
+    context: WorkspaceContext,
+    userId: string,
+    query: ListTasksQueryDto,
+  ) {
+    const search = query.search?.trim();
+    const where: Prisma.TaskWhereInput = {
+      project: this.projectService.visibleTo(context, userId),
+      projectId: query.projectId,
+      stateId: query.stateId,
+      ...(query.category && { state: { category: query.category } }),
+      priority: query.priority,
+      parentId: query.parentId,
+      ...(query.assigneeId && {
+        assignees: { some: { userId: query.assigneeId } },
+      }),
+      ...(search && {
+        title: { contains: search, mode: 'insensitive' },
+      }),
+    };
+
+    const [tasks, total] = await this.prisma.$transaction([
+      this.prisma.task.findMany({
+        where,
+        include: TASK_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: query.skip,
+        take: query.limit,
+      }),
+      this.prisma.task.count({ where }),
+    ]);
+
+    return {
+      tasks: tasks.map((task) => this.toResponse(task)),
+      meta: query.toMeta(total),
+    };
+  }
+
+  /**
+   * Tasks of a project in board order
+   */
+  async listBoardTasks(projectId: string) {
+    const tasks = await this.prisma.task.findMany({
+      where: { projectId },
+      include: TASK_INCLUDE,
+      orderBy: { rank: 'asc' },
+    });
+
+    return tasks.map((task) => this.toResponse(task));
+  }
+
+  /**
+   * Get a task by its key (e.g. WEB-42) or id
+   */
+  async getTask(context: WorkspaceContext, userId: string, ref: string) {
+    const task = await this.findTask(context, userId, ref);
+
+    const subtasks = await this.prisma.task.findMany({
+      where: { parentId: task.id },
+      include: TASK_INCLUDE,
+      orderBy: { number: 'asc' },
+    });
+
+    return {
+      ...this.toResponse(task),
+      subtasks: subtasks.map((subtask) => this.toResponse(subtask)),
+    };
+  }
+
+  async createTask(
+    context: WorkspaceContext,
+    userId: string,
+    data: CreateTaskDto,
+  ) {
+    const project = await this.projectService.getProject(
+      context,
+      userId,
+      data.projectId,
+    );
+    this.projectService.assertWritable(project);
+
+    if (data.parentId) {
+      await this.assertValidParent(data.parentId, project.id, null);
+    }
+    if (data.assigneeIds?.length) {
+      await this.assertWorkspaceMembers(context.id, data.assigneeIds);
+    }
+
+    const state = data.stateId
+      ? await this.workflowService.getState(project.id, data.stateId)
+      : await this.workflowService.getInitialState(project.id);
+
+    const task = await this.prisma.$transaction(async (tx) => {
+      const number = await this.allocateNumbers(tx, project.id, 1);
+      await this.taskRankService.lockColumns(tx, [state.id]);
+      const [rank] = await this.taskRankService.appendRanks(tx, state.id, 1);
+
+      return tx.task.create({
+        data: {
+          projectId: project.id,
+          number,
+          title: data.title.trim(),
+          description: data.description,
+          stateId: state.id,
+          rank,
+          priority: data.priority,
+          dueDate: this.toDate(data.dueDate),
+          estimateMinutes: data.estimateMinutes,
+          parentId: data.parentId,
+          createdById: userId,
+          completedAt:
+            state.category === WorkflowStateCategory.DONE ? new Date() : null,
+          assignees: data.assigneeIds?.length
+            ? {
+                createMany: {
+                  data: data.assigneeIds.map((assigneeId) => ({
+                    userId: assigneeId,
+                  })),
+                },
+              }
+            : undefined,
+        },
+        include: TASK_INCLUDE,
+      });
+    });
+
+    return this.toResponse(task);
+  }
+
+  async updateTask(
+    context: WorkspaceContext,
+    userId: string,
+    ref: string,
+    data: UpdateTaskDto,
+  ) {
+    const task = await this.findTask(context, userId, ref);
+    this.projectService.assertWritable(task.project);
+
+    if (data.parentId) {
+      await this.assertValidParent(data.parentId, task.projectId, task.id);
+    }
+    if (data.assigneeIds?.length) {
+      await this.assertWorkspaceMembers(context.id, data.assigneeIds);
+    }
+
+    // Status changes must follow the project workflow
+    const state =
+      data.stateId && data.stateId !== task.stateId
+        ? await this.workflowService.getState(task.projectId, data.stateId)
+        : null;
+    if (state) {
+      await this.workflowService.assertTransition(task.state, state);
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      // A task changing state goes to the end of the new column
+      let rank: string | undefined;
+      if (state) {
+        await this.taskRankService.lockColumns(tx, [state.id]);
+        [rank] = await this.taskRankService.appendRanks(tx, state.id, 1);
+      }
+
+      if (data.assigneeIds) {
+        await tx.taskAssignee.deleteMany({
+          where: { taskId: task.id, userId: { notIn: data.assigneeIds } },
+        });
+        await tx.taskAssignee.createMany({
+          data: data.assigneeIds.map((assigneeId) => ({
+            taskId: task.id,
+            userId: assigneeId,
+          })),
+          skipDuplicates: true,
+        });
+      }
+
+      return tx.task.update({
+        where: { id: task.id },
+        data: {
+          title: data.title?.trim(),
+          description: data.description,
+          priority: data.priority,
+          dueDate: this.toDate(data.dueDate),
+          estimateMinutes: data.estimateMinutes,
+          parentId: data.parentId,
+          ...(state && {
+            stateId: state.id,
+            rank,
+            completedAt:
+              state.category === WorkflowStateCategory.DONE ? new Date() : null,
+          }),
+        },
+        include: TASK_INCLUDE,
+      });
+    });
+
+    return this.toResponse(updated);
+  }
+
+  /**
+   * Delete a task together with its subtasks
+   */
+  async deleteTask(
+    context: WorkspaceContext,
+    userId: string,
+    ref: string,
+  ): Promise<void> {
+    const task = await this.findTask(context, userId, ref);
+    this.projectService.assertWritable(task.project);
+    await this.projectService.assertNoLockedTime(context.id, {
+      taskIds: await this.getSubtreeIds(task.id),
+    });
+
+    await this.prisma.task.delete({ where: { id: task.id } });
+  }
+
+  /**
+   * Move a task and its subtasks to another project of the workspace.
+   * The tasks get new keys from the target project, the first target state
+   * of the same category, and a moved subtask is detached from its parent.
+   */
+  async moveTask(
+    context: WorkspaceContext,
+    userId: string,
+    ref: string,
+    projectId: string,
+  ) {
+    const task = await this.findTask(context, userId, ref);
+    this.projectService.assertWritable(task.project);
+
+    if (task.projectId === projectId) {
+      throw new BadRequestException('Task is already in this project');
+    }
+
+    const target = await this.projectService.getProject(
+      context,
+      userId,
+      projectId,
+    );
+    this.projectService.assertWritable(target);
+
+    const levels = await this.getSubtreeLevels(task.id);
+    const taskIds = levels.flat();
+
+    const movedTasks = await this.prisma.task.findMany({
+      where: { id: { in: taskIds } },
+      select: { id: true, state: { select: { category: true } } },
+    });
+    const stateByCategory = new Map<WorkflowStateCategory, string>();
+    const targetStates = new Map<string, string>();
+    for (const { id, state } of movedTasks) {
+      if (!stateByCategory.has(state.category)) {
+        const targetState = await this.workflowService.getStateForCategory(
+          target.id,
+          state.category,
+        );
+        stateByCategory.set(state.category, targetState.id);
+      }
+      targetStates.set(id, stateByCategory.get(state.category)!);
+    }
+
+    const moved = await this.prisma.$transaction(async (tx) => {
+      const last = await this.allocateNumbers(tx, target.id, taskIds.length);
+      const first = last - taskIds.length + 1;
+
+      // Moved tasks are appended to their new columns in hierarchy order
+      const columns = [...new Set(targetStates.values())];
+      await this.taskRankService.lockColumns(tx, columns);
+      const ranks = new Map<string, string[]>();
+      for (const stateId of columns) {
+        const count = taskIds.filter(
+          (id) => targetStates.get(id) === stateId,
+        ).length;
+        ranks.set(
+          stateId,
+          await this.taskRankService.appendRanks(tx, stateId, count),
+        );
+      }
+
+      for (const [index, id] of taskIds.entries()) {
+        const stateId = targetStates.get(id)!;
+        await tx.task.update({
+          where: { id },
+          data: {
+            projectId: target.id,
+            number: first + index,
+            stateId,
+            rank: ranks.get(stateId)!.shift(),
+            ...(id === task.id && { parentId: null }),
+          },
+        });
+      }
+
+      return tx.task.findUniqueOrThrow({
+        where: { id: task.id },
+        include: TASK_INCLUDE,
+      });
+    });
+
+    return this.toResponse(moved);
+  }
+
+  /**
+   * Resolve a task key (e.g. WEB-42) or id to a task visible to the user
+   */
+  async findTask(context: WorkspaceContext, userId: string, ref: string) {
+    const project = this.projectService.visibleTo(context, userId);
+    let where: Prisma.TaskWhereInput;
+
+    if (isUUID(ref)) {
+      where = { id: ref, project };
+    } else {
+      const match = TASK_KEY_PATTERN.exec(ref.toUpperCase());
+      if (!match) {
+        throw new NotFoundException('Task not found');
+      }
+      where = {
+        number: Number(match[2]),
+        project: { ...project, key: match[1] },
+      };
+    }
+
+    const task = await this.prisma.task.findFirst({
+      where,
+      include: TASK_INCLUDE,
+    });
+    if (!task) {
+      throw new NotFoundException('Task not found');
+    }
+
+    return task;
+  }
+
+  /**
+   * Ids of the task and all of its subtasks
+   */
+  async getSubtreeIds(taskId: string): Promise<string[]> {
+    const levels = await this.getSubtreeLevels(taskId);
+
+    return levels.flat();
+  }
+
+  /**
+   * Reserve the next task numbers of a project
+   *
+   * @returns the last reserved number
+   */
+  private async allocateNumbers(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    count: number,
+  ): Promise<number> {
+    const { taskCounter } = await tx.project.update({
+      where: { id: projectId },
+      data: { taskCounter: { increment: count } },
+      select: { taskCounter: true },
+    });
+
+    return taskCounter;
+  }
+
+  /**
+   * Ensure the parent is in the same project, does not create a cycle
+   * and keeps the hierarchy within MAX_TASK_DEPTH levels
+   */
+  private async assertValidParent(
+    parentId: string,
+    projectId: string,
+    taskId: string | null,
+  ): Promise<void> {
+    const parent = await this.prisma.task.findUnique({
+      where: { id: parentId },
+      select: { projectId: true },
+    });
+    if (!parent || parent.projectId !== projectId) {
+      throw new BadRequestException(
+        'Parent task must belong to the same project',
+      );
+    }
+
+    const ancestors = await this.getAncestorIds(parentId);
+    if (taskId && (parentId === taskId || ancestors.includes(taskId))) {
+      throw new BadRequestException('A task cannot be its own subtask');
+    }
+
+    const subtreeHeight = taskId
+      ? (await this.getSubtreeLevels(taskId)).length
+      : 1;
+    if (ancestors.length + 1 + subtreeHeight > MAX_TASK_DEPTH) {
+      throw new BadRequestException(
+        `Tasks can only be nested ${MAX_TASK_DEPTH} levels deep`,
+      );
+    }
+  }
+
+  private async getAncestorIds(taskId: string): Promise<string[]> {
+    const ancestors: string[] = [];
+    let current = await this.prisma.task.findUnique({
+      where: { id: taskId },
+      select: { parentId: true },
+    });
+
+    while (current?.parentId && ancestors.length <= MAX_TASK_DEPTH) {
+      ancestors.push(current.parentId);
+      current = await this.prisma.task.findUnique({
+        where: { id: current.parentId },
+        select: { parentId: true },
+      });
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Ids of the task and its descendants, grouped by level
+   */
+  private async getSubtreeLevels(taskId: string): Promise<string[][]> {
+    const levels = [[taskId]];
+
+    while (levels.length <= MAX_TASK_DEPTH) {
+      const children = await this.prisma.task.findMany({
+        where: { parentId: { in: levels[levels.length - 1] } },
+        select: { id: true },
+      });
+      if (children.length === 0) {
+        break;
+      }
+      levels.push(children.map(({ id }) => id));
+    }
+
+    return levels;
+  }
+
+  private async assertWorkspaceMembers(
+    workspaceId: string,
+    userIds: string[],
+  ): Promise<void> {
+    const count = await this.prisma.workspaceMember.count({
+      where: { workspaceId, userId: { in: userIds } },
+    });
+    if (count !== userIds.length) {
+      throw new BadRequestException(
+        'All assignees must be members of the workspace',
+      );
+    }
+  }
+
+  private toResponse(task: TaskWithRelations) {
+    const { assignees, ...rest } = task;
+
+    return {
+      ...rest,
+      key: `${task.project.key}-${task.number}`,
+      assignees: assignees.map(({ user }) => user),
+    };
+  }
+
+  private toDate(value?: string | null): Date | null | undefined {
+    return value === null || value === undefined ? value : new Date(value);
+  }
+}
@@ -0,0 +1,92 @@
+import { Injectable } from '@nestjs/common';
+import { TimeOffRequest, TimeOffStatus } from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { DaysOff } from './interfaces/overtime.interface';
+
+type LeavePeriod = Pick<
+  TimeOffRequest,
+  'startDate' | 'endDate' | 'startHalfDay' | 'endHalfDay'
+>;
+
+/**
+ * Workspace holidays and approved leave, as the share of each day a
+ * member is off
+ */
+@Injectable()
+export class DaysOffService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Days off of a member between two days (inclusive, YYYY-MM-DD)
+   */
+  async getDaysOff(
+    workspaceId: string,
+    userId: string,
+    from: string,
+    to: string,
+  ): Promise<DaysOff> {
+    const range = { gte: new Date(from), lte: new Date(to) };
+
+    const [holidays, leave] = await this.prisma.$transaction([
+      this.prisma.holiday.findMany({
+        where: { calendar: { workspaceId }, date: range },
+        select: { date: true },
+      }),
+      this.prisma.timeOffRequest.findMany({
+        where: {
+          workspaceId,
+          userId,
+          status: TimeOffStatus.APPROVED,
+          startDate: { lte: range.lte },
+          endDate: { gte: range.gte },
+        },
+        select: {
+          startDate: true,
+          endDate: true,
+          startHalfDay: true,
+          endHalfDay: true,
+        },
+      }),
+    ]);
+
+    const daysOff: DaysOff = new Map();
+    const add = (date: string, share: number) =>
+      daysOff.set(date, Math.min(1, (daysOff.get(date) ?? 0) + share));
+
+    for (const holiday of holidays) {
+      add(holiday.date.toISOString().slice(0, 10), 1);
+    }
+    for (const period of leave) {
+      for (const [date, share] of this.getLeaveDays(period)) {
+        if (date >= from && date <= to) {
+          add(date, share);
+        }
+      }
+    }
+
+    return daysOff;
+  }
+
+  /**
+   * Share of each day of a leave period taken off. Half days only apply
+   * to the first and last day.
+   */
+  getLeaveDays(period: LeavePeriod): DaysOff {
+    const days: DaysOff = new Map();
+    const startDate = period.startDate.toISOString().slice(0, 10);
+    const endDate = period.endDate.toISOString().slice(0, 10);
+
+    const cursor = new Date(period.startDate);
+    while (cursor <= period.endDate) {
+      const date = cursor.toISOString().slice(0, 10);
+      const halfDay =
+        (date === startDate && period.startHalfDay) ||
+        (date === endDate && period.endHalfDay);
+
+      days.set(date, halfDay ? 0.5 : 1);
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+
+    return days;
+  }
+}
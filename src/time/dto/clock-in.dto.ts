@@ -0,0 +1,10 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ClockInDto {
+  @ApiPropertyOptional({ example: 'Starting with the sprint planning' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000, { message: 'Notes must not exceed 1000 characters' })
+  notes?: string;
+}
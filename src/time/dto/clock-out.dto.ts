@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ClockOutDto {
+  @ApiPropertyOptional({
+    description:
+      'Summary of the shift, required when the user preferences ask for notes',
+    example: 'Finished the onboarding flow',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000, { message: 'Notes must not exceed 1000 characters' })
+  notes?: string;
+}
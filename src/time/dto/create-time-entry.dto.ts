@@ -0,0 +1,64 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  Matches,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { DATE_ONLY_PATTERN, MAX_ENTRY_MINUTES } from '../time.constants';
+import { StartTimerDto } from './start-timer.dto';
+
+/**
+ * A manual entry is logged either with startedAt and endedAt, or with a
+ * date and durationMinutes
+ */
+export class CreateTimeEntryDto extends StartTimerDto {
+  @ApiPropertyOptional({
+    description: 'Start of the work, required unless durationMinutes is given',
+    example: '2026-02-15T09:00:00Z',
+  })
+  @ValidateIf(
+    (entry: CreateTimeEntryDto) => entry.durationMinutes === undefined,
+  )
+  @IsDateString({}, { message: 'Start time must be a valid date' })
+  startedAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'End of the work, required unless durationMinutes is given',
+    example: '2026-02-15T10:30:00Z',
+  })
+  @ValidateIf(
+    (entry: CreateTimeEntryDto) => entry.durationMinutes === undefined,
+  )
+  @IsDateString({}, { message: 'End time must be a valid date' })
+  endedAt?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Day the time is logged for (YYYY-MM-DD), with durationMinutes',
+    example: '2026-02-15',
+  })
+  @ValidateIf(
+    (entry: CreateTimeEntryDto) => entry.durationMinutes !== undefined,
+  )
+  @IsDateString({ strict: true }, { message: 'Date must be a valid date' })
+  @Matches(DATE_ONLY_PATTERN, { message: 'Date must be a date (YYYY-MM-DD)' })
+  date?: string;
+
+  @ApiPropertyOptional({
+    description: 'Logged minutes, instead of startedAt and endedAt',
+    minimum: 1,
+    maximum: MAX_ENTRY_MINUTES,
+    example: 90,
+  })
+  @ValidateIf(
+    (entry: CreateTimeEntryDto) =>
+      entry.durationMinutes !== undefined || entry.startedAt === undefined,
+  )
+  @IsInt()
+  @Min(1)
+  @Max(MAX_ENTRY_MINUTES)
+  durationMinutes?: number;
+}
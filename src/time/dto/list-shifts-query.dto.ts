@@ -0,0 +1,21 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+
+export class ListShiftsQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only shifts clocked in at or after this time',
+    example: '2025-01-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only shifts clocked in before this time',
+    example: '2025-02-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
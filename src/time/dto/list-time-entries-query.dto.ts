@@ -0,0 +1,42 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsUUID, Matches } from 'class-validator';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+import { DATE_ONLY_PATTERN } from '../time.constants';
+
+export class ListTimeEntriesQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Entries of another workspace member, requires the time:manage permission',
+  })
+  @IsOptional()
+  @IsUUID('4')
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by project' })
+  @IsOptional()
+  @IsUUID('4')
+  projectId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by task' })
+  @IsOptional()
+  @IsUUID('4')
+  taskId?: string;
+
+  @ApiPropertyOptional({
+    description: 'First day to include (YYYY-MM-DD)',
+    example: '2026-02-01',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  @Matches(DATE_ONLY_PATTERN, { message: 'From must be a date (YYYY-MM-DD)' })
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Last day to include (YYYY-MM-DD)',
+    example: '2026-02-28',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  @Matches(DATE_ONLY_PATTERN, { message: 'To must be a date (YYYY-MM-DD)' })
+  to?: string;
+}
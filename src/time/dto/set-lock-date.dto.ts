@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, Matches, ValidateIf } from 'class-validator';
+import { DATE_ONLY_PATTERN } from '../time.constants';
+
+export class SetLockDateDto {
+  @ApiProperty({
+    description:
+      'Time entries on or before this day (YYYY-MM-DD) can no longer be changed, null to unlock',
+    example: '2026-01-31',
+    nullable: true,
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsDateString({ strict: true }, { message: 'Lock date must be a valid date' })
+  @Matches(DATE_ONLY_PATTERN, {
+    message: 'Lock date must be a date (YYYY-MM-DD)',
+  })
+  lockDate: string | null;
+}
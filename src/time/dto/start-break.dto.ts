@@ -0,0 +1,10 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { BreakType } from 'generated/prisma/client';
+
+export class StartBreakDto {
+  @ApiPropertyOptional({ enum: BreakType, default: BreakType.SHORT })
+  @IsOptional()
+  @IsEnum(BreakType)
+  type?: BreakType;
+}
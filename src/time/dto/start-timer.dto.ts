@@ -0,0 +1,29 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+export class StartTimerDto {
+  @ApiProperty({
+    description: 'Task key (e.g. WEB-42) or id',
+    example: 'WEB-42',
+  })
+  @IsString()
+  @MinLength(1, { message: 'Task is required' })
+  task: string;
+
+  @ApiPropertyOptional({ default: false })
+  @IsOptional()
+  @IsBoolean()
+  billable?: boolean;
+
+  @ApiPropertyOptional({ example: 'Reviewing the pull request' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000, { message: 'Notes must not exceed 1000 characters' })
+  notes?: string;
+}
@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateTimeEntryDto } from './create-time-entry.dto';
+
+export class UpdateTimeEntryDto extends PartialType(
+  OmitType(CreateTimeEntryDto, ['task'] as const),
+) {}
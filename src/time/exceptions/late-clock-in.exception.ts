@@ -0,0 +1,18 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Thrown when a user clocks in past the scheduled start plus tolerance
+ * and their preferences do not allow late clock-ins
+ */
+export class LateClockInException extends HttpException {
+  constructor(scheduledStart: string, lateMinutes: number, tolerance: number) {
+    super(
+      {
+        message: `Clocking in ${lateMinutes} minute(s) late is not allowed`,
+        errorCode: 'LATE_CLOCK_IN',
+        details: { scheduledStart, lateMinutes, toleranceMinutes: tolerance },
+      },
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
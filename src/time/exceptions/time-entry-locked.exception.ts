@@ -0,0 +1,17 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Thrown when a time entry on or before the workspace lock date is changed
+ */
+export class TimeEntryLockedException extends HttpException {
+  constructor(lockDate: string) {
+    super(
+      {
+        message: `Time entries up to ${lockDate} are locked`,
+        errorCode: 'TIME_ENTRY_LOCKED',
+        details: { lockDate },
+      },
+      HttpStatus.CONFLICT,
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { TimesheetStatus } from 'generated/prisma/client';
+
+/**
+ * Thrown when a time entry or leave is changed in a week whose timesheet
+ * is waiting for review or approved
+ */
+export class TimesheetLockedException extends HttpException {
+  constructor(timesheetId: string, status: TimesheetStatus) {
+    super(
+      {
+        message:
+          status === TimesheetStatus.APPROVED
+            ? 'The timesheet of this week is approved, its entries can no longer be changed'
+            : 'The timesheet of this week is submitted. Recall it to make changes.',
+        errorCode: 'TIMESHEET_LOCKED',
+        details: { timesheetId, status },
+      },
+      HttpStatus.CONFLICT,
+    );
+  }
+}
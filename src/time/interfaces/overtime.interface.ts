@@ -0,0 +1,68 @@
+import { UserPreferences } from 'generated/prisma/client';
+
+/**
+ * Time worked, either between two moments or as a duration on a day
+ */
+export interface WorkedPeriod {
+  /** Day the duration counts towards, a date-only value */
+  date: Date;
+  startedAt: Date | null;
+  endedAt: Date | null;
+  durationMinutes: number;
+}
+
+export type OvertimeSettings = Pick<
+  UserPreferences,
+  | 'timezone'
+  | 'defaultWorkHours'
+  | 'overtimeThreshold'
+  | 'workWeekStartDay'
+  | 'workWeekEndDay'
+  | 'workingDaysPerWeek'
+>;
+
+/**
+ * Share of each local day (YYYY-MM-DD) taken off, 0 to 1. Days missing
+ * from the map are not off.
+ */
+export type DaysOff = Map<string, number>;
+
+export interface WorkedMinutes {
+  workedMinutes: number;
+  regularMinutes: number;
+  overtimeMinutes: number;
+}
+
+export interface DaySummary extends WorkedMinutes {
+  /** Local day, YYYY-MM-DD */
+  date: string;
+  /** Sunday = 0 */
+  weekday: number;
+  /** Whether the day falls within the work week */
+  scheduled: boolean;
+  /** Share of the day off for holidays or approved leave, 0 to 1 */
+  timeOff: number;
+  /** Regular minutes the day asks for, after time off */
+  expectedMinutes: number;
+}
+
+export interface WeekSummary extends WorkedMinutes {
+  /** First day of the week, YYYY-MM-DD */
+  weekStart: string;
+  /** Last day of the week, YYYY-MM-DD */
+  weekEnd: string;
+  /** Regular minutes allowed before weekly overtime, after time off */
+  thresholdMinutes: number;
+  /** Regular minutes the week asks for, after time off */
+  expectedMinutes: number;
+}
+
+export interface OvertimeSummary {
+  timezone: string;
+  from: string;
+  to: string;
+  totals: WorkedMinutes & { expectedMinutes: number };
+  days: DaySummary[];
+  /** Every week overlapping the range, computed over the whole week */
+  weeks: WeekSummary[];
+}
@@ -0,0 +1,11 @@
+/**
+ * Running task timer of a user, stored in Redis until it is stopped
+ */
+export interface RunningTimer {
+  userId: string;
+  workspaceId: string;
+  task: { id: string; key: string; title: string };
+  startedAt: string;
+  billable: boolean;
+  notes: string | null;
+}
@@ -0,0 +1,350 @@
+import { DateTime } from 'luxon';
+import {
+  DaysOff,
+  OvertimeSettings,
+  WorkedPeriod,
+} from './interfaces/overtime.interface';
+import { OvertimeService } from './overtime.service';
+
+const ZONE = 'Europe/Berlin';
+
+const SETTINGS: OvertimeSettings = {
+  timezone: ZONE,
+  defaultWorkHours: 8,
+  overtimeThreshold: 40,
+  workWeekStartDay: 1,
+  workWeekEndDay: 5,
+  workingDaysPerWeek: 5,
+};
+
+// Monday to Sunday; Berlin switches to summer time on Sunday 2026-03-29
+const WEEK = [
+  '2026-03-23',
+  '2026-03-24',
+  '2026-03-25',
+  '2026-03-26',
+  '2026-03-27',
+  '2026-03-28',
+  '2026-03-29',
+];
+
+/**
+ * A duration booked on a day, without start and end
+ */
+function booked(date: string, minutes: number): WorkedPeriod {
+  return {
+    date: new Date(date),
+    startedAt: null,
+    endedAt: null,
+    durationMinutes: minutes,
+  };
+}
+
+/**
+ * Time worked between two local times in the test timezone
+ */
+function timed(start: string, end: string): WorkedPeriod {
+  const startedAt = DateTime.fromISO(start, { zone: ZONE });
+  const endedAt = DateTime.fromISO(end, { zone: ZONE });
+
+  return {
+    date: new Date(startedAt.toISODate()!),
+    startedAt: startedAt.toJSDate(),
+    endedAt: endedAt.toJSDate(),
+    durationMinutes: endedAt.diff(startedAt, 'minutes').minutes,
+  };
+}
+
+describe('OvertimeService', () => {
+  const service = new OvertimeService();
+
+  function calculate(
+    periods: WorkedPeriod[],
+    settings: Partial<OvertimeSettings> = {},
+    range = { from: WEEK[0], to: WEEK[6] },
+    daysOff?: DaysOff,
+  ) {
+    return service.calculate(
+      periods,
+      { ...SETTINGS, ...settings },
+      range,
+      daysOff,
+    );
+  }
+
+  function day(summary: ReturnType<typeof calculate>, date: string) {
+    const found = summary.days.find((entry) => entry.date === date);
+    if (!found) {
+      throw new Error(`No summary for ${date}`);
+    }
+    return found;
+  }
+
+  describe('getWeekWindow', () => {
+    it('widens the range to whole weeks from the work week start', () => {
+      expect(
+        service.getWeekWindow('2026-03-25', '2026-03-25', SETTINGS),
+      ).toEqual({ start: '2026-03-23', end: '2026-03-29' });
+    });
+
+    it('starts weeks on Sunday when configured', () => {
+      expect(
+        service.getWeekWindow('2026-03-25', '2026-03-29', {
+          ...SETTINGS,
+          workWeekStartDay: 0,
+        }),
+      ).toEqual({ start: '2026-03-22', end: '2026-04-04' });
+    });
+  });
+
+  describe('week split', () => {
+    const periods = [
+      ...WEEK.slice(0, 5).map((date) => booked(date, 480)),
+      booked('2026-03-29', 60),
+    ];
+
+    it('counts Sunday into the week starting on Monday', () => {
+      const summary = calculate(periods);
+
+      expect(summary.weeks).toHaveLength(1);
+      expect(summary.weeks[0]).toMatchObject({
+        weekStart: '2026-03-23',
+        weekEnd: '2026-03-29',
+        workedMinutes: 2460,
+        regularMinutes: 2400,
+        overtimeMinutes: 60,
+      });
+    });
+
+    it('starts a new week on Sunday when the work week starts on Sunday', () => {
+      const summary = calculate(periods, {
+        workWeekStartDay: 0,
+        workWeekEndDay: 4,
+      });
+
+      expect(summary.weeks.map((week) => week.weekStart)).toEqual([
+        '2026-03-22',
+        '2026-03-29',
+      ]);
+      expect(summary.weeks[1]).toMatchObject({
+        workedMinutes: 60,
+        regularMinutes: 60,
+        overtimeMinutes: 0,
+      });
+      // Friday falls outside a Sunday to Thursday work week
+      expect(day(summary, '2026-03-27')).toMatchObject({
+        scheduled: false,
+        overtimeMinutes: 480,
+      });
+    });
+
+    it('only reports days within the range but computes whole weeks', () => {
+      const summary = calculate(
+        periods,
+        {},
+        {
+          from: '2026-03-27',
+          to: '2026-03-27',
+        },
+      );
+
+      expect(summary.days.map((entry) => entry.date)).toEqual(['2026-03-27']);
+      expect(summary.totals).toMatchObject({
+        workedMinutes: 480,
+        regularMinutes: 480,
+        expectedMinutes: 480,
+      });
+      expect(summary.weeks[0].workedMinutes).toBe(2460);
+    });
+  });
+
+  describe('thresholds', () => {
+    it('keeps a day at exactly the daily hours regular', () => {
+      const summary = calculate([booked('2026-03-23', 480)]);
+
+      expect(day(summary, '2026-03-23')).toMatchObject({
+        regularMinutes: 480,
+        overtimeMinutes: 0,
+      });
+    });
+
+    it('turns the first minute past the daily hours into overtime', () => {
+      const summary = calculate([booked('2026-03-23', 481)]);
+
+      expect(day(summary, '2026-03-23')).toMatchObject({
+        regularMinutes: 480,
+        overtimeMinutes: 1,
+      });
+    });
+
+    it('keeps a week at exactly the weekly threshold regular', () => {
+      const summary = calculate(
+        WEEK.slice(0, 4).map((date) => booked(date, 600)),
+        { defaultWorkHours: 10 },
+      );
+
+      expect(summary.weeks[0]).toMatchObject({
+        thresholdMinutes: 2400,
+        regularMinutes: 2400,
+        overtimeMinutes: 0,
+      });
+    });
+
+    it('turns regular time past the weekly threshold into overtime', () => {
+      const summary = calculate(
+        [
+          ...WEEK.slice(0, 4).map((date) => booked(date, 600)),
+          booked('2026-03-27', 1),
+        ],
+        { defaultWorkHours: 10 },
+      );
+
+      expect(day(summary, '2026-03-27')).toMatchObject({
+        regularMinutes: 0,
+        overtimeMinutes: 1,
+      });
+      expect(summary.weeks[0].overtimeMinutes).toBe(1);
+    });
+
+    it('counts days worked beyond the working days per week as overtime', () => {
+      const summary = calculate(
+        WEEK.slice(0, 5).map((date) => booked(date, 480)),
+        { workingDaysPerWeek: 4 },
+      );
+
+      expect(day(summary, '2026-03-26').overtimeMinutes).toBe(0);
+      expect(day(summary, '2026-03-27')).toMatchObject({
+        expectedMinutes: 0,
+        regularMinutes: 0,
+        overtimeMinutes: 480,
+      });
+    });
+
+    it('counts all work outside the work week as overtime', () => {
+      const summary = calculate([booked('2026-03-28', 30)]);
+
+      expect(day(summary, '2026-03-28')).toMatchObject({
+        scheduled: false,
+        expectedMinutes: 0,
+        regularMinutes: 0,
+        overtimeMinutes: 30,
+      });
+    });
+  });
+
+  describe('DST transitions', () => {
+    it('splits a night shift into the short day at the local midnight', () => {
+      const summary = calculate([
+        timed('2026-03-28T22:00', '2026-03-29T06:00'),
+      ]);
+
+      // Only five hours pass between midnight and 06:00 on this night
+      expect(day(summary, '2026-03-28').workedMinutes).toBe(120);
+      expect(day(summary, '2026-03-29').workedMinutes).toBe(300);
+    });
+
+    it('splits a night shift into the long day at the local midnight', () => {
+      const summary = calculate(
+        [timed('2026-10-24T22:00', '2026-10-25T06:00')],
+        {},
+        { from: '2026-10-24', to: '2026-10-25' },
+      );
+
+      expect(day(summary, '2026-10-24').workedMinutes).toBe(120);
+      expect(day(summary, '2026-10-25').workedMinutes).toBe(420);
+    });
+
+    it('keeps all 25 hours of the long day on that day', () => {
+      const summary = calculate(
+        [timed('2026-10-25T00:00', '2026-10-26T00:00')],
+        {},
+        { from: '2026-10-25', to: '2026-10-26' },
+      );
+
+      expect(day(summary, '2026-10-25').workedMinutes).toBe(1500);
+      expect(day(summary, '2026-10-26').workedMinutes).toBe(0);
+    });
+
+    it('keeps whole weeks across the DST change', () => {
+      const summary = calculate(
+        [],
+        {},
+        {
+          from: '2026-03-29',
+          to: '2026-03-30',
+        },
+      );
+
+      expect(summary.weeks.map((week) => week.weekStart)).toEqual([
+        '2026-03-23',
+        '2026-03-30',
+      ]);
+    });
+  });
+
+  describe('days off', () => {
+    it('drops a holiday from the expected time and the weekly threshold', () => {
+      const summary = calculate(
+        [booked('2026-03-23', 120)],
+        {},
+        undefined,
+        new Map([['2026-03-23', 1]]),
+      );
+
+      expect(day(summary, '2026-03-23')).toMatchObject({
+        timeOff: 1,
+        expectedMinutes: 0,
+        regularMinutes: 0,
+        overtimeMinutes: 120,
+      });
+      expect(summary.weeks[0]).toMatchObject({
+        thresholdMinutes: 1920,
+        expectedMinutes: 1920,
+      });
+    });
+
+    it('shortens the day and the threshold for half a day off', () => {
+      const summary = calculate(
+        [booked('2026-03-24', 300)],
+        {},
+        undefined,
+        new Map([['2026-03-24', 0.5]]),
+      );
+
+      expect(day(summary, '2026-03-24')).toMatchObject({
+        timeOff: 0.5,
+        expectedMinutes: 240,
+        regularMinutes: 240,
+        overtimeMinutes: 60,
+      });
+      expect(summary.weeks[0].thresholdMinutes).toBe(2160);
+    });
+
+    it('does not count a day fully off towards the working days', () => {
+      const summary = calculate(
+        WEEK.slice(1, 5).map((date) => booked(date, 480)),
+        { workingDaysPerWeek: 4 },
+        undefined,
+        new Map([['2026-03-23', 1]]),
+      );
+
+      expect(summary.weeks[0]).toMatchObject({
+        thresholdMinutes: 1920,
+        regularMinutes: 1920,
+        overtimeMinutes: 0,
+      });
+      expect(day(summary, '2026-03-27').expectedMinutes).toBe(480);
+    });
+
+    it('ignores days off outside the work week', () => {
+      const summary = calculate(
+        [],
+        {},
+        undefined,
+        new Map([['2026-03-28', 1]]),
+      );
+
+      expect(summary.weeks[0].thresholdMinutes).toBe(2400);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { Injectable } from '@nestjs/common';
+import { DateTime } from 'luxon';
+import {
+  DaySummary,
+  DaysOff,
+  OvertimeSettings,
+  OvertimeSummary,
+  WeekSummary,
+  WorkedMinutes,
+  WorkedPeriod,
+} from './interfaces/overtime.interface';
+
+const MS_PER_MINUTE = 60_000;
+
+/**
+ * Splits worked time into regular and overtime minutes. Pure: everything
+ * it needs is passed in, nothing is read from the database.
+ *
+ * Days and weeks are taken in the user's timezone, so a DST day simply
+ * has 23 or 25 hours, and weeks start on `workWeekStartDay`. Per week:
+ *
+ * - on days within the work week, minutes beyond `defaultWorkHours` are
+ *   overtime, and so is every minute of a day worked beyond
+ *   `workingDaysPerWeek`
+ * - every minute worked on days outside the work week is overtime
+ * - once the regular minutes of the week reach `overtimeThreshold`
+ *   hours, the remaining minutes of the week are overtime
+ *
+ * Holidays and approved leave shorten the day they fall on, and the
+ * weekly threshold by the same amount. A scheduled day that is fully off
+ * does not count towards `workingDaysPerWeek`, and any work on it is
+ * overtime.
+ */
+@Injectable()
+export class OvertimeService {
+  /**
+   * The whole weeks overlapping the range, as local days. Periods must
+   * cover these weeks for the weekly threshold to be exact.
+   *
+   * @returns the first day of the first week and the last day of the last week
+   */
+  getWeekWindow(
+    from: string,
+    to: string,
+    settings: Pick<OvertimeSettings, 'timezone' | 'workWeekStartDay'>,
+  ): { start: string; end: string } {
+    const start = this.startOfWeek(
+      DateTime.fromISO(from, { zone: settings.timezone }),
+      settings.workWeekStartDay,
+    );
+    const end = this.startOfWeek(
+      DateTime.fromISO(to, { zone: settings.timezone }),
+      settings.workWeekStartDay,
+    ).plus({ days: 6 });
+
+    return { start: start.toISODate()!, end: end.toISODate()! };
+  }
+
+  calculate(
+    periods: WorkedPeriod[],
+    settings: OvertimeSettings,
+    range: { from: string; to: string },
+    daysOff: DaysOff = new Map(),
+  ): OvertimeSummary {
+    const minutesByDay = this.groupByDay(periods, settings.timezone);
+    const window = this.getWeekWindow(range.from, range.to, settings);
+
+    const dailyLimit = settings.defaultWorkHours * 60;
+    const weeklyLimit = settings.overtimeThreshold * 60;
+
+    const days: DaySummary[] = [];
+    const weeks: WeekSummary[] = [];
+
+    let weekStart = DateTime.fromISO(window.start, { zone: settings.timezone });
+    const lastWeekStart = DateTime.fromISO(window.end, {
+      zone: settings.timezone,
+    }).minus({ days: 6 });
+
+    while (weekStart <= lastWeekStart) {
+      const dates = Array.from({ length: 7 }, (_, offset) =>
+        weekStart.plus({ days: offset }),
+      );
+      const scheduledDays = dates.filter((day) =>
+        this.isScheduled(day, settings),
+      );
+
+      // Time off on the scheduled days comes off the weekly threshold
+      const minutesOff = scheduledDays
+        .slice(0, settings.workingDaysPerWeek)
+        .reduce(
+          (total, day) =>
+            total + (daysOff.get(day.toISODate()!) ?? 0) * dailyLimit,
+          0,
+        );
+
+      const week: WeekSummary = {
+        weekStart: weekStart.toISODate()!,
+        weekEnd: weekStart.plus({ days: 6 }).toISODate()!,
+        thresholdMinutes: Math.max(0, Math.round(weeklyLimit - minutesOff)),
+        expectedMinutes: 0,
+        ...this.emptyMinutes(),
+      };
+      let regularDays = 0;
+      let expectedDays = 0;
+
+      for (const day of dates) {
+        const date = day.toISODate()!;
+        const weekday = day.weekday % 7;
+        const scheduled = this.isScheduled(day, settings);
+        const worked = minutesByDay.get(date) ?? 0;
+        const timeOff = Math.min(1, daysOff.get(date) ?? 0);
+        const dayLimit = Math.round(dailyLimit * (1 - timeOff));
+
+        let expected = 0;
+        if (
+          scheduled &&
+          timeOff < 1 &&
+          expectedDays < settings.workingDaysPerWeek
+        ) {
+          expectedDays++;
+          expected = dayLimit;
+        }
+
+        let regular = 0;
+        if (
+          scheduled &&
+          timeOff < 1 &&
+          worked > 0 &&
+          regularDays < settings.workingDaysPerWeek
+        ) {
+          regularDays++;
+          regular = Math.min(worked, dayLimit);
+        }
+
+        // Regular time beyond the weekly threshold becomes overtime
+        regular = Math.min(
+          regular,
+          Math.max(0, week.thresholdMinutes - week.regularMinutes),
+        );
+
+        const summary: DaySummary = {
+          date,
+          weekday,
+          scheduled,
+          timeOff,
+          expectedMinutes: expected,
+          workedMinutes: worked,
+          regularMinutes: regular,
+          overtimeMinutes: worked - regular,
+        };
+        this.addMinutes(week, summary);
+        week.expectedMinutes += expected;
+
+        if (date >= range.from && date <= range.to) {
+          days.push(summary);
+        }
+      }
+
+      weeks.push(week);
+      weekStart = weekStart.plus({ weeks: 1 });
+    }
+
+    const totals = { ...this.emptyMinutes(), expectedMinutes: 0 };
+    for (const day of days) {
+      this.addMinutes(totals, day);
+      totals.expectedMinutes += day.expectedMinutes;
+    }
+
+    return {
+      timezone: settings.timezone,
+      from: range.from,
+      to: range.to,
+      totals,
+      days,
+      weeks,
+    };
+  }
+
+  /**
+   * Worked minutes per local day. Periods running past midnight are split
+   * at the local day boundaries.
+   */
+  private groupByDay(
+    periods: WorkedPeriod[],
+    timezone: string,
+  ): Map<string, number> {
+    const minutesByDay = new Map<string, number>();
+    const add = (date: string, minutes: number) =>
+      minutesByDay.set(date, (minutesByDay.get(date) ?? 0) + minutes);
+
+    for (const period of periods) {
+      if (!period.startedAt || !period.endedAt) {
+        add(period.date.toISOString().slice(0, 10), period.durationMinutes);
+        continue;
+      }
+
+      const end = DateTime.fromJSDate(period.endedAt, { zone: timezone });
+      let cursor = DateTime.fromJSDate(period.startedAt, { zone: timezone });
+      let remaining = period.durationMinutes;
+
+      while (remaining > 0 && cursor < end) {
+        const nextDay = cursor.startOf('day').plus({ days: 1 });
+        if (nextDay >= end) {
+          // The last day takes the rest, so rounding never loses a minute
+          add(cursor.toISODate()!, remaining);
+          break;
+        }
+
+        const minutes = Math.min(
+          remaining,
+          Math.round(nextDay.diff(cursor).toMillis() / MS_PER_MINUTE),
+        );
+        add(cursor.toISODate()!, minutes);
+        remaining -= minutes;
+        cursor = nextDay;
+      }
+    }
+
+    return minutesByDay;
+  }
+
+  private isScheduled(day: DateTime, settings: OvertimeSettings): boolean {
+    const weekday = day.weekday % 7;
+
+    return (
+      weekday >= settings.workWeekStartDay && weekday <= settings.workWeekEndDay
+    );
+  }
+
+  /**
+   * Start of the local day that begins the week containing the date
+   *
+   * @param weekStartDay Sunday = 0
+   */
+  private startOfWeek(date: DateTime, weekStartDay: number): DateTime {
+    // Luxon numbers weekdays from Monday = 1 to Sunday = 7
+    const offset = (date.weekday - weekStartDay + 7) % 7;
+
+    return date.startOf('day').minus({ days: offset });
+  }
+
+  private emptyMinutes(): WorkedMinutes {
+    return { workedMinutes: 0, regularMinutes: 0, overtimeMinutes: 0 };
+  }
+
+  private addMinutes(target: WorkedMinutes, minutes: WorkedMinutes): void {
+    target.workedMinutes += minutes.workedMinutes;
+    target.regularMinutes += minutes.regularMinutes;
+    target.overtimeMinutes += minutes.overtimeMinutes;
+  }
+}
@@ -0,0 +1,59 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { JobLockService } from 'src/common/scheduler/job-lock.service';
+import { ShiftService } from './shift.service';
+
+// Locks expire before the next run, even if an instance dies mid-job
+const JOB_LOCK_TTL_SECONDS = 55;
+
+@Injectable()
+export class ShiftSchedulerService {
+  private readonly logger = new Logger(ShiftSchedulerService.name);
+
+  constructor(
+    private readonly shiftService: ShiftService,
+    private readonly jobLockService: JobLockService,
+  ) {}
+
+  /**
+   * Close shifts left open past their expected end
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async autoClockOut(): Promise<void> {
+    try {
+      await this.jobLockService.runExclusive(
+        'auto-clock-out',
+        JOB_LOCK_TTL_SECONDS,
+        async () => {
+          const count = await this.shiftService.autoClockOutExpired();
+          if (count > 0) {
+            this.logger.log(`Automatically clocked out ${count} shift(s)`);
+          }
+        },
+      );
+    } catch (error) {
+      this.logger.error('Failed to clock out expired shifts', error);
+    }
+  }
+
+  /**
+   * Remind users that their shift is about to end
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async remindShiftEnd(): Promise<void> {
+    try {
+      await this.jobLockService.runExclusive(
+        'shift-end-reminders',
+        JOB_LOCK_TTL_SECONDS,
+        async () => {
+          const count = await this.shiftService.sendShiftEndReminders();
+          if (count > 0) {
+            this.logger.log(`Queued ${count} shift end reminder(s)`);
+          }
+        },
+      );
+    } catch (error) {
+      this.logger.error('Failed to queue shift end reminders', error);
+    }
+  }
+}
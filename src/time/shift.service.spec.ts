@@ -0,0 +1,364 @@
+import { BreakType, Prisma, UserPreferences } from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { NotificationService } from 'src/notification/notification.service';
+import { UserPreferencesService } from 'src/user/user-preferences.service';
+import { ShiftService } from './shift.service';
+
+interface FakeBreak {
+  id: string;
+  type: BreakType;
+  startedAt: Date;
+  endedAt: Date | null;
+  autoEnded: boolean;
+}
+
+interface FakeShift {
+  id: string;
+  userId: string;
+  workspaceId: string;
+  clockInAt: Date;
+  clockOutAt: Date | null;
+  workedMinutes: number | null;
+  autoClockedOut: boolean;
+  reminderSentAt: Date | null;
+  breaks: FakeBreak[];
+  preferences: UserPreferences;
+}
+
+type ShiftWhere = {
+  id?: string;
+  clockOutAt?: null;
+  reminderSentAt?: null;
+  user?: {
+    preferences?: { autoClockOut?: boolean; remindersEnabled?: boolean };
+  };
+};
+
+/**
+ * Stands in for ClockService, so each test sets the time the jobs run at
+ */
+class FakeClock {
+  constructor(private current: Date) {}
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(time: string): void {
+    this.current = new Date(time);
+  }
+}
+
+/**
+ * The shift queries of the jobs, against rows held in memory
+ */
+function createPrisma(shifts: FakeShift[]) {
+  const matches = (shift: FakeShift, where: ShiftWhere) =>
+    (where.id === undefined || shift.id === where.id) &&
+    (where.clockOutAt !== null || shift.clockOutAt === null) &&
+    (where.reminderSentAt !== null || shift.reminderSentAt === null) &&
+    Object.entries(where.user?.preferences ?? {}).every(
+      ([field, value]) =>
+        shift.preferences[field as keyof UserPreferences] === value,
+    );
+
+  const toPayload = ({ preferences, ...shift }: FakeShift) => ({
+    ...shift,
+    breaks: shift.breaks.map((shiftBreak) => ({ ...shiftBreak })),
+    user: { preferences: { ...preferences } },
+  });
+
+  return {
+    shift: {
+      findMany: jest.fn(({ where }: { where: ShiftWhere }) =>
+        Promise.resolve(
+          shifts.filter((shift) => matches(shift, where)).map(toPayload),
+        ),
+      ),
+      update: jest.fn(
+        ({
+          where,
+          data,
+        }: {
+          where: ShiftWhere;
+          data: Partial<FakeShift> & {
+            breaks?: {
+              update: { where: { id: string }; data: Partial<FakeBreak> };
+            };
+          };
+        }) => {
+          const shift = shifts.find((row) => matches(row, where));
+          if (!shift) {
+            return Promise.reject(
+              new Prisma.PrismaClientKnownRequestError('Record not found', {
+                code: 'P2025',
+                clientVersion: 'test',
+              }),
+            );
+          }
+
+          const { breaks, ...fields } = data;
+          Object.assign(shift, fields);
+          if (breaks) {
+            Object.assign(
+              shift.breaks.find((row) => row.id === breaks.update.where.id)!,
+              breaks.update.data,
+            );
+          }
+          return Promise.resolve(toPayload(shift));
+        },
+      ),
+      updateMany: jest.fn(
+        ({ where, data }: { where: ShiftWhere; data: Partial<FakeShift> }) => {
+          const matched = shifts.filter((shift) => matches(shift, where));
+          matched.forEach((shift) => Object.assign(shift, data));
+          return Promise.resolve({ count: matched.length });
+        },
+      ),
+    },
+  };
+}
+
+function preferences(
+  overrides: Partial<UserPreferences> = {},
+): UserPreferences {
+  return {
+    userId: 'user-1',
+    defaultWorkHours: 8,
+    autoClockOut: true,
+    autoPauseBreaks: true,
+    lunchDurationMinutes: 30,
+    breakDurationMinutes: 15,
+    remindersEnabled: true,
+    reminderBeforeClockOut: 15,
+    emailNotifications: true,
+    smsNotifications: false,
+    pushNotifications: false,
+    ...overrides,
+  } as UserPreferences;
+}
+
+function shift(overrides: Partial<FakeShift> = {}): FakeShift {
+  return {
+    id: 'shift-1',
+    userId: 'user-1',
+    workspaceId: 'workspace-1',
+    clockInAt: new Date('2026-02-02T08:00:00Z'),
+    clockOutAt: null,
+    workedMinutes: null,
+    autoClockedOut: false,
+    reminderSentAt: null,
+    breaks: [],
+    preferences: preferences(),
+    ...overrides,
+  };
+}
+
+describe('ShiftService', () => {
+  let clock: FakeClock;
+  let shifts: FakeShift[];
+  let prisma: ReturnType<typeof createPrisma>;
+  let notificationService: { enqueue: jest.Mock };
+  let userPreferencesService: { getPreferences: jest.Mock };
+  let service: ShiftService;
+
+  function setup(...rows: FakeShift[]) {
+    shifts = rows;
+    prisma = createPrisma(shifts);
+    service = new ShiftService(
+      prisma as unknown as PrismaService,
+      userPreferencesService as unknown as UserPreferencesService,
+      notificationService as unknown as NotificationService,
+      clock,
+    );
+  }
+
+  beforeEach(() => {
+    clock = new FakeClock(new Date('2026-02-02T12:00:00Z'));
+    notificationService = { enqueue: jest.fn().mockResolvedValue(true) };
+    userPreferencesService = { getPreferences: jest.fn() };
+  });
+
+  describe('autoClockOutExpired', () => {
+    it('leaves a shift open until its expected end', async () => {
+      setup(shift());
+      clock.set('2026-02-02T15:59:00Z');
+
+      await expect(service.autoClockOutExpired()).resolves.toBe(0);
+      expect(shifts[0].clockOutAt).toBeNull();
+    });
+
+    it('closes an expired shift at its expected end, not when the job runs', async () => {
+      setup(shift());
+      clock.set('2026-02-02T17:30:00Z');
+
+      await expect(service.autoClockOutExpired()).resolves.toBe(1);
+      expect(shifts[0]).toMatchObject({
+        clockOutAt: new Date('2026-02-02T16:00:00Z'),
+        workedMinutes: 480,
+        autoClockedOut: true,
+      });
+    });
+
+    it('extends the expected end by breaks that pause the shift', async () => {
+      setup(
+        shift({
+          breaks: [
+            {
+              id: 'break-1',
+              type: BreakType.LUNCH,
+              startedAt: new Date('2026-02-02T12:00:00Z'),
+              endedAt: new Date('2026-02-02T12:30:00Z'),
+              autoEnded: false,
+            },
+          ],
+        }),
+      );
+
+      clock.set('2026-02-02T16:15:00Z');
+      await expect(service.autoClockOutExpired()).resolves.toBe(0);
+
+      clock.set('2026-02-02T16:30:00Z');
+      await expect(service.autoClockOutExpired()).resolves.toBe(1);
+      expect(shifts[0]).toMatchObject({
+        clockOutAt: new Date('2026-02-02T16:30:00Z'),
+        workedMinutes: 480,
+      });
+    });
+
+    it('ends a running break at its planned end', async () => {
+      setup(
+        shift({
+          breaks: [
+            {
+              id: 'break-1',
+              type: BreakType.SHORT,
+              startedAt: new Date('2026-02-02T15:50:00Z'),
+              endedAt: null,
+              autoEnded: false,
+            },
+          ],
+        }),
+      );
+      clock.set('2026-02-02T18:00:00Z');
+
+      await expect(service.autoClockOutExpired()).resolves.toBe(1);
+      expect(shifts[0].clockOutAt).toEqual(new Date('2026-02-02T16:15:00Z'));
+      expect(shifts[0].breaks[0]).toMatchObject({
+        endedAt: new Date('2026-02-02T16:05:00Z'),
+        autoEnded: true,
+      });
+    });
+
+    it('gives the same result when run again', async () => {
+      setup(shift());
+      clock.set('2026-02-02T17:30:00Z');
+      await service.autoClockOutExpired();
+
+      clock.set('2026-02-02T17:31:00Z');
+
+      await expect(service.autoClockOutExpired()).resolves.toBe(0);
+      expect(shifts[0].clockOutAt).toEqual(new Date('2026-02-02T16:00:00Z'));
+    });
+
+    it('skips users without automatic clock-out', async () => {
+      setup(shift({ preferences: preferences({ autoClockOut: false }) }));
+      clock.set('2026-02-02T17:30:00Z');
+
+      await expect(service.autoClockOutExpired()).resolves.toBe(0);
+      expect(shifts[0].clockOutAt).toBeNull();
+    });
+
+    it('skips a shift clocked out while the job ran', async () => {
+      setup(shift(), shift({ id: 'shift-2', userId: 'user-2' }));
+      clock.set('2026-02-02T17:30:00Z');
+      prisma.shift.findMany.mockImplementationOnce(async (args) => {
+        const found = await createPrisma(shifts).shift.findMany(args);
+        shifts[0].clockOutAt = new Date('2026-02-02T17:29:00Z');
+        return found;
+      });
+
+      await expect(service.autoClockOutExpired()).resolves.toBe(1);
+      expect(shifts[0].autoClockedOut).toBe(false);
+      expect(shifts[1].autoClockedOut).toBe(true);
+    });
+  });
+
+  describe('sendShiftEndReminders', () => {
+    it('waits until the reminder is due', async () => {
+      setup(shift());
+      clock.set('2026-02-02T15:44:00Z');
+
+      await expect(service.sendShiftEndReminders()).resolves.toBe(0);
+      expect(notificationService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('queues the reminder before the expected end', async () => {
+      setup(shift());
+      clock.set('2026-02-02T15:45:00Z');
+
+      await expect(service.sendShiftEndReminders()).resolves.toBe(1);
+      expect(notificationService.enqueue).toHaveBeenCalledWith(
+        'SHIFT_END_REMINDER',
+        expect.objectContaining({ userId: 'user-1' }),
+        {
+          shiftId: 'shift-1',
+          workspaceId: 'workspace-1',
+          expectedEnd: '2026-02-02T16:00:00.000Z',
+          autoClockOut: true,
+        },
+      );
+      expect(shifts[0].reminderSentAt).toEqual(
+        new Date('2026-02-02T15:45:00Z'),
+      );
+    });
+
+    it('reminds each shift only once', async () => {
+      setup(shift());
+      clock.set('2026-02-02T15:45:00Z');
+      await service.sendShiftEndReminders();
+
+      clock.set('2026-02-02T15:50:00Z');
+
+      await expect(service.sendShiftEndReminders()).resolves.toBe(0);
+      expect(notificationService.enqueue).toHaveBeenCalledTimes(1);
+    });
+
+    it('reminds only once when two runs overlap', async () => {
+      setup(shift());
+      clock.set('2026-02-02T15:45:00Z');
+
+      const counts = await Promise.all([
+        service.sendShiftEndReminders(),
+        service.sendShiftEndReminders(),
+      ]);
+
+      expect(counts.sort()).toEqual([0, 1]);
+      expect(notificationService.enqueue).toHaveBeenCalledTimes(1);
+    });
+
+    it('skips shifts past their expected end', async () => {
+      setup(shift());
+      clock.set('2026-02-02T16:00:00Z');
+
+      await expect(service.sendShiftEndReminders()).resolves.toBe(0);
+      expect(shifts[0].reminderSentAt).toBeNull();
+    });
+
+    it('skips users with reminders turned off', async () => {
+      setup(shift({ preferences: preferences({ remindersEnabled: false }) }));
+      clock.set('2026-02-02T15:45:00Z');
+
+      await expect(service.sendShiftEndReminders()).resolves.toBe(0);
+    });
+
+    it('reads the preferences together with the shifts', async () => {
+      setup(shift(), shift({ id: 'shift-2', userId: 'user-2' }));
+      clock.set('2026-02-02T15:45:00Z');
+
+      await expect(service.sendShiftEndReminders()).resolves.toBe(2);
+      expect(prisma.shift.findMany).toHaveBeenCalledTimes(1);
+      expect(userPreferencesService.getPreferences).not.toHaveBeenCalled();
+    });
+  });
+});
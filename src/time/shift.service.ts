@@ -0,0 +1,557 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+} from '@nestjs/common';
+import { DateTime } from 'luxon';
+import {
+  BreakType,
+  Prisma,
+  ShiftBreak,
+  UserPreferences,
+} from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { ClockService } from 'src/common/clock/clock.service';
+import { NotificationService } from 'src/notification/notification.service';
+import { UserPreferencesService } from 'src/user/user-preferences.service';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { ClockInDto } from './dto/clock-in.dto';
+import { ClockOutDto } from './dto/clock-out.dto';
+import { StartBreakDto } from './dto/start-break.dto';
+import { ListShiftsQueryDto } from './dto/list-shifts-query.dto';
+import { LateClockInException } from './exceptions/late-clock-in.exception';
+
+const SHIFT_INCLUDE = {
+  breaks: { orderBy: { startedAt: 'asc' } },
+} satisfies Prisma.ShiftInclude;
+
+type ShiftWithBreaks = Prisma.ShiftGetPayload<{
+  include: typeof SHIFT_INCLUDE;
+}>;
+
+const MS_PER_MINUTE = 60_000;
+
+/**
+ * Clock-in / clock-out shifts and their breaks. Times are stored in UTC
+ * together with the timezone the user clocked in with.
+ */
+@Injectable()
+export class ShiftService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly userPreferencesService: UserPreferencesService,
+    private readonly notificationService: NotificationService,
+    private readonly clock: ClockService,
+  ) {}
+
+  async getCurrentShift(context: WorkspaceContext, userId: string) {
+    const now = this.clock.now();
+    const preferences =
+      await this.userPreferencesService.getPreferences(userId);
+
+    const shift = await this.findOpenShift(context.id, userId);
+    if (!shift) {
+      return null;
+    }
+
+    const settled = await this.settleBreaks(shift, preferences, now);
+
+    return this.toResponse(settled, preferences, now);
+  }
+
+  async listShifts(
+    context: WorkspaceContext,
+    userId: string,
+    query: ListShiftsQueryDto,
+  ) {
+    const now = this.clock.now();
+    const preferences =
+      await this.userPreferencesService.getPreferences(userId);
+
+    const where: Prisma.ShiftWhereInput = {
+      workspaceId: context.id,
+      userId,
+      clockInAt: {
+        gte: query.from ? new Date(query.from) : undefined,
+        lt: query.to ? new Date(query.to) : undefined,
+      },
+    };
+
+    const [shifts, total] = await this.prisma.$transaction([
+      this.prisma.shift.findMany({
+        where,
+        include: SHIFT_INCLUDE,
+        orderBy: { clockInAt: 'desc' },
+        skip: query.skip,
+        take: query.limit,
+      }),
+      this.prisma.shift.count({ where }),
+    ]);
+
+    return {
+      shifts: shifts.map((shift) => this.toResponse(shift, preferences, now)),
+      meta: query.toMeta(total),
+    };
+  }
+
+  /**
+   * Start a shift. A user has at most one open shift: a forgotten one is
+   * closed automatically unless the preferences require clocking out.
+   */
+  async clockIn(context: WorkspaceContext, userId: string, data: ClockInDto) {
+    const now = this.clock.now();
+    const preferences =
+      await this.userPreferencesService.getPreferences(userId);
+
+    const open = await this.prisma.shift.findFirst({
+      where: { userId, clockOutAt: null },
+      include: SHIFT_INCLUDE,
+    });
+    if (open) {
+      if (preferences.requireClockOut) {
+        throw new ConflictException(
+          'You are already clocked in. Clock out first.',
+        );
+      }
+
+      // The forgotten shift ends after a regular work day at the latest
+      const expectedEnd = this.getExpectedEnd(open, preferences, now);
+      await this.closeShift(
+        open,
+        preferences,
+        expectedEnd < now ? expectedEnd : now,
+        { autoClockedOut: true },
+      );
+    }
+
+    const lateMinutes = this.getLateMinutes(preferences, now);
+    if (lateMinutes > 0 && !preferences.allowLateClockIn) {
+      throw new LateClockInException(
+        preferences.workDayStartTime,
+        lateMinutes,
+        preferences.lateClockInTolerance,
+      );
+    }
+
+    try {
+      const shift = await this.prisma.shift.create({
+        data: {
+          userId,
+          workspaceId: context.id,
+          clockInAt: now,
+          timezone: preferences.timezone,
+          isLate: lateMinutes > 0,
+          lateMinutes,
+          clockInNotes: data.notes?.trim() || null,
+        },
+        include: SHIFT_INCLUDE,
+      });
+
+      return this.toResponse(shift, preferences, now);
+    } catch (error) {
+      // A concurrent clock-in won the open shift index
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'You are already clocked in. Clock out first.',
+        );
+      }
+      throw error;
+    }
+  }
+
+  async clockOut(context: WorkspaceContext, userId: string, data: ClockOutDto) {
+    const now = this.clock.now();
+    const preferences =
+      await this.userPreferencesService.getPreferences(userId);
+    const shift = await this.requireOpenShift(context.id, userId);
+
+    const notes = data.notes?.trim();
+    if (preferences.requireNotesOnClockOut && !notes) {
+      throw new BadRequestException('Notes are required when clocking out');
+    }
+
+    const closed = await this.closeShift(shift, preferences, now, {
+      clockOutNotes: notes || null,
+    });
+
+    return this.toResponse(closed, preferences, now);
+  }
+
+  async startBreak(
+    context: WorkspaceContext,
+    userId: string,
+    data: StartBreakDto,
+  ) {
+    const now = this.clock.now();
+    const preferences =
+      await this.userPreferencesService.getPreferences(userId);
+    const shift = await this.settleBreaks(
+      await this.requireOpenShift(context.id, userId),
+      preferences,
+      now,
+    );
+
+    if (shift.breaks.some((shiftBreak) => !shiftBreak.endedAt)) {
+      throw new ConflictException('You are already on a break');
+    }
+
+    const type = data.type ?? BreakType.SHORT;
+    if (
+      type === BreakType.LUNCH &&
+      shift.breaks.some((shiftBreak) => shiftBreak.type === BreakType.LUNCH)
+    ) {
+      throw new ConflictException(
+        'You already took a lunch break during this shift',
+      );
+    }
+
+    const updated = await this.prisma.shift.update({
+      where: { id: shift.id },
+      data: { breaks: { create: { type, startedAt: now } } },
+      include: SHIFT_INCLUDE,
+    });
+
+    return this.toResponse(updated, preferences, now);
+  }
+
+  async endBreak(context: WorkspaceContext, userId: string) {
+    const now = this.clock.now();
+    const preferences =
+      await this.userPreferencesService.getPreferences(userId);
+    const shift = await this.requireOpenShift(context.id, userId);
+
+    const openBreak = shift.breaks.find((shiftBreak) => !shiftBreak.endedAt);
+    if (!openBreak) {
+      throw new ConflictException('You are not on a break');
+    }
+
+    const updated = await this.prisma.shift.update({
+      where: { id: shift.id },
+      data: {
+        breaks: {
+          update: {
+            where: { id: openBreak.id },
+            data: this.getBreakEnd(openBreak, preferences, now),
+          },
+        },
+      },
+      include: SHIFT_INCLUDE,
+    });
+
+    return this.toResponse(updated, preferences, now);
+  }
+
+  /**
+   * Close the open shifts of users with autoClockOut enabled once they
+   * run past their expected end. The shifts end at the expected end, so
+   * running this again or late gives the same result.
+   *
+   * @returns the number of closed shifts
+   */
+  async autoClockOutExpired(): Promise<number> {
+    const now = this.clock.now();
+    const shifts = await this.prisma.shift.findMany({
+      where: {
+        clockOutAt: null,
+        user: { preferences: { autoClockOut: true } },
+      },
+      include: {
+        ...SHIFT_INCLUDE,
+        user: { select: { preferences: true } },
+      },
+    });
+
+    let closed = 0;
+    for (const { user, ...shift } of shifts) {
+      const preferences = user.preferences!;
+      const expectedEnd = this.getExpectedEnd(shift, preferences, now);
+      if (expectedEnd > now) {
+        continue;
+      }
+
+      try {
+        await this.closeShift(shift, preferences, expectedEnd, {
+          autoClockedOut: true,
+        });
+        closed++;
+      } catch (error) {
+        // The user clocked out in the meantime
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2025'
+        ) {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return closed;
+  }
+
+  /**
+   * Queue a reminder for open shifts ending within the user's
+   * reminderBeforeClockOut minutes. Each shift is reminded at most once.
+   *
+   * @returns the number of queued reminders
+   */
+  async sendShiftEndReminders(): Promise<number> {
+    const now = this.clock.now();
+    // Clocking in creates the preferences, so every open shift has them
+    const shifts = await this.prisma.shift.findMany({
+      where: {
+        clockOutAt: null,
+        reminderSentAt: null,
+        user: { preferences: { remindersEnabled: true } },
+      },
+      include: {
+        ...SHIFT_INCLUDE,
+        user: { select: { preferences: true } },
+      },
+    });
+
+    let sent = 0;
+    for (const { user, ...shift } of shifts) {
+      const preferences = user.preferences!;
+      const expectedEnd = this.getExpectedEnd(shift, preferences, now);
+      const remindAt = new Date(
+        expectedEnd.getTime() -
+          preferences.reminderBeforeClockOut * MS_PER_MINUTE,
+      );
+      if (now < remindAt || now >= expectedEnd) {
+        continue;
+      }
+
+      // Claim the reminder first so a retry never sends it twice
+      const { count } = await this.prisma.shift.updateMany({
+        where: { id: shift.id, reminderSentAt: null },
+        data: { reminderSentAt: now },
+      });
+      if (count === 0) {
+        continue;
+      }
+
+      await this.notificationService.enqueue(
+        'SHIFT_END_REMINDER',
+        preferences,
+        {
+          shiftId: shift.id,
+          workspaceId: shift.workspaceId,
+          expectedEnd: expectedEnd.toISOString(),
+          autoClockOut: preferences.autoClockOut,
+        },
+      );
+      sent++;
+    }
+
+    return sent;
+  }
+
+  private async findOpenShift(
+    workspaceId: string,
+    userId: string,
+  ): Promise<ShiftWithBreaks | null> {
+    return this.prisma.shift.findFirst({
+      where: { workspaceId, userId, clockOutAt: null },
+      include: SHIFT_INCLUDE,
+    });
+  }
+
+  private async requireOpenShift(
+    workspaceId: string,
+    userId: string,
+  ): Promise<ShiftWithBreaks> {
+    const shift = await this.findOpenShift(workspaceId, userId);
+    if (!shift) {
+      throw new ConflictException('You are not clocked in');
+    }
+
+    return shift;
+  }
+
+  /**
+   * End the shift at the given time, together with a running break
+   */
+  private async closeShift(
+    shift: ShiftWithBreaks,
+    preferences: UserPreferences,
+    at: Date,
+    data: Pick<Prisma.ShiftUpdateInput, 'clockOutNotes' | 'autoClockedOut'>,
+  ): Promise<ShiftWithBreaks> {
+    const openBreak = shift.breaks.find((shiftBreak) => !shiftBreak.endedAt);
+    const breakEnd = openBreak && this.getBreakEnd(openBreak, preferences, at);
+
+    return this.prisma.shift.update({
+      where: { id: shift.id, clockOutAt: null },
+      data: {
+        ...data,
+        clockOutAt: at,
+        workedMinutes: this.getWorkedMinutes(shift, preferences, at),
+        ...(openBreak && {
+          breaks: { update: { where: { id: openBreak.id }, data: breakEnd! } },
+        }),
+      },
+      include: SHIFT_INCLUDE,
+    });
+  }
+
+  /**
+   * When the shift is expected to end: a regular work day after clocking
+   * in, extended by the breaks when they pause the shift
+   */
+  private getExpectedEnd(
+    shift: ShiftWithBreaks,
+    preferences: UserPreferences,
+    now: Date,
+  ): Date {
+    const breakMinutes = preferences.autoPauseBreaks
+      ? this.getBreakMinutes(shift, preferences, now)
+      : 0;
+
+    return new Date(
+      shift.clockInAt.getTime() +
+        (preferences.defaultWorkHours * 60 + breakMinutes) * MS_PER_MINUTE,
+    );
+  }
+
+  /**
+   * End a running break that has outlasted its planned duration
+   */
+  private async settleBreaks(
+    shift: ShiftWithBreaks,
+    preferences: UserPreferences,
+    now: Date,
+  ): Promise<ShiftWithBreaks> {
+    const openBreak = shift.breaks.find((shiftBreak) => !shiftBreak.endedAt);
+    if (!openBreak) {
+      return shift;
+    }
+
+    const end = this.getBreakEnd(openBreak, preferences, now);
+    if (!end.autoEnded) {
+      return shift;
+    }
+
+    return this.prisma.shift.update({
+      where: { id: shift.id },
+      data: {
+        breaks: { update: { where: { id: openBreak.id }, data: end } },
+      },
+      include: SHIFT_INCLUDE,
+    });
+  }
+
+  /**
+   * When a break ended, given it ends now: breaks are capped at the
+   * lunch or break duration of the user preferences
+   */
+  private getBreakEnd(
+    shiftBreak: ShiftBreak,
+    preferences: UserPreferences,
+    at: Date,
+  ): { endedAt: Date; autoEnded: boolean } {
+    const plannedMinutes =
+      shiftBreak.type === BreakType.LUNCH
+        ? preferences.lunchDurationMinutes
+        : preferences.breakDurationMinutes;
+    const plannedEnd = new Date(
+      shiftBreak.startedAt.getTime() + plannedMinutes * MS_PER_MINUTE,
+    );
+
+    return plannedEnd < at
+      ? { endedAt: plannedEnd, autoEnded: true }
+      : { endedAt: at, autoEnded: false };
+  }
+
+  private getBreakMinutes(
+    shift: ShiftWithBreaks,
+    preferences: UserPreferences,
+    at: Date,
+  ): number {
+    const total = shift.breaks.reduce((sum, shiftBreak) => {
+      const endedAt =
+        shiftBreak.endedAt ??
+        this.getBreakEnd(shiftBreak, preferences, at).endedAt;
+
+      return sum + (endedAt.getTime() - shiftBreak.startedAt.getTime());
+    }, 0);
+
+    return Math.floor(total / MS_PER_MINUTE);
+  }
+
+  /**
+   * Minutes worked until the given time. Breaks pause the shift when
+   * autoPauseBreaks is on and count as worked time otherwise.
+   */
+  private getWorkedMinutes(
+    shift: ShiftWithBreaks,
+    preferences: UserPreferences,
+    at: Date,
+  ): number {
+    const end = shift.clockOutAt ?? at;
+    const total = Math.floor(
+      (end.getTime() - shift.clockInAt.getTime()) / MS_PER_MINUTE,
+    );
+
+    return preferences.autoPauseBreaks
+      ? total - this.getBreakMinutes(shift, preferences, end)
+      : total;
+  }
+
+  /**
+   * Minutes past the scheduled start of the work day, or 0 when within
+   * the tolerance or on a day outside the work week
+   */
+  private getLateMinutes(preferences: UserPreferences, at: Date): number {
+    const local = DateTime.fromJSDate(at, { zone: preferences.timezone });
+
+    // Luxon numbers weekdays from Monday = 1 to Sunday = 7
+    const weekday = local.weekday % 7;
+    if (
+      weekday < preferences.workWeekStartDay ||
+      weekday > preferences.workWeekEndDay
+    ) {
+      return 0;
+    }
+
+    const [hour, minute] = preferences.workDayStartTime.split(':').map(Number);
+    const scheduledStart = local.set({
+      hour,
+      minute,
+      second: 0,
+      millisecond: 0,
+    });
+    const lateMinutes = Math.floor(
+      local.diff(scheduledStart, 'minutes').minutes,
+    );
+
+    return lateMinutes > preferences.lateClockInTolerance ? lateMinutes : 0;
+  }
+
+  private toResponse(
+    shift: ShiftWithBreaks,
+    preferences: UserPreferences,
+    now: Date,
+  ) {
+    const onBreak = shift.breaks.some((shiftBreak) => !shiftBreak.endedAt);
+
+    return {
+      ...shift,
+      status: shift.clockOutAt
+        ? 'CLOCKED_OUT'
+        : onBreak
+          ? 'ON_BREAK'
+          : 'CLOCKED_IN',
+      breakMinutes: this.getBreakMinutes(
+        shift,
+        preferences,
+        shift.clockOutAt ?? now,
+      ),
+      workedMinutes:
+        shift.workedMinutes ?? this.getWorkedMinutes(shift, preferences, now),
+    };
+  }
+}
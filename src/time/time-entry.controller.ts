@@ -0,0 +1,279 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedGuard } from 'src/auth/guards/authenticated.guard';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { AuthorizationGuard } from 'src/authorization/guards/authorization.guard';
+import { Permissions } from 'src/authorization/decorators/permissions.decorator';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { CurrentWorkspace } from 'src/workspace/decorators/current-workspace.decorator';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { WORKSPACE_HEADER } from 'src/workspace/workspace.constants';
+import { TimeEntryService } from './time-entry.service';
+import { TimerService } from './timer.service';
+import { StartTimerDto } from './dto/start-timer.dto';
+import { CreateTimeEntryDto } from './dto/create-time-entry.dto';
+import { UpdateTimeEntryDto } from './dto/update-time-entry.dto';
+import { ListTimeEntriesQueryDto } from './dto/list-time-entries-query.dto';
+import { SetLockDateDto } from './dto/set-lock-date.dto';
+import { TimeSummaryQueryDto } from './dto/time-summary-query.dto';
+
+@ApiTags('Time Tracking')
+@ApiHeader({ name: WORKSPACE_HEADER, required: true })
+@Controller('time')
+@UseGuards(AuthenticatedGuard, AuthorizationGuard)
+export class TimeEntryController {
+  constructor(
+    private readonly timeEntryService: TimeEntryService,
+    private readonly timerService: TimerService,
+  ) {}
+
+  @Permissions('time:track')
+  @Get('timer')
+  @ApiOperation({ summary: 'Get the running task timer' })
+  async getTimer(@CurrentUser() user: SafeUser) {
+    const timer = await this.timerService.getTimer(user.id);
+
+    return {
+      message: timer ? 'Timer retrieved successfully' : 'No timer is running',
+      data: timer,
+    };
+  }
+
+  @Permissions('time:track')
+  @Post('timer/start')
+  @ApiOperation({ summary: 'Start a timer on a task' })
+  async startTimer(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Body() body: StartTimerDto,
+  ) {
+    const timer = await this.timerService.startTimer(workspace, user.id, body);
+
+    return {
+      message: 'Timer started',
+      data: timer,
+    };
+  }
+
+  @Permissions('time:track')
+  @Post('timer/stop')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Stop the running timer and save it as a time entry',
+    description: 'Timers that ran for less than a minute are discarded.',
+  })
+  async stopTimer(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+  ) {
+    const entry = await this.timerService.stopTimer(workspace, user.id);
+
+    return {
+      message: entry
+        ? 'Timer stopped and time logged'
+        : 'Timer discarded, it ran for less than a minute',
+      data: entry,
+    };
+  }
+
+  @Permissions('time:track')
+  @Delete('timer')
+  @ApiOperation({ summary: 'Discard the running timer without logging time' })
+  async discardTimer(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+  ) {
+    await this.timerService.discardTimer(workspace, user.id);
+
+    return {
+      message: 'Timer discarded',
+    };
+  }
+
+  @Permissions('time:track')
+  @Get('entries')
+  @ApiOperation({ summary: 'List time entries' })
+  async listEntries(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Query() query: ListTimeEntriesQueryDto,
+  ) {
+    const { entries, meta } = await this.timeEntryService.listEntries(
+      workspace,
+      user.id,
+      query,
+    );
+
+    return {
+      message: 'Time entries retrieved successfully',
+      data: entries,
+      meta,
+    };
+  }
+
+  @Permissions('time:track')
+  @Post('entries')
+  @ApiOperation({
+    summary: 'Log time manually',
+    description:
+      'Provide either startedAt and endedAt, or a date and durationMinutes.',
+  })
+  async createEntry(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Body() body: CreateTimeEntryDto,
+  ) {
+    const entry = await this.timeEntryService.createEntry(
+      workspace,
+      user.id,
+      body,
+    );
+
+    return {
+      message: 'Time logged successfully',
+      data: entry,
+    };
+  }
+
+  @Permissions('time:track')
+  @Patch('entries/:id')
+  @ApiOperation({ summary: 'Update a time entry' })
+  async updateEntry(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: UpdateTimeEntryDto,
+  ) {
+    const entry = await this.timeEntryService.updateEntry(
+      workspace,
+      user.id,
+      id,
+      body,
+    );
+
+    return {
+      message: 'Time entry updated successfully',
+      data: entry,
+    };
+  }
+
+  @Permissions('time:track')
+  @Delete('entries/:id')
+  @ApiOperation({ summary: 'Delete a time entry' })
+  async deleteEntry(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.timeEntryService.deleteEntry(workspace, user.id, id);
+
+    return {
+      message: 'Time entry deleted successfully',
+    };
+  }
+
+  @Permissions('time:track')
+  @Get('summary')
+  @ApiOperation({
+    summary: 'Regular and overtime hours per day and week',
+    description:
+      'Weeks start on the work week start day in the user timezone. Values are in minutes.',
+  })
+  async getSummary(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Query() query: TimeSummaryQueryDto,
+  ) {
+    const summary = await this.timeEntryService.getSummary(
+      workspace,
+      user.id,
+      query,
+    );
+
+    return {
+      message: 'Time summary retrieved successfully',
+      data: summary,
+    };
+  }
+
+  @Permissions('time:manage')
+  @Put('lock-date')
+  @ApiOperation({
+    summary: 'Set the time lock date of the workspace',
+    description:
+      'Time entries on or before the lock date can no longer be created, changed or deleted.',
+  })
+  async setLockDate(
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Body() body: SetLockDateDto,
+  ) {
+    const result = await this.timeEntryService.setLockDate(
+      workspace,
+      body.lockDate,
+    );
+
+    return {
+      message: 'Lock date updated successfully',
+      data: result,
+    };
+  }
+
+  @Permissions('task:read')
+  @Get('tasks/:key/totals')
+  @ApiParam({
+    name: 'key',
+    description: 'Task key (e.g. WEB-42) or id',
+    example: 'WEB-42',
+  })
+  @ApiOperation({ summary: 'Time logged on a task and its subtasks' })
+  async getTaskTotals(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('key') key: string,
+  ) {
+    const totals = await this.timeEntryService.getTaskTotals(
+      workspace,
+      user.id,
+      key,
+    );
+
+    return {
+      message: 'Task time totals retrieved successfully',
+      data: totals,
+    };
+  }
+
+  @Permissions('project:read')
+  @Get('projects/:id/totals')
+  @ApiOperation({ summary: 'Time logged on a project, per task' })
+  async getProjectTotals(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const totals = await this.timeEntryService.getProjectTotals(
+      workspace,
+      user.id,
+      id,
+    );
+
+    return {
+      message: 'Project time totals retrieved successfully',
+      data: totals,
+    };
+  }
+}
@@ -0,0 +1,597 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { DateTime } from 'luxon';
+import {
+  Prisma,
+  TimeEntrySource,
+  TimesheetStatus,
+} from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { hasPermission } from 'src/authorization/permissions';
+import { ProjectService } from 'src/project/project.service';
+import { TaskService } from 'src/task/task.service';
+import { UserPreferencesService } from 'src/user/user-preferences.service';
+import { WorkspaceService } from 'src/workspace/workspace.service';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { CreateTimeEntryDto } from './dto/create-time-entry.dto';
+import { UpdateTimeEntryDto } from './dto/update-time-entry.dto';
+import { ListTimeEntriesQueryDto } from './dto/list-time-entries-query.dto';
+import { TimeSummaryQueryDto } from './dto/time-summary-query.dto';
+import { TimeEntryLockedException } from './exceptions/time-entry-locked.exception';
+import { TimesheetLockedException } from './exceptions/timesheet-locked.exception';
+import { RunningTimer } from './interfaces/running-timer.interface';
+import { OvertimeService } from './overtime.service';
+import { DaysOffService } from './days-off.service';
+import { MAX_ENTRY_MINUTES, MAX_SUMMARY_DAYS } from './time.constants';
+
+const TIME_ENTRY_INCLUDE = {
+  task: {
+    select: {
+      id: true,
+      number: true,
+      title: true,
+      project: { select: { id: true, key: true, name: true, status: true } },
+    },
+  },
+  user: { select: { id: true, name: true, username: true, image: true } },
+} satisfies Prisma.TimeEntryInclude;
+
+type TimeEntryWithRelations = Prisma.TimeEntryGetPayload<{
+  include: typeof TIME_ENTRY_INCLUDE;
+}>;
+
+type TimeEntryPeriod = Pick<
+  Prisma.TimeEntryUncheckedCreateInput,
+  'date' | 'startedAt' | 'endedAt' | 'durationMinutes'
+>;
+
+const MS_PER_MINUTE = 60_000;
+
+/**
+ * Time logged against tasks, from stopped timers or entered manually
+ */
+@Injectable()
+export class TimeEntryService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly taskService: TaskService,
+    private readonly projectService: ProjectService,
+    private readonly userPreferencesService: UserPreferencesService,
+    private readonly overtimeService: OvertimeService,
+    private readonly daysOffService: DaysOffService,
+    private readonly workspaceService: WorkspaceService,
+  ) {}
+
+  /**
+   * List the user's entries, or another member's with time:manage
+   */
+  async listEntries(
+    context: WorkspaceContext,
+    userId: string,
+    query: ListTimeEntriesQueryDto,
+  ) {
+    const targetUserId = query.userId ?? userId;
+    if (targetUserId !== userId) {
+      this.assertCanManage(context);
+    }
+
+    const where: Prisma.TimeEntryWhereInput = {
+      workspaceId: context.id,
+      userId: targetUserId,
+      taskId: query.taskId,
+      ...(query.projectId && { task: { projectId: query.projectId } }),
+      date: {
+        gte: query.from ? new Date(query.from) : undefined,
+        lte: query.to ? new Date(query.to) : undefined,
+      },
+    };
+
+    const [entries, total] = await this.prisma.$transaction([
+      this.prisma.timeEntry.findMany({
+        where,
+        include: TIME_ENTRY_INCLUDE,
+        orderBy: [{ date: 'desc' }, { startedAt: 'desc' }],
+        skip: query.skip,
+        take: query.limit,
+      }),
+      this.prisma.timeEntry.count({ where }),
+    ]);
+
+    return {
+      entries: entries.map((entry) => this.toResponse(entry)),
+      meta: query.toMeta(total),
+    };
+  }
+
+  /**
+   * Regular and overtime minutes per day and week, following the
+   * work week preferences of the user
+   */
+  async getSummary(
+    context: WorkspaceContext,
+    userId: string,
+    query: TimeSummaryQueryDto,
+  ) {
+    const targetUserId = query.userId ?? userId;
+    if (targetUserId !== userId) {
+      this.assertCanManage(context);
+      await this.assertMember(context, targetUserId);
+    }
+
+    const days =
+      (new Date(query.to).getTime() - new Date(query.from).getTime()) /
+        (24 * 60 * MS_PER_MINUTE) +
+      1;
+    if (days < 1) {
+      throw new BadRequestException('From must not be after to');
+    }
+    if (days > MAX_SUMMARY_DAYS) {
+      throw new BadRequestException(
+        `A summary can cover at most ${MAX_SUMMARY_DAYS} days`,
+      );
+    }
+
+    const preferences =
+      await this.userPreferencesService.getPreferences(targetUserId);
+    const window = this.overtimeService.getWeekWindow(
+      query.from,
+      query.to,
+      preferences,
+    );
+
+    // A day of margin catches timed entries crossing the window edges
+    const start = new Date(window.start);
+    start.setUTCDate(start.getUTCDate() - 1);
+    const [entries, daysOff] = await Promise.all([
+      this.prisma.timeEntry.findMany({
+        where: {
+          workspaceId: context.id,
+          userId: targetUserId,
+          date: { gte: start, lte: new Date(window.end) },
+        },
+        select: {
+          date: true,
+          startedAt: true,
+          endedAt: true,
+          durationMinutes: true,
+        },
+      }),
+      this.daysOffService.getDaysOff(
+        context.id,
+        targetUserId,
+        window.start,
+        window.end,
+      ),
+    ]);
+
+    return this.overtimeService.calculate(entries, preferences, query, daysOff);
+  }
+
+  async createEntry(
+    context: WorkspaceContext,
+    userId: string,
+    data: CreateTimeEntryDto,
+  ) {
+    const task = await this.taskService.findTask(context, userId, data.task);
+    this.projectService.assertWritable(task.project);
+
+    const { timezone } =
+      await this.userPreferencesService.getPreferences(userId);
+    const period = this.resolvePeriod(data, timezone);
+    await this.assertUnlocked(context.id, userId, period.date as Date);
+
+    const entry = await this.prisma.timeEntry.create({
+      data: {
+        ...period,
+        userId,
+        workspaceId: context.id,
+        taskId: task.id,
+        billable: data.billable,
+        notes: data.notes?.trim() || null,
+        source: TimeEntrySource.MANUAL,
+      },
+      include: TIME_ENTRY_INCLUDE,
+    });
+
+    return this.toResponse(entry);
+  }
+
+  async updateEntry(
+    context: WorkspaceContext,
+    userId: string,
+    id: string,
+    data: UpdateTimeEntryDto,
+  ) {
+    const entry = await this.findEntry(context, userId, id);
+    this.projectService.assertWritable(entry.task.project);
+    await this.assertUnlocked(context.id, entry.userId, entry.date);
+
+    const { timezone } = await this.userPreferencesService.getPreferences(
+      entry.userId,
+    );
+    const period = this.resolvePeriod(this.mergePeriod(entry, data), timezone);
+    await this.assertUnlocked(context.id, entry.userId, period.date as Date);
+
+    const updated = await this.prisma.timeEntry.update({
+      where: { id: entry.id },
+      data: {
+        ...period,
+        billable: data.billable,
+        notes: data.notes === undefined ? undefined : data.notes.trim() || null,
+      },
+      include: TIME_ENTRY_INCLUDE,
+    });
+
+    return this.toResponse(updated);
+  }
+
+  async deleteEntry(
+    context: WorkspaceContext,
+    userId: string,
+    id: string,
+  ): Promise<void> {
+    const entry = await this.findEntry(context, userId, id);
+    this.projectService.assertWritable(entry.task.project);
+    await this.assertUnlocked(context.id, entry.userId, entry.date);
+
+    await this.prisma.timeEntry.delete({ where: { id: entry.id } });
+  }
+
+  /**
+   * Persist a stopped timer. Timers shorter than a minute are dropped.
+   */
+  async createFromTimer(timer: RunningTimer, endedAt: Date) {
+    const startedAt = new Date(timer.startedAt);
+    const durationMinutes = Math.floor(
+      (endedAt.getTime() - startedAt.getTime()) / MS_PER_MINUTE,
+    );
+    if (durationMinutes < 1) {
+      return null;
+    }
+
+    // The project may have been archived while the timer was running
+    const task = await this.prisma.task.findUnique({
+      where: { id: timer.task.id },
+      select: { project: { select: { id: true, status: true } } },
+    });
+    if (!task) {
+      throw new NotFoundException('Task not found');
+    }
+    this.projectService.assertWritable(task.project);
+
+    const { timezone } = await this.userPreferencesService.getPreferences(
+      timer.userId,
+    );
+    const date = this.toLocalDate(startedAt, timezone);
+    await this.assertUnlocked(timer.workspaceId, timer.userId, date);
+
+    const entry = await this.prisma.timeEntry.create({
+      data: {
+        userId: timer.userId,
+        workspaceId: timer.workspaceId,
+        taskId: timer.task.id,
+        date,
+        startedAt,
+        endedAt,
+        durationMinutes,
+        billable: timer.billable,
+        notes: timer.notes,
+        source: TimeEntrySource.TIMER,
+      },
+      include: TIME_ENTRY_INCLUDE,
+    });
+
+    return this.toResponse(entry);
+  }
+
+  /**
+   * Lock every entry on or before the date, or unlock with null
+   */
+  async setLockDate(context: WorkspaceContext, lockDate: string | null) {
+    const workspace = await this.prisma.workspace.update({
+      where: { id: context.id },
+      data: { timeLockDate: lockDate ? new Date(lockDate) : null },
+      select: { timeLockDate: true },
+    });
+
+    return { lockDate: this.formatDate(workspace.timeLockDate) };
+  }
+
+  /**
+   * Reject changes to entries on or before the workspace lock date, or
+   * in a week whose timesheet is submitted or approved
+   */
+  async assertUnlocked(
+    workspaceId: string,
+    userId: string,
+    date: Date,
+  ): Promise<void> {
+    const { timeLockDate } = await this.prisma.workspace.findUniqueOrThrow({
+      where: { id: workspaceId },
+      select: { timeLockDate: true },
+    });
+
+    if (timeLockDate && date <= timeLockDate) {
+      throw new TimeEntryLockedException(this.formatDate(timeLockDate)!);
+    }
+
+    const timesheet = await this.prisma.timesheet.findFirst({
+      where: {
+        workspaceId,
+        userId,
+        weekStart: { lte: date },
+        weekEnd: { gte: date },
+        status: { in: [TimesheetStatus.SUBMITTED, TimesheetStatus.APPROVED] },
+      },
+      select: { id: true, status: true },
+    });
+    if (timesheet) {
+      throw new TimesheetLockedException(timesheet.id, timesheet.status);
+    }
+  }
+
+  /**
+   * Time logged on a task, rolled up over its subtasks
+   */
+  async getTaskTotals(context: WorkspaceContext, userId: string, ref: string) {
+    const task = await this.taskService.findTask(context, userId, ref);
+    const taskIds = await this.taskService.getSubtreeIds(task.id);
+
+    const totals = await this.sumByTask({ taskId: { in: taskIds } });
+    const own = totals.get(task.id);
+
+    return {
+      task: {
+        id: task.id,
+        key: `${task.project.key}-${task.number}`,
+        title: task.title,
+        estimateMinutes: task.estimateMinutes,
+      },
+      ...this.sumTotals([...totals.values()]),
+      ownMinutes: own?.totalMinutes ?? 0,
+    };
+  }
+
+  /**
+   * Time logged on a project, with the totals of each task
+   */
+  async getProjectTotals(
+    context: WorkspaceContext,
+    userId: string,
+    projectId: string,
+  ) {
+    const project = await this.projectService.getProject(
+      context,
+      userId,
+      projectId,
+    );
+
+    const totals = await this.sumByTask({ task: { projectId: project.id } });
+    const tasks = await this.prisma.task.findMany({
+      where: { id: { in: [...totals.keys()] } },
+      select: { id: true, number: true, title: true },
+    });
+
+    return {
+      project: {
+        id: project.id,
+        key: project.key,
+        name: project.name,
+        budgetHours: project.budgetHours,
+      },
+      ...this.sumTotals([...totals.values()]),
+      tasks: tasks
+        .map((task) => ({
+          id: task.id,
+          key: `${project.key}-${task.number}`,
+          title: task.title,
+          ...totals.get(task.id)!,
+        }))
+        .sort((a, b) => b.totalMinutes - a.totalMinutes),
+    };
+  }
+
+  /**
+   * Find an entry of the user, or of any member with time:manage
+   */
+  private async findEntry(
+    context: WorkspaceContext,
+    userId: string,
+    id: string,
+  ): Promise<TimeEntryWithRelations> {
+    const entry = await this.prisma.timeEntry.findFirst({
+      where: { id, workspaceId: context.id },
+      include: TIME_ENTRY_INCLUDE,
+    });
+    if (!entry) {
+      throw new NotFoundException('Time entry not found');
+    }
+    if (entry.userId !== userId) {
+      this.assertCanManage(context);
+    }
+
+    return entry;
+  }
+
+  private async assertMember(
+    context: WorkspaceContext,
+    userId: string,
+  ): Promise<void> {
+    const member = await this.workspaceService.findMembership(
+      context.id,
+      userId,
+    );
+    if (!member) {
+      throw new NotFoundException('Member not found');
+    }
+  }
+
+  private assertCanManage(context: WorkspaceContext): void {
+    if (!hasPermission(context.role, 'time:manage')) {
+      throw new ForbiddenException(
+        'You do not have permission to perform this action',
+      );
+    }
+  }
+
+  /**
+   * Apply period changes to an entry. Changing startedAt or endedAt keeps
+   * the entry timed, changing only the date or duration makes it a
+   * duration entry.
+   */
+  private mergePeriod(
+    entry: TimeEntryWithRelations,
+    data: UpdateTimeEntryDto,
+  ): Omit<UpdateTimeEntryDto, 'billable' | 'notes'> {
+    if (data.startedAt !== undefined || data.endedAt !== undefined) {
+      return {
+        startedAt: data.startedAt ?? entry.startedAt?.toISOString(),
+        endedAt: data.endedAt ?? entry.endedAt?.toISOString(),
+        durationMinutes: data.durationMinutes,
+      };
+    }
+    if (data.date !== undefined || data.durationMinutes !== undefined) {
+      return {
+        date: data.date ?? this.formatDate(entry.date)!,
+        durationMinutes: data.durationMinutes ?? entry.durationMinutes,
+      };
+    }
+
+    return entry.startedAt && entry.endedAt
+      ? {
+          startedAt: entry.startedAt.toISOString(),
+          endedAt: entry.endedAt.toISOString(),
+        }
+      : {
+          date: this.formatDate(entry.date)!,
+          durationMinutes: entry.durationMinutes,
+        };
+  }
+
+  private resolvePeriod(
+    data: Omit<UpdateTimeEntryDto, 'billable' | 'notes'>,
+    timezone: string,
+  ): TimeEntryPeriod {
+    if (data.startedAt === undefined && data.endedAt === undefined) {
+      if (data.date === undefined || data.durationMinutes === undefined) {
+        throw new BadRequestException(
+          'Provide either startedAt and endedAt, or a date and durationMinutes',
+        );
+      }
+
+      return {
+        date: new Date(data.date),
+        startedAt: null,
+        endedAt: null,
+        durationMinutes: data.durationMinutes,
+      };
+    }
+
+    if (data.startedAt === undefined || data.endedAt === undefined) {
+      throw new BadRequestException('Provide both startedAt and endedAt');
+    }
+    if (data.durationMinutes !== undefined || data.date !== undefined) {
+      throw new BadRequestException(
+        'Provide either startedAt and endedAt, or a date and durationMinutes',
+      );
+    }
+
+    const startedAt = new Date(data.startedAt);
+    const endedAt = new Date(data.endedAt);
+    const durationMinutes = Math.floor(
+      (endedAt.getTime() - startedAt.getTime()) / MS_PER_MINUTE,
+    );
+    if (durationMinutes < 1) {
+      throw new BadRequestException(
+        'End time must be at least a minute after the start time',
+      );
+    }
+    if (durationMinutes > MAX_ENTRY_MINUTES) {
+      throw new BadRequestException(
+        `A time entry cannot exceed ${MAX_ENTRY_MINUTES / 60} hours`,
+      );
+    }
+    if (endedAt > new Date()) {
+      throw new BadRequestException('Time entries cannot end in the future');
+    }
+
+    return {
+      date: this.toLocalDate(startedAt, timezone),
+      startedAt,
+      endedAt,
+      durationMinutes,
+    };
+  }
+
+  private async sumByTask(where: Prisma.TimeEntryWhereInput) {
+    const groups = await this.prisma.timeEntry.groupBy({
+      by: ['taskId', 'billable'],
+      where,
+      _sum: { durationMinutes: true },
+    });
+
+    const totals = new Map<
+      string,
+      { totalMinutes: number; billableMinutes: number }
+    >();
+    for (const { taskId, billable, _sum } of groups) {
+      const minutes = _sum.durationMinutes ?? 0;
+      const total = totals.get(taskId) ?? {
+        totalMinutes: 0,
+        billableMinutes: 0,
+      };
+
+      total.totalMinutes += minutes;
+      if (billable) {
+        total.billableMinutes += minutes;
+      }
+      totals.set(taskId, total);
+    }
+
+    return totals;
+  }
+
+  private sumTotals(
+    totals: { totalMinutes: number; billableMinutes: number }[],
+  ) {
+    return totals.reduce(
+      (sum, total) => ({
+        totalMinutes: sum.totalMinutes + total.totalMinutes,
+        billableMinutes: sum.billableMinutes + total.billableMinutes,
+      }),
+      { totalMinutes: 0, billableMinutes: 0 },
+    );
+  }
+
+  /**
+   * The calendar day of a moment in the timezone, as a date-only value
+   */
+  private toLocalDate(at: Date, timezone: string): Date {
+    const day = DateTime.fromJSDate(at, { zone: timezone }).toISODate()!;
+
+    return new Date(day);
+  }
+
+  private formatDate(date: Date | null): string | null {
+    return date ? date.toISOString().slice(0, 10) : null;
+  }
+
+  private toResponse(entry: TimeEntryWithRelations) {
+    const { task, ...rest } = entry;
+
+    return {
+      ...rest,
+      date: this.formatDate(entry.date),
+      task: {
+        id: task.id,
+        key: `${task.project.key}-${task.number}`,
+        title: task.title,
+        project: task.project,
+      },
+    };
+  }
+}
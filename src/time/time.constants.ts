@@ -0,0 +1,11 @@
+export const TIMER_KEY_PREFIX = 'time:timer:';
+
+// Longest time a single entry can cover
+export const MAX_ENTRY_MINUTES = 24 * 60;
+
+// Longest range a time summary can cover
+export const MAX_SUMMARY_DAYS = 366;
+
+// Calendar day without a time, e.g. 2026-02-01. IsDateString alone also
+// accepts full timestamps, which would shift the day by the offset.
+export const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
@@ -0,0 +1,139 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedGuard } from 'src/auth/guards/authenticated.guard';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { AuthorizationGuard } from 'src/authorization/guards/authorization.guard';
+import { Permissions } from 'src/authorization/decorators/permissions.decorator';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { CurrentWorkspace } from 'src/workspace/decorators/current-workspace.decorator';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { WORKSPACE_HEADER } from 'src/workspace/workspace.constants';
+import { ShiftService } from './shift.service';
+import { ClockInDto } from './dto/clock-in.dto';
+import { ClockOutDto } from './dto/clock-out.dto';
+import { StartBreakDto } from './dto/start-break.dto';
+import { ListShiftsQueryDto } from './dto/list-shifts-query.dto';
+
+@ApiTags('Time Tracking')
+@ApiHeader({ name: WORKSPACE_HEADER, required: true })
+@Controller('time')
+@UseGuards(AuthenticatedGuard, AuthorizationGuard)
+export class TimeController {
+  constructor(private readonly shiftService: ShiftService) {}
+
+  @Permissions('time:track')
+  @Get('current')
+  @ApiOperation({ summary: 'Get the open shift of the current user' })
+  async getCurrentShift(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+  ) {
+    const shift = await this.shiftService.getCurrentShift(workspace, user.id);
+
+    return {
+      message: shift
+        ? 'Current shift retrieved successfully'
+        : 'Not clocked in',
+      data: shift,
+    };
+  }
+
+  @Permissions('time:track')
+  @Get('shifts')
+  @ApiOperation({ summary: 'List shifts of the current user' })
+  async listShifts(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Query() query: ListShiftsQueryDto,
+  ) {
+    const { shifts, meta } = await this.shiftService.listShifts(
+      workspace,
+      user.id,
+      query,
+    );
+
+    return {
+      message: 'Shifts retrieved successfully',
+      data: shifts,
+      meta,
+    };
+  }
+
+  @Permissions('time:track')
+  @Post('clock-in')
+  @ApiOperation({
+    summary: 'Clock in',
+    description:
+      'Clock-ins past the scheduled start plus tolerance are flagged late, or rejected when late clock-ins are not allowed.',
+  })
+  async clockIn(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Body() body: ClockInDto,
+  ) {
+    const shift = await this.shiftService.clockIn(workspace, user.id, body);
+
+    return {
+      message: 'Clocked in successfully',
+      data: shift,
+    };
+  }
+
+  @Permissions('time:track')
+  @Post('clock-out')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Clock out, ending a running break' })
+  async clockOut(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Body() body: ClockOutDto,
+  ) {
+    const shift = await this.shiftService.clockOut(workspace, user.id, body);
+
+    return {
+      message: 'Clocked out successfully',
+      data: shift,
+    };
+  }
+
+  @Permissions('time:track')
+  @Post('break/start')
+  @ApiOperation({ summary: 'Start a break in the open shift' })
+  async startBreak(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Body() body: StartBreakDto,
+  ) {
+    const shift = await this.shiftService.startBreak(workspace, user.id, body);
+
+    return {
+      message: 'Break started',
+      data: shift,
+    };
+  }
+
+  @Permissions('time:track')
+  @Post('break/end')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'End the running break' })
+  async endBreak(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+  ) {
+    const shift = await this.shiftService.endBreak(workspace, user.id);
+
+    return {
+      message: 'Break ended',
+      data: shift,
+    };
+  }
+}
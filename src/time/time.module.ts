@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { UserModule } from 'src/user/user.module';
+import { WorkspaceModule } from 'src/workspace/workspace.module';
+import { ProjectModule } from 'src/project/project.module';
+import { TaskModule } from 'src/task/task.module';
+import { NotificationModule } from 'src/notification/notification.module';
+import { ShiftService } from './shift.service';
+import { TimeEntryService } from './time-entry.service';
+import { TimerService } from './timer.service';
+import { OvertimeService } from './overtime.service';
+import { DaysOffService } from './days-off.service';
+import { ShiftSchedulerService } from './shift-scheduler.service';
+import { TimeController } from './time.controller';
+import { TimeEntryController } from './time-entry.controller';
+
+@Module({
+  imports: [
+    UserModule,
+    WorkspaceModule,
+    ProjectModule,
+    TaskModule,
+    NotificationModule,
+  ],
+  controllers: [TimeController, TimeEntryController],
+  providers: [
+    ShiftService,
+    ShiftSchedulerService,
+    TimeEntryService,
+    TimerService,
+    OvertimeService,
+    DaysOffService,
+  ],
+  exports: [
+    ShiftService,
+    TimeEntryService,
+    TimerService,
+    OvertimeService,
+    DaysOffService,
+  ],
+})
+export class TimeModule {}
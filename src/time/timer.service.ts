@@ -0,0 +1,140 @@
+import {
+  ConflictException,
+  Injectable,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { RedisService } from 'src/common/redis/redis.service';
+import { ProjectService } from 'src/project/project.service';
+import { TaskService } from 'src/task/task.service';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { StartTimerDto } from './dto/start-timer.dto';
+import { RunningTimer } from './interfaces/running-timer.interface';
+import { TimeEntryService } from './time-entry.service';
+import { TIMER_KEY_PREFIX } from './time.constants';
+
+const MS_PER_MINUTE = 60_000;
+
+/**
+ * Task timers. The running timer of a user lives in Redis for fast reads
+ * and becomes a time entry when it is stopped.
+ */
+@Injectable()
+export class TimerService {
+  constructor(
+    private readonly redis: RedisService,
+    private readonly taskService: TaskService,
+    private readonly projectService: ProjectService,
+    private readonly timeEntryService: TimeEntryService,
+  ) {}
+
+  async getTimer(userId: string) {
+    const timer = await this.readTimer(userId);
+
+    return timer && this.toResponse(timer);
+  }
+
+  /**
+   * Start a timer on a task. A user has at most one running timer.
+   */
+  async startTimer(
+    context: WorkspaceContext,
+    userId: string,
+    data: StartTimerDto,
+  ) {
+    this.assertAvailable();
+
+    const task = await this.taskService.findTask(context, userId, data.task);
+    this.projectService.assertWritable(task.project);
+
+    const timer: RunningTimer = {
+      userId,
+      workspaceId: context.id,
+      task: {
+        id: task.id,
+        key: `${task.project.key}-${task.number}`,
+        title: task.title,
+      },
+      startedAt: new Date().toISOString(),
+      billable: data.billable ?? false,
+      notes: data.notes?.trim() || null,
+    };
+
+    const started = await this.redis.setIfNotExists(
+      this.timerKey(userId),
+      JSON.stringify(timer),
+    );
+    if (!started) {
+      throw new ConflictException('A timer is already running. Stop it first.');
+    }
+
+    return this.toResponse(timer);
+  }
+
+  /**
+   * Stop the running timer and save it as a time entry
+   *
+   * @returns the entry, or null when the timer ran for less than a minute
+   */
+  async stopTimer(context: WorkspaceContext, userId: string) {
+    this.assertAvailable();
+
+    const key = this.timerKey(userId);
+    const raw = await this.redis.getDel(key);
+    const timer = raw ? (JSON.parse(raw) as RunningTimer) : null;
+    if (!timer || timer.workspaceId !== context.id) {
+      if (raw) {
+        await this.redis.set(key, raw);
+      }
+      throw new ConflictException('No timer is running in this workspace');
+    }
+
+    try {
+      return await this.timeEntryService.createFromTimer(timer, new Date());
+    } catch (error) {
+      // Keep the timer running so the time is not lost
+      await this.redis.set(key, raw!);
+      throw error;
+    }
+  }
+
+  /**
+   * Throw the running timer away without saving it
+   */
+  async discardTimer(context: WorkspaceContext, userId: string) {
+    this.assertAvailable();
+
+    const timer = await this.readTimer(userId);
+    if (!timer || timer.workspaceId !== context.id) {
+      throw new ConflictException('No timer is running in this workspace');
+    }
+
+    await this.redis.del(this.timerKey(userId));
+  }
+
+  private async readTimer(userId: string): Promise<RunningTimer | null> {
+    const raw = await this.redis.get(this.timerKey(userId));
+
+    return raw ? (JSON.parse(raw) as RunningTimer) : null;
+  }
+
+  private assertAvailable(): void {
+    if (!this.redis.isConnected()) {
+      throw new ServiceUnavailableException(
+        'Timers are temporarily unavailable, please try again later',
+      );
+    }
+  }
+
+  private timerKey(userId: string): string {
+    return `${TIMER_KEY_PREFIX}${userId}`;
+  }
+
+  private toResponse(timer: RunningTimer) {
+    return {
+      ...timer,
+      elapsedMinutes: Math.floor(
+        (Date.now() - new Date(timer.startedAt).getTime()) / MS_PER_MINUTE,
+      ),
+    };
+  }
+}
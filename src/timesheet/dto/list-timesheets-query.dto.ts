@@ -0,0 +1,11 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { TimesheetStatus } from 'generated/prisma/client';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+
+export class ListTimesheetsQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: TimesheetStatus })
+  @IsOptional()
+  @IsEnum(TimesheetStatus)
+  status?: TimesheetStatus;
+}
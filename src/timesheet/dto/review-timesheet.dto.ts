@@ -0,0 +1,21 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+
+export class ReviewTimesheetDto {
+  @ApiPropertyOptional({ example: 'Looks good, thanks!' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000, { message: 'Comment must not exceed 1000 characters' })
+  comment?: string;
+}
+
+export class RejectTimesheetDto {
+  @ApiProperty({
+    description: 'Why the timesheet is rejected',
+    example: 'Wednesday is missing the client workshop',
+  })
+  @IsString()
+  @MinLength(1, { message: 'A comment is required when rejecting' })
+  @MaxLength(1000, { message: 'Comment must not exceed 1000 characters' })
+  comment: string;
+}
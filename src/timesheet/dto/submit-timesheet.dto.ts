@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString } from 'class-validator';
+
+export class SubmitTimesheetDto {
+  @ApiProperty({
+    description:
+      'First day of the week (YYYY-MM-DD), on the work week start day of the user',
+    example: '2026-02-09',
+  })
+  @IsDateString(
+    { strict: true },
+    { message: 'Week start must be a valid date' },
+  )
+  weekStart: string;
+}
@@ -0,0 +1,191 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedGuard } from 'src/auth/guards/authenticated.guard';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { AuthorizationGuard } from 'src/authorization/guards/authorization.guard';
+import { Permissions } from 'src/authorization/decorators/permissions.decorator';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { CurrentWorkspace } from 'src/workspace/decorators/current-workspace.decorator';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { WORKSPACE_HEADER } from 'src/workspace/workspace.constants';
+import { TimesheetService } from './timesheet.service';
+import { SubmitTimesheetDto } from './dto/submit-timesheet.dto';
+import {
+  RejectTimesheetDto,
+  ReviewTimesheetDto,
+} from './dto/review-timesheet.dto';
+import { ListTimesheetsQueryDto } from './dto/list-timesheets-query.dto';
+
+@ApiTags('Timesheets')
+@ApiHeader({ name: WORKSPACE_HEADER, required: true })
+@Controller('timesheets')
+@UseGuards(AuthenticatedGuard, AuthorizationGuard)
+export class TimesheetController {
+  constructor(private readonly timesheetService: TimesheetService) {}
+
+  @Permissions('time:track')
+  @Get()
+  @ApiOperation({ summary: 'List timesheets of the current user' })
+  async list(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Query() query: ListTimesheetsQueryDto,
+  ) {
+    const { timesheets, meta } = await this.timesheetService.listTimesheets(
+      workspace,
+      user.id,
+      query,
+    );
+
+    return {
+      message: 'Timesheets retrieved successfully',
+      data: timesheets,
+      meta,
+    };
+  }
+
+  @Permissions('timesheet:approve')
+  @Get('pending')
+  @ApiOperation({ summary: 'List submitted timesheets waiting for review' })
+  async listPending(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Query() query: ListTimesheetsQueryDto,
+  ) {
+    const { timesheets, meta } = await this.timesheetService.listPending(
+      workspace,
+      user.id,
+      query,
+    );
+
+    return {
+      message: 'Pending timesheets retrieved successfully',
+      data: timesheets,
+      meta,
+    };
+  }
+
+  @Permissions('time:track')
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get a timesheet with its daily totals and audit trail',
+  })
+  async get(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const timesheet = await this.timesheetService.getTimesheet(
+      workspace,
+      user.id,
+      id,
+    );
+
+    return {
+      message: 'Timesheet retrieved successfully',
+      data: timesheet,
+    };
+  }
+
+  @Permissions('time:track')
+  @Post()
+  @ApiOperation({
+    summary: 'Submit the timesheet of a week',
+    description:
+      'Entries of a submitted or approved week can no longer be changed.',
+  })
+  async submit(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Body() body: SubmitTimesheetDto,
+  ) {
+    const timesheet = await this.timesheetService.submit(
+      workspace,
+      user.id,
+      body,
+    );
+
+    return {
+      message: 'Timesheet submitted successfully',
+      data: timesheet,
+    };
+  }
+
+  @Permissions('time:track')
+  @Post(':id/recall')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Recall a submitted timesheet to edit it' })
+  async recall(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const timesheet = await this.timesheetService.recall(
+      workspace,
+      user.id,
+      id,
+    );
+
+    return {
+      message: 'Timesheet recalled successfully',
+      data: timesheet,
+    };
+  }
+
+  @Permissions('timesheet:approve')
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve a submitted timesheet' })
+  async approve(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: ReviewTimesheetDto,
+  ) {
+    const timesheet = await this.timesheetService.approve(
+      workspace,
+      user.id,
+      id,
+      body,
+    );
+
+    return {
+      message: 'Timesheet approved successfully',
+      data: timesheet,
+    };
+  }
+
+  @Permissions('timesheet:approve')
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject a submitted timesheet with a comment' })
+  async reject(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: RejectTimesheetDto,
+  ) {
+    const timesheet = await this.timesheetService.reject(
+      workspace,
+      user.id,
+      id,
+      body,
+    );
+
+    return {
+      message: 'Timesheet rejected successfully',
+      data: timesheet,
+    };
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { UserModule } from 'src/user/user.module';
+import { WorkspaceModule } from 'src/workspace/workspace.module';
+import { TimeModule } from 'src/time/time.module';
+import { NotificationModule } from 'src/notification/notification.module';
+import { TimesheetService } from './timesheet.service';
+import { TimesheetController } from './timesheet.controller';
+
+@Module({
+  imports: [UserModule, WorkspaceModule, TimeModule, NotificationModule],
+  controllers: [TimesheetController],
+  providers: [TimesheetService],
+  exports: [TimesheetService],
+})
+export class TimesheetModule {}
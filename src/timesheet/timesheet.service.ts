@@ -0,0 +1,436 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { DateTime } from 'luxon';
+import { Prisma, Timesheet, TimesheetStatus } from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { ClockService } from 'src/common/clock/clock.service';
+import { hasPermission } from 'src/authorization/permissions';
+import { NotificationService } from 'src/notification/notification.service';
+import { OvertimeService } from 'src/time/overtime.service';
+import { TimeEntryService } from 'src/time/time-entry.service';
+import { UserPreferencesService } from 'src/user/user-preferences.service';
+import { WEEK_DAYS } from 'src/user/user-preferences.constants';
+import { WorkspaceContext } from 'src/workspace/interfaces/workspace-context.interface';
+import { SubmitTimesheetDto } from './dto/submit-timesheet.dto';
+import {
+  RejectTimesheetDto,
+  ReviewTimesheetDto,
+} from './dto/review-timesheet.dto';
+import { ListTimesheetsQueryDto } from './dto/list-timesheets-query.dto';
+
+const USER_SELECT = {
+  id: true,
+  name: true,
+  username: true,
+  image: true,
+} satisfies Prisma.UserSelect;
+
+const TIMESHEET_INCLUDE = {
+  user: { select: USER_SELECT },
+  reviewedBy: { select: USER_SELECT },
+} satisfies Prisma.TimesheetInclude;
+
+type TimesheetWithRelations = Prisma.TimesheetGetPayload<{
+  include: typeof TIMESHEET_INCLUDE;
+}>;
+
+/**
+ * Weekly timesheets: users submit the time of a week, reviewers with
+ * timesheet:approve approve or reject it. Every status change is recorded
+ * as a timesheet event.
+ */
+@Injectable()
+export class TimesheetService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly timeEntryService: TimeEntryService,
+    private readonly overtimeService: OvertimeService,
+    private readonly userPreferencesService: UserPreferencesService,
+    private readonly notificationService: NotificationService,
+    private readonly clock: ClockService,
+  ) {}
+
+  /**
+   * Timesheets of the current user
+   */
+  async listTimesheets(
+    context: WorkspaceContext,
+    userId: string,
+    query: ListTimesheetsQueryDto,
+  ) {
+    return this.paginate(
+      { workspaceId: context.id, userId, status: query.status },
+      { weekStart: 'desc' },
+      query,
+    );
+  }
+
+  /**
+   * Submitted timesheets of other members waiting for review, oldest first
+   */
+  async listPending(
+    context: WorkspaceContext,
+    userId: string,
+    query: ListTimesheetsQueryDto,
+  ) {
+    return this.paginate(
+      {
+        workspaceId: context.id,
+        userId: { not: userId },
+        status: TimesheetStatus.SUBMITTED,
+      },
+      { submittedAt: 'asc' },
+      query,
+    );
+  }
+
+  /**
+   * A timesheet with its daily breakdown and audit trail
+   */
+  async getTimesheet(context: WorkspaceContext, userId: string, id: string) {
+    const timesheet = await this.findTimesheet(context, userId, id);
+    const weekStart = this.formatDate(timesheet.weekStart);
+    const weekEnd = this.formatDate(timesheet.weekEnd);
+
+    const [summary, events] = await Promise.all([
+      this.timeEntryService.getSummary(context, timesheet.userId, {
+        from: weekStart,
+        to: weekEnd,
+      }),
+      this.prisma.timesheetEvent.findMany({
+        where: { timesheetId: timesheet.id },
+        include: { actor: { select: USER_SELECT } },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    return {
+      ...this.toResponse(timesheet),
+      days: summary.days,
+      events,
+    };
+  }
+
+  /**
+   * Submit the week for review. A recalled or rejected timesheet is
+   * submitted again with fresh totals.
+   */
+  async submit(
+    context: WorkspaceContext,
+    userId: string,
+    data: SubmitTimesheetDto,
+  ) {
+    const now = this.clock.now();
+    const preferences =
+      await this.userPreferencesService.getPreferences(userId);
+
+    const week = this.overtimeService.getWeekWindow(
+      data.weekStart,
+      data.weekStart,
+      preferences,
+    );
+    if (week.start !== data.weekStart) {
+      throw new BadRequestException(
+        `Timesheet weeks start on ${WEEK_DAYS[preferences.workWeekStartDay]}`,
+      );
+    }
+    const today = DateTime.fromJSDate(now, {
+      zone: preferences.timezone,
+    }).toISODate()!;
+    if (week.start > today) {
+      throw new BadRequestException(
+        'Timesheets cannot be submitted for future weeks',
+      );
+    }
+
+    const totals = await this.getWeekTotals(context, userId, week);
+    const existing = await this.prisma.timesheet.findUnique({
+      where: {
+        workspaceId_userId_weekStart: {
+          workspaceId: context.id,
+          userId,
+          weekStart: new Date(week.start),
+        },
+      },
+    });
+
+    if (existing) {
+      if (
+        existing.status !== TimesheetStatus.RECALLED &&
+        existing.status !== TimesheetStatus.REJECTED
+      ) {
+        throw new ConflictException(
+          `The timesheet of this week is already ${existing.status.toLowerCase()}`,
+        );
+      }
+
+      const resubmitted = await this.transition(
+        existing,
+        TimesheetStatus.SUBMITTED,
+        userId,
+        null,
+        {
+          ...totals,
+          submittedAt: now,
+          reviewedById: null,
+          reviewedAt: null,
+          reviewComment: null,
+        },
+      );
+
+      return this.toResponse(resubmitted);
+    }
+
+    try {
+      const timesheet = await this.prisma.timesheet.create({
+        data: {
+          ...totals,
+          workspaceId: context.id,
+          userId,
+          weekStart: new Date(week.start),
+          weekEnd: new Date(week.end),
+          submittedAt: now,
+          events: {
+            create: { actorId: userId, toStatus: TimesheetStatus.SUBMITTED },
+          },
+        },
+        include: TIMESHEET_INCLUDE,
+      });
+
+      return this.toResponse(timesheet);
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'The timesheet of this week is already submitted',
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Take back a submitted timesheet to change its entries
+   */
+  async recall(context: WorkspaceContext, userId: string, id: string) {
+    const timesheet = await this.findTimesheet(context, userId, id);
+    if (timesheet.userId !== userId) {
+      throw new ForbiddenException('Only the owner can recall a timesheet');
+    }
+    if (timesheet.status !== TimesheetStatus.SUBMITTED) {
+      throw new ConflictException('Only submitted timesheets can be recalled');
+    }
+
+    const recalled = await this.transition(
+      timesheet,
+      TimesheetStatus.RECALLED,
+      userId,
+      null,
+    );
+
+    return this.toResponse(recalled);
+  }
+
+  async approve(
+    context: WorkspaceContext,
+    userId: string,
+    id: string,
+    data: ReviewTimesheetDto,
+  ) {
+    return this.review(
+      context,
+      userId,
+      id,
+      TimesheetStatus.APPROVED,
+      data.comment,
+    );
+  }
+
+  async reject(
+    context: WorkspaceContext,
+    userId: string,
+    id: string,
+    data: RejectTimesheetDto,
+  ) {
+    return this.review(
+      context,
+      userId,
+      id,
+      TimesheetStatus.REJECTED,
+      data.comment,
+    );
+  }
+
+  private async review(
+    context: WorkspaceContext,
+    userId: string,
+    id: string,
+    status: TimesheetStatus,
+    comment?: string,
+  ) {
+    const timesheet = await this.findTimesheet(context, userId, id);
+    if (timesheet.userId === userId) {
+      throw new ForbiddenException('You cannot review your own timesheet');
+    }
+    if (timesheet.status !== TimesheetStatus.SUBMITTED) {
+      throw new ConflictException('Only submitted timesheets can be reviewed');
+    }
+
+    const reviewComment = comment?.trim() || null;
+    const reviewed = await this.transition(
+      timesheet,
+      status,
+      userId,
+      reviewComment,
+      {
+        reviewedById: userId,
+        reviewedAt: this.clock.now(),
+        reviewComment,
+      },
+    );
+
+    const preferences = await this.userPreferencesService.getPreferences(
+      timesheet.userId,
+    );
+    await this.notificationService.enqueue(`TIMESHEET_${status}`, preferences, {
+      timesheetId: timesheet.id,
+      workspaceId: timesheet.workspaceId,
+      weekStart: this.formatDate(timesheet.weekStart),
+      comment: reviewComment,
+    });
+
+    return this.toResponse(reviewed);
+  }
+
+  /**
+   * Change the status and record the event. The update only applies while
+   * the status is unchanged, so concurrent reviews cannot both succeed.
+   */
+  private async transition(
+    timesheet: Timesheet,
+    status: TimesheetStatus,
+    actorId: string,
+    comment: string | null,
+    data: Prisma.TimesheetUncheckedUpdateManyInput = {},
+  ): Promise<TimesheetWithRelations> {
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.timesheet.updateMany({
+        where: { id: timesheet.id, status: timesheet.status },
+        data: { ...data, status },
+      });
+      if (count === 0) {
+        throw new ConflictException(
+          'The timesheet was changed in the meantime, please reload it',
+        );
+      }
+
+      await tx.timesheetEvent.create({
+        data: {
+          timesheetId: timesheet.id,
+          actorId,
+          fromStatus: timesheet.status,
+          toStatus: status,
+          comment,
+        },
+      });
+
+      return tx.timesheet.findUniqueOrThrow({
+        where: { id: timesheet.id },
+        include: TIMESHEET_INCLUDE,
+      });
+    });
+  }
+
+  /**
+   * Find a timesheet of the user, or of any member for reviewers
+   */
+  private async findTimesheet(
+    context: WorkspaceContext,
+    userId: string,
+    id: string,
+  ): Promise<TimesheetWithRelations> {
+    const timesheet = await this.prisma.timesheet.findFirst({
+      where: { id, workspaceId: context.id },
+      include: TIMESHEET_INCLUDE,
+    });
+    if (
+      !timesheet ||
+      (timesheet.userId !== userId &&
+        !hasPermission(context.role, 'timesheet:approve'))
+    ) {
+      throw new NotFoundException('Timesheet not found');
+    }
+
+    return timesheet;
+  }
+
+  private async getWeekTotals(
+    context: WorkspaceContext,
+    userId: string,
+    week: { start: string; end: string },
+  ) {
+    const [summary, billable] = await Promise.all([
+      this.timeEntryService.getSummary(context, userId, {
+        from: week.start,
+        to: week.end,
+      }),
+      this.prisma.timeEntry.aggregate({
+        where: {
+          workspaceId: context.id,
+          userId,
+          billable: true,
+          date: { gte: new Date(week.start), lte: new Date(week.end) },
+        },
+        _sum: { durationMinutes: true },
+      }),
+    ]);
+
+    return {
+      workedMinutes: summary.totals.workedMinutes,
+      regularMinutes: summary.totals.regularMinutes,
+      overtimeMinutes: summary.totals.overtimeMinutes,
+      billableMinutes: billable._sum.durationMinutes ?? 0,
+    };
+  }
+
+  private async paginate(
+    where: Prisma.TimesheetWhereInput,
+    orderBy: Prisma.TimesheetOrderByWithRelationInput,
+    query: ListTimesheetsQueryDto,
+  ) {
+    const [timesheets, total] = await this.prisma.$transaction([
+      this.prisma.timesheet.findMany({
+        where,
+        include: TIMESHEET_INCLUDE,
+        orderBy,
+        skip: query.skip,
+        take: query.limit,
+      }),
+      this.prisma.timesheet.count({ where }),
+    ]);
+
+    return {
+      timesheets: timesheets.map((timesheet) => this.toResponse(timesheet)),
+      meta: query.toMeta(total),
+    };
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private toResponse(timesheet: TimesheetWithRelations) {
+    return {
+      ...timesheet,
+      weekStart: this.formatDate(timesheet.weekStart),
+      weekEnd: this.formatDate(timesheet.weekEnd),
+    };
+  }
+}
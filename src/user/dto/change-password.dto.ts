@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, Matches, MaxLength, MinLength } from 'class-validator';
+
+export class ChangePasswordDto {
+  @ApiProperty({
+    description: 'Current password for the account',
+    example: 'SecurePass123!',
+  })
+  @IsString()
+  currentPassword: string;
+
+  @ApiProperty({
+    description: 'New password for the account',
+    example: 'EvenMoreSecure456!',
+    minLength: 8,
+    maxLength: 100,
+    pattern:
+      '^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)(?=.*[@$!%*?&])[A-Za-z\\d@$!%*?&]',
+  })
+  @IsString()
+  @MinLength(8, { message: 'Password must be at least 8 characters long' })
+  @MaxLength(100, { message: 'Password must not exceed 100 characters' })
+  @Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, {
+    message:
+      'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character',
+  })
+  newPassword: string;
+}
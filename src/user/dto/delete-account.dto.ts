@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+
+export class DeleteAccountDto {
+  @ApiPropertyOptional({
+    description:
+      'Current password to confirm the deletion, required when the account has one',
+    example: 'SecurePass123!',
+  })
+  @IsOptional()
+  @IsString()
+  password?: string;
+}
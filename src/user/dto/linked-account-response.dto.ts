@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class LinkedAccountResponseDto {
+  @ApiProperty({
+    description: 'Unique linked account identifier',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Account type',
+    example: 'oidc',
+  })
+  type: string;
+
+  @ApiProperty({
+    description: 'Identity provider name',
+    example: 'google',
+  })
+  provider: string;
+
+  @ApiProperty({
+    description: 'User identifier at the identity provider',
+    example: '109876543210987654321',
+  })
+  providerAccountId: string;
+
+  @ApiProperty({
+    description: 'Link creation timestamp',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  createdAt: Date;
+}
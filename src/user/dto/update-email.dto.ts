@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsString, MaxLength, MinLength } from 'class-validator';
+
+export class UpdateEmailDto {
+  @ApiProperty({
+    description: 'New email address for the account',
+    example: 'john.doe@example.com',
+    minLength: 6,
+    maxLength: 255,
+    format: 'email',
+  })
+  @IsString()
+  @MinLength(6, { message: 'Email must be at least 6 characters long' })
+  @MaxLength(255, { message: 'Email must not exceed 255 characters' })
+  @IsEmail({}, { message: 'Invalid email address' })
+  email: string;
+
+  @ApiProperty({
+    description: 'Current password to confirm the change',
+    example: 'SecurePass123!',
+  })
+  @IsString()
+  password: string;
+}
@@ -0,0 +1,252 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsTimeZone,
+  Matches,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import {
+  DATE_FORMATS,
+  LANGUAGE_CODE_PATTERN,
+  THEMES,
+  TIME_FORMATS,
+  TIME_OF_DAY_PATTERN,
+  WEEK_DAYS,
+} from '../user-preferences.constants';
+
+export class UpdatePreferencesDto {
+  @ApiPropertyOptional({
+    description: 'IANA time zone',
+    example: 'Europe/Berlin',
+  })
+  @IsOptional()
+  @IsTimeZone({ message: 'Timezone must be a valid IANA time zone' })
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description: 'ISO language code, optionally with a region',
+    example: 'en-US',
+  })
+  @IsOptional()
+  @Matches(LANGUAGE_CODE_PATTERN, {
+    message: 'Language must be a valid ISO language code (e.g. en or en-US)',
+  })
+  language?: string;
+
+  @ApiPropertyOptional({ enum: THEMES, example: 'dark' })
+  @IsOptional()
+  @IsIn(THEMES, { message: `Theme must be one of: ${THEMES.join(', ')}` })
+  theme?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Versioned free-form client settings, null to clear them. Validated against the settings schema.',
+    example: { version: 1, dashboard: { defaultView: 'board' } },
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsObject({ message: 'Settings must be an object' })
+  settings?: Record<string, unknown> | null;
+
+  @ApiPropertyOptional({
+    description: 'Default working hours per day',
+    minimum: 1,
+    maximum: 24,
+    example: 8,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(24)
+  defaultWorkHours?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Scheduled start of the work day in the user timezone, used to flag late clock-ins',
+    example: '09:00',
+  })
+  @IsOptional()
+  @Matches(TIME_OF_DAY_PATTERN, {
+    message: 'Work day start time must be in HH:mm format',
+  })
+  workDayStartTime?: string;
+
+  @ApiPropertyOptional({
+    description: 'First working day of the week (Sunday = 0)',
+    minimum: 0,
+    maximum: 6,
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  workWeekStartDay?: number;
+
+  @ApiPropertyOptional({
+    description: 'Last working day of the week (Sunday = 0)',
+    minimum: 0,
+    maximum: 6,
+    example: 5,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  workWeekEndDay?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of working days per week',
+    minimum: 1,
+    maximum: 7,
+    example: 5,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(7)
+  workingDaysPerWeek?: number;
+
+  @ApiPropertyOptional({
+    description: 'Hours per week before overtime applies',
+    minimum: 0,
+    maximum: 168,
+    example: 40,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(168)
+  overtimeThreshold?: number;
+
+  @ApiPropertyOptional({ example: false })
+  @IsOptional()
+  @IsBoolean()
+  autoClockOut?: boolean;
+
+  @ApiPropertyOptional({ minimum: 0, maximum: 240, example: 60 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  lunchDurationMinutes?: number;
+
+  @ApiPropertyOptional({ minimum: 0, maximum: 120, example: 15 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(120)
+  breakDurationMinutes?: number;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  requireClockOut?: boolean;
+
+  @ApiPropertyOptional({ example: false })
+  @IsOptional()
+  @IsBoolean()
+  requireNotesOnClockOut?: boolean;
+
+  @ApiPropertyOptional({ example: false })
+  @IsOptional()
+  @IsBoolean()
+  allowLateClockIn?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Minutes a clock-in may be late without being flagged',
+    minimum: 0,
+    maximum: 240,
+    example: 15,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  lateClockInTolerance?: number;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  autoPauseBreaks?: boolean;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  remindersEnabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Minutes before shift end to send a reminder',
+    minimum: 0,
+    maximum: 240,
+    example: 15,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  reminderBeforeClockOut?: number;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  emailNotifications?: boolean;
+
+  @ApiPropertyOptional({ example: false })
+  @IsOptional()
+  @IsBoolean()
+  smsNotifications?: boolean;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  pushNotifications?: boolean;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  weeklyReportEmails?: boolean;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  overtimeAlerts?: boolean;
+
+  @ApiPropertyOptional({ enum: DATE_FORMATS, example: 'YYYY-MM-DD' })
+  @IsOptional()
+  @IsIn(DATE_FORMATS, {
+    message: `Date format must be one of: ${DATE_FORMATS.join(', ')}`,
+  })
+  dateFormat?: string;
+
+  @ApiPropertyOptional({ enum: TIME_FORMATS, example: '24h' })
+  @IsOptional()
+  @IsIn(TIME_FORMATS, {
+    message: `Time format must be one of: ${TIME_FORMATS.join(', ')}`,
+  })
+  timeFormat?: string;
+
+  @ApiPropertyOptional({ enum: WEEK_DAYS, example: 'monday' })
+  @IsOptional()
+  @IsIn(WEEK_DAYS, {
+    message: `Week start must be one of: ${WEEK_DAYS.join(', ')}`,
+  })
+  weekStartOn?: string;
+
+  @ApiPropertyOptional({ example: false })
+  @IsOptional()
+  @IsBoolean()
+  showWeekends?: boolean;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  showHolidays?: boolean;
+}
@@ -0,0 +1,53 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  MaxLength,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+
+export class UpdateProfileDto {
+  @ApiPropertyOptional({
+    description: 'Full name of the user',
+    example: 'John Doe',
+    minLength: 2,
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(2, { message: 'Name must be at least 2 characters long' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Unique username for the account',
+    example: 'johndoe',
+    minLength: 3,
+    maxLength: 32,
+    pattern: '^[a-z0-9_]+$',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(3, { message: 'Username must be at least 3 characters long' })
+  @MaxLength(32, { message: 'Username must not exceed 32 characters' })
+  @Matches(/^[a-z0-9_]+$/, {
+    message:
+      'Username can only contain lowercase letters, numbers, and underscores',
+  })
+  username?: string;
+
+  @ApiPropertyOptional({
+    description: 'Profile image URL, null to remove it',
+    example: 'https://cdn.example.com/avatars/johndoe.png',
+    maxLength: 255,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsUrl({}, { message: 'Image must be a valid URL' })
+  @MaxLength(255, { message: 'Image URL must not exceed 255 characters' })
+  image?: string | null;
+}
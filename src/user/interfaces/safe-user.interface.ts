@@ -0,0 +1,6 @@
+import { User } from 'generated/prisma/client';
+
+/**
+ * User record without credentials or secrets, safe to return to clients
+ */
+export type SafeUser = Omit<User, 'password' | 'twoFactorSecret'>;
@@ -0,0 +1,237 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { randomInt } from 'node:crypto';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { SafeUser } from './interfaces/safe-user.interface';
+import { canSignIn } from './user.service';
+
+/**
+ * Identity asserted by an external provider
+ */
+export interface ExternalIdentity {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  picture?: string;
+}
+
+/**
+ * Tokens issued by an external provider
+ */
+export interface ExternalTokens {
+  access_token?: string;
+  refresh_token?: string;
+  id_token?: string;
+  token_type?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+/**
+ * Manages external identity provider accounts linked to users
+ */
+@Injectable()
+export class LinkedAccountService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Resolve the user for an external identity. Links to an existing user
+   * by verified email or creates a new user without a password.
+   *
+   * An existing user whose own email is unverified is never linked: anyone
+   * could have registered that address, and their password would keep
+   * working after the owner signs in through the provider.
+   */
+  async findOrCreateFromOidc(
+    provider: string,
+    identity: ExternalIdentity,
+    tokens: ExternalTokens,
+  ): Promise<SafeUser> {
+    const tokenData = {
+      access_token: tokens.access_token,
+      refresh_token: tokens.refresh_token,
+      id_token: tokens.id_token,
+      token_type: tokens.token_type,
+      scope: tokens.scope,
+      expires_at: tokens.expires_in
+        ? Math.floor(Date.now() / 1000) + tokens.expires_in
+        : null,
+    };
+
+    const account = await this.prisma.account.findUnique({
+      where: {
+        provider_providerAccountId: {
+          provider,
+          providerAccountId: identity.sub,
+        },
+      },
+    });
+
+    if (account) {
+      await this.prisma.account.update({
+        where: { id: account.id },
+        data: tokenData,
+      });
+
+      return this.findSignInUser(account.userId);
+    }
+
+    if (!identity.email) {
+      throw new UnauthorizedException(
+        'Identity provider did not return an email address',
+      );
+    }
+    if (identity.email_verified !== true) {
+      throw new UnauthorizedException(
+        'Email address is not verified by the identity provider',
+      );
+    }
+
+    const normalizedEmail = identity.email.toLowerCase().trim();
+    const existing = await this.prisma.user.findUnique({
+      where: { email: normalizedEmail },
+    });
+
+    if (existing) {
+      if (!existing.emailVerified) {
+        throw new UnauthorizedException(
+          'An account with this email exists but its email is not verified. Log in with your password and verify your email first.',
+        );
+      }
+
+      await this.prisma.account.create({
+        data: {
+          userId: existing.id,
+          type: 'oidc',
+          provider,
+          providerAccountId: identity.sub,
+          ...tokenData,
+        },
+      });
+
+      return this.findSignInUser(existing.id);
+    }
+
+    const user = await this.prisma.user.create({
+      data: {
+        email: normalizedEmail,
+        emailVerified: new Date(),
+        name: (identity.name || normalizedEmail.split('@')[0]).slice(0, 100),
+        username: await this.generateUsername(
+          identity.preferred_username || normalizedEmail.split('@')[0],
+        ),
+        image: identity.picture?.slice(0, 255),
+        isActive: true,
+        preferences: {
+          create: {},
+        },
+        accounts: {
+          create: {
+            type: 'oidc',
+            provider,
+            providerAccountId: identity.sub,
+            ...tokenData,
+          },
+        },
+      },
+    });
+
+    return this.findSignInUser(user.id);
+  }
+
+  /**
+   * List the external accounts linked to the user
+   */
+  async listAccounts(userId: string) {
+    return this.prisma.account.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        type: true,
+        provider: true,
+        providerAccountId: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Remove a linked account, keeping at least one way to log in
+   */
+  async unlinkAccount(userId: string, accountId: string): Promise<void> {
+    const account = await this.prisma.account.findFirst({
+      where: { id: accountId, userId },
+    });
+    if (!account) {
+      throw new NotFoundException('Linked account not found');
+    }
+
+    const [user, accountCount] = await Promise.all([
+      this.prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { password: true },
+      }),
+      this.prisma.account.count({ where: { userId } }),
+    ]);
+
+    if (!user.password && accountCount <= 1) {
+      throw new BadRequestException(
+        'Cannot remove the last login method. Set a password first.',
+      );
+    }
+
+    await this.prisma.account.delete({ where: { id: account.id } });
+  }
+
+  private async findSignInUser(userId: string): Promise<SafeUser> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      omit: {
+        password: true,
+        twoFactorSecret: true,
+      },
+    });
+
+    if (!user || !canSignIn(user)) {
+      throw new UnauthorizedException(
+        'Your account has been deactivated. Please contact support.',
+      );
+    }
+
+    return user;
+  }
+
+  /**
+   * Derive a unique username matching the registration rules
+   */
+  private async generateUsername(source: string): Promise<string> {
+    let base = source
+      .toLowerCase()
+      .replace(/[^a-z0-9_]/g, '_')
+      .slice(0, 27);
+    if (base.length < 3) {
+      base = `user_${base}`;
+    }
+
+    let candidate = base;
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const taken = await this.prisma.user.findUnique({
+        where: { username: candidate },
+        select: { id: true },
+      });
+      if (!taken) {
+        return candidate;
+      }
+      candidate = `${base}_${randomInt(1000, 10000)}`;
+    }
+
+    throw new BadRequestException('Could not generate a unique username');
+  }
+}
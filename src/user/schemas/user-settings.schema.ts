@@ -0,0 +1,49 @@
+import z from 'zod';
+
+export const CURRENT_SETTINGS_VERSION = 1;
+
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time in HH:mm format');
+
+/**
+ * Version 1 of the free-form user settings
+ */
+const userSettingsV1 = z.strictObject({
+  version: z.literal(1),
+  dashboard: z
+    .strictObject({
+      defaultView: z.enum(['list', 'board', 'calendar', 'timeline']),
+      sidebarCollapsed: z.boolean(),
+    })
+    .partial()
+    .optional(),
+  notifications: z
+    .strictObject({
+      digestFrequency: z.enum(['never', 'daily', 'weekly']),
+      quietHours: z.strictObject({
+        start: timeOfDay,
+        end: timeOfDay,
+      }),
+    })
+    .partial()
+    .optional(),
+  tasks: z
+    .strictObject({
+      defaultPriority: z.enum(['low', 'medium', 'high', 'urgent']),
+      showCompleted: z.boolean(),
+    })
+    .partial()
+    .optional(),
+});
+
+/**
+ * Every supported settings version, discriminated by `version`.
+ * New versions are added here and older ones kept so stored
+ * settings stay readable.
+ */
+export const userSettingsSchema = z.discriminatedUnion('version', [
+  userSettingsV1,
+]);
+
+export type UserSettings = z.infer<typeof userSettingsSchema>;
@@ -0,0 +1,35 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { JobLockService } from 'src/common/scheduler/job-lock.service';
+import { UserService } from './user.service';
+
+@Injectable()
+export class UserCleanupService {
+  private readonly logger = new Logger(UserCleanupService.name);
+
+  constructor(
+    private readonly userService: UserService,
+    private readonly jobLockService: JobLockService,
+  ) {}
+
+  /**
+   * Hard delete accounts whose deletion grace period has expired
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeDeletedAccounts(): Promise<void> {
+    try {
+      await this.jobLockService.runExclusive(
+        'purge-deleted-accounts',
+        600,
+        async () => {
+          const count = await this.userService.purgeScheduledDeletions();
+          if (count > 0) {
+            this.logger.log(`Permanently deleted ${count} account(s)`);
+          }
+        },
+      );
+    } catch (error) {
+      this.logger.error('Failed to purge deleted accounts', error);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+export const THEMES = ['light', 'dark', 'system'] as const;
+
+export const TIME_FORMATS = ['12h', '24h'] as const;
+
+export const DATE_FORMATS = [
+  'MM/DD/YYYY',
+  'DD/MM/YYYY',
+  'YYYY-MM-DD',
+  'DD.MM.YYYY',
+  'MMM D, YYYY',
+  'D MMM YYYY',
+] as const;
+
+export const WEEK_DAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+
+// 24 hour time of day, e.g. 09:00
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// ISO 639-1/639-2 language code with an optional ISO 3166-1 region (e.g. en, en-US)
+export const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/;
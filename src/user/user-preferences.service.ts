@@ -0,0 +1,99 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { Prisma, UserPreferences } from 'generated/prisma/client';
+import { UpdatePreferencesDto } from './dto/update-preferences.dto';
+import { userSettingsSchema } from './schemas/user-settings.schema';
+
+@Injectable()
+export class UserPreferencesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Get the user's preferences, creating the defaults when missing
+   */
+  async getPreferences(userId: string): Promise<UserPreferences> {
+    return this.prisma.userPreferences.upsert({
+      where: { userId },
+      create: { userId },
+      update: {},
+    });
+  }
+
+  async updatePreferences(
+    userId: string,
+    changes: UpdatePreferencesDto,
+  ): Promise<UserPreferences> {
+    const current = await this.getPreferences(userId);
+    const { settings, ...fields } = changes;
+
+    this.assertWorkWeekConsistent({ ...current, ...fields });
+
+    return this.prisma.userPreferences.update({
+      where: { userId },
+      data: {
+        ...fields,
+        ...(settings !== undefined && {
+          settings: this.parseSettings(settings),
+        }),
+      },
+    });
+  }
+
+  /**
+   * Restore every preference to its default value
+   */
+  async resetPreferences(userId: string): Promise<UserPreferences> {
+    const [, preferences] = await this.prisma.$transaction([
+      this.prisma.userPreferences.deleteMany({ where: { userId } }),
+      this.prisma.userPreferences.create({ data: { userId } }),
+    ]);
+
+    return preferences;
+  }
+
+  private assertWorkWeekConsistent(
+    preferences: Pick<
+      UserPreferences,
+      'workWeekStartDay' | 'workWeekEndDay' | 'workingDaysPerWeek'
+    >,
+  ): void {
+    const { workWeekStartDay, workWeekEndDay, workingDaysPerWeek } =
+      preferences;
+
+    if (workWeekStartDay > workWeekEndDay) {
+      throw new BadRequestException(
+        'Work week start day must not be after the work week end day',
+      );
+    }
+
+    const daysInRange = workWeekEndDay - workWeekStartDay + 1;
+    if (workingDaysPerWeek > daysInRange) {
+      throw new BadRequestException(
+        `Working days per week cannot exceed the ${daysInRange} day(s) between the work week start and end day`,
+      );
+    }
+  }
+
+  private parseSettings(
+    settings: Record<string, unknown> | null,
+  ): Prisma.InputJsonValue | typeof Prisma.DbNull {
+    if (settings === null) {
+      return Prisma.DbNull;
+    }
+
+    const result = userSettingsSchema.safeParse(settings);
+    if (!result.success) {
+      throw new BadRequestException({
+        message: 'Invalid settings',
+        details: {
+          issues: result.error.issues.map((issue) => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+      });
+    }
+
+    return result.data;
+  }
+}
@@ -1,7 +1,297 @@
-import { Controller } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Request as ReqDecorator,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Request, Response } from 'express';
 import { UserService } from './user.service';
+import { AccountLockService } from './account-lock.service';
+import { LinkedAccountService } from './linked-account.service';
+import { LinkedAccountResponseDto } from './dto/linked-account-response.dto';
+import { AuthenticatedGuard } from 'src/auth/guards/authenticated.guard';
+import { AdminGuard } from 'src/auth/guards/admin.guard';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { SafeUser } from './interfaces/safe-user.interface';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+import { SecurityEventsService } from 'src/security-events/security-events.service';
+import { SecurityEventResponseDto } from 'src/security-events/dto/security-event-response.dto';
+import { extractRequestMetadata } from 'src/common/utils/request-metadata.util';
+import { SessionService } from 'src/common/session/session.service';
+import { SESSION_COOKIE_NAME } from 'src/common/session/session.constants';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { UpdateEmailDto } from './dto/update-email.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { DeleteAccountDto } from './dto/delete-account.dto';
+import { UserPreferencesService } from './user-preferences.service';
+import { UpdatePreferencesDto } from './dto/update-preferences.dto';
 
+@ApiTags('Users')
 @Controller('users')
 export class UserController {
-  constructor(private readonly userService: UserService) {}
+  constructor(
+    private readonly userService: UserService,
+    private readonly accountLock: AccountLockService,
+    private readonly securityEvents: SecurityEventsService,
+    private readonly linkedAccounts: LinkedAccountService,
+    private readonly sessionService: SessionService,
+    private readonly preferencesService: UserPreferencesService,
+  ) {}
+
+  @UseGuards(AuthenticatedGuard)
+  @Get('me')
+  @ApiOperation({ summary: 'Get the profile of the current user' })
+  async getProfile(@CurrentUser() user: SafeUser) {
+    const profile = await this.userService.getProfile(user.id);
+
+    return {
+      message: 'Profile retrieved successfully',
+      data: profile,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Patch('me')
+  @ApiOperation({ summary: 'Update the profile of the current user' })
+  async updateProfile(
+    @CurrentUser() user: SafeUser,
+    @Body() profile: UpdateProfileDto,
+  ) {
+    const updated = await this.userService.updateProfile(user.id, profile);
+
+    return {
+      message: 'Profile updated successfully',
+      data: updated,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Patch('me/email')
+  @ApiOperation({
+    summary: 'Change the email address of the current user',
+    description:
+      'Requires the current password. The new address must be verified again.',
+  })
+  async changeEmail(
+    @CurrentUser() user: SafeUser,
+    @Body() body: UpdateEmailDto,
+    @ReqDecorator() req: Request,
+  ) {
+    const updated = await this.userService.changeEmail(
+      user.id,
+      body.email,
+      body.password,
+      extractRequestMetadata(req),
+    );
+
+    return {
+      message:
+        'Email address updated successfully. Please verify your new email address.',
+      data: updated,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Post('me/password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Change the password of the current user',
+    description: 'All other sessions of the user are terminated.',
+  })
+  async changePassword(
+    @CurrentUser() user: SafeUser,
+    @Body() body: ChangePasswordDto,
+    @ReqDecorator() req: Request,
+  ) {
+    await this.userService.changePassword(
+      user.id,
+      body.currentPassword,
+      body.newPassword,
+      req.sessionID,
+      extractRequestMetadata(req),
+    );
+
+    return {
+      message: 'Password changed successfully',
+      data: null,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Delete('me')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Delete the account of the current user',
+    description:
+      'The account is deactivated immediately and permanently deleted after a grace period. Signing in again within the grace period restores it. Fails while the user owns a shared workspace.',
+  })
+  async deleteAccount(
+    @CurrentUser() user: SafeUser,
+    @Body() body: DeleteAccountDto,
+    @ReqDecorator() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const result = await this.userService.scheduleDeletion(
+      user.id,
+      body.password,
+      extractRequestMetadata(req),
+    );
+
+    await this.sessionService.destroyCurrent(req);
+    res.clearCookie(SESSION_COOKIE_NAME);
+
+    return {
+      message: 'Account scheduled for deletion',
+      data: result,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Get('me/preferences')
+  @ApiOperation({ summary: 'Get the preferences of the current user' })
+  async getPreferences(@CurrentUser() user: SafeUser) {
+    const preferences = await this.preferencesService.getPreferences(user.id);
+
+    return {
+      message: 'Preferences retrieved successfully',
+      data: preferences,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Patch('me/preferences')
+  @ApiOperation({ summary: 'Update the preferences of the current user' })
+  async updatePreferences(
+    @CurrentUser() user: SafeUser,
+    @Body() changes: UpdatePreferencesDto,
+  ) {
+    const preferences = await this.preferencesService.updatePreferences(
+      user.id,
+      changes,
+    );
+
+    return {
+      message: 'Preferences updated successfully',
+      data: preferences,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Post('me/preferences/reset')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reset the preferences of the current user' })
+  async resetPreferences(@CurrentUser() user: SafeUser) {
+    const preferences = await this.preferencesService.resetPreferences(user.id);
+
+    return {
+      message: 'Preferences reset to defaults',
+      data: preferences,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Get('me/accounts')
+  @ApiOperation({
+    summary: 'List external accounts linked to the current user',
+  })
+  @ApiOkResponse({ type: LinkedAccountResponseDto, isArray: true })
+  async listAccounts(@CurrentUser() user: SafeUser) {
+    const accounts = await this.linkedAccounts.listAccounts(user.id);
+
+    return {
+      message: 'Linked accounts retrieved successfully',
+      data: accounts,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Delete('me/accounts/:id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unlink an external account from the current user' })
+  async unlinkAccount(
+    @CurrentUser() user: SafeUser,
+    @Param('id', ParseUUIDPipe) accountId: string,
+  ) {
+    await this.linkedAccounts.unlinkAccount(user.id, accountId);
+
+    return {
+      message: 'Account unlinked successfully',
+      data: null,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard)
+  @Get('me/security-events')
+  @ApiOperation({ summary: 'List security events of the current user' })
+  @ApiOkResponse({ type: SecurityEventResponseDto, isArray: true })
+  async listSecurityEvents(
+    @CurrentUser() user: SafeUser,
+    @Query() pagination: PaginationQueryDto,
+  ) {
+    const { events, meta } = await this.securityEvents.findForUser(
+      user.id,
+      pagination,
+    );
+
+    return {
+      message: 'Security events retrieved successfully',
+      data: events,
+      meta,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard, AdminGuard)
+  @Post(':id/unlock')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unlock a locked user account (admin only)' })
+  async unlock(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() admin: SafeUser,
+    @ReqDecorator() req: Request,
+  ) {
+    const user = await this.accountLock.unlock(
+      id,
+      admin.id,
+      extractRequestMetadata(req),
+    );
+
+    return {
+      message: 'User account unlocked successfully',
+      data: user,
+    };
+  }
+
+  @UseGuards(AuthenticatedGuard, AdminGuard)
+  @Post(':id/deactivate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Deactivate a user account and end its sessions (admin only)',
+  })
+  async deactivate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() admin: SafeUser,
+    @ReqDecorator() req: Request,
+  ) {
+    const user = await this.userService.deactivateUser(
+      id,
+      admin.id,
+      extractRequestMetadata(req),
+    );
+
+    return {
+      message: 'User account deactivated successfully',
+      data: user,
+    };
+  }
 }
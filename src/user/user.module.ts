@@ -1,10 +1,23 @@
 import { Module } from '@nestjs/common';
 import { UserService } from './user.service';
 import { UserController } from './user.controller';
+import { AccountLockService } from './account-lock.service';
+import { LinkedAccountService } from './linked-account.service';
+import { UserCleanupService } from './user-cleanup.service';
+import { UserPreferencesService } from './user-preferences.service';
+import { SecurityEventsModule } from 'src/security-events/security-events.module';
+import { VerificationModule } from 'src/verification/verification.module';
 
 @Module({
+  imports: [SecurityEventsModule, VerificationModule],
   controllers: [UserController],
-  providers: [UserService],
-  exports: [UserService],
+  providers: [
+    UserService,
+    AccountLockService,
+    LinkedAccountService,
+    UserCleanupService,
+    UserPreferencesService,
+  ],
+  exports: [UserService, LinkedAccountService, UserPreferencesService],
 })
 export class UserModule {}
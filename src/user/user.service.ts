@@ -2,18 +2,74 @@ import {
   BadRequestException,
   ConflictException,
   Injectable,
+  NotFoundException,
   UnauthorizedException,
 } from '@nestjs/common';
 import { PrismaService } from 'src/common/prisma/prisma.service';
 import { CreateUserDto } from './dto/createUser.dto';
 import z from 'zod';
 import * as argon2 from 'argon2';
+import { SessionService } from 'src/common/session/session.service';
+import {
+  RateLimiterService,
+  RateLimitPolicy,
+} from 'src/common/rate-limit/rate-limiter.service';
+import { RequestMetadata } from 'src/common/utils/request-metadata.util';
+import { AccountLockService } from './account-lock.service';
+import { AccountLockedException } from 'src/common/exceptions/account-locked.exception';
+import { SecurityEventsService } from 'src/security-events/security-events.service';
+import { SecurityEventType, WorkspaceRole } from 'generated/prisma/client';
+import { EmailVerificationService } from 'src/verification/email-verification.service';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { SafeUser } from './interfaces/safe-user.interface';
+
+// Failed login attempts allowed per identifier (email or username)
+const LOGIN_IDENTIFIER_LIMIT: RateLimitPolicy = {
+  limit: 10,
+  windowSeconds: 15 * 60,
+};
+
+// Failed login attempts allowed per client IP address
+const LOGIN_IP_LIMIT: RateLimitPolicy = {
+  limit: 20,
+  windowSeconds: 15 * 60,
+};
+
+// Number of previous passwords that cannot be reused
+const PASSWORD_HISTORY_LIMIT = 5;
+
+// Days a deleted account can be restored before it is removed for good
+export const ACCOUNT_DELETION_GRACE_DAYS = 30;
+
+/**
+ * Whether the user may sign in: active, or deleted but still within the
+ * grace period, in which case signing in restores the account
+ */
+export function canSignIn(user: {
+  isActive: boolean;
+  deletionScheduledAt: Date | null;
+}): boolean {
+  return (
+    user.isActive ||
+    (user.deletionScheduledAt !== null && user.deletionScheduledAt > new Date())
+  );
+}
 
 @Injectable()
 export class UserService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly sessionService: SessionService,
+    private readonly rateLimiter: RateLimiterService,
+    private readonly accountLock: AccountLockService,
+    private readonly securityEvents: SecurityEventsService,
+    private readonly emailVerification: EmailVerificationService,
+  ) {}
 
-  async createUser(userData: CreateUserDto) {
+  async createUser(
+    userData: CreateUserDto,
+    options: { emailVerified?: boolean } = {},
+  ) {
     // Normalize and validate email
     const normalizedEmail = userData.email.toLowerCase().trim();
     const emailSchema = z.email();
@@ -44,31 +100,373 @@ export class UserService {
         name: userData.name.trim(),
         username: userData.username.trim(),
         password: hashedPassword,
+        emailVerified: options.emailVerified ? new Date() : null,
         isActive: true,
         preferences: {
           create: {},
         },
+        passwordHistory: {
+          create: { password: hashedPassword },
+        },
+      },
+      omit: {
+        password: true,
+        twoFactorSecret: true,
+      },
+    });
+
+    return user;
+  }
+
+  async findActiveById(id: string) {
+    return this.prisma.user.findFirst({
+      where: {
+        id,
+        isActive: true,
+      },
+      omit: {
+        password: true,
+        twoFactorSecret: true,
       },
+    });
+  }
+
+  /**
+   * Find a user who may complete a sign-in, including accounts
+   * awaiting deletion
+   */
+  async findSignInCandidate(id: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id },
       omit: {
         password: true,
         twoFactorSecret: true,
       },
     });
 
+    return user && canSignIn(user) ? user : null;
+  }
+
+  async getProfile(id: string): Promise<SafeUser> {
+    const user = await this.findActiveById(id);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
     return user;
   }
 
+  async updateProfile(id: string, profile: UpdateProfileDto) {
+    const username = profile.username?.trim();
+
+    if (username) {
+      const taken = await this.prisma.user.findFirst({
+        where: {
+          username: { equals: username, mode: 'insensitive' },
+          NOT: { id },
+        },
+        select: { id: true },
+      });
+      if (taken) {
+        throw new ConflictException('This username is already taken');
+      }
+    }
+
+    return this.prisma.user.update({
+      where: { id },
+      data: {
+        name: profile.name?.trim(),
+        username,
+        image: profile.image,
+      },
+      omit: {
+        password: true,
+        twoFactorSecret: true,
+      },
+    });
+  }
+
+  /**
+   * Change the email address after confirming the password.
+   * The new address has to be verified again.
+   */
+  async changeEmail(
+    id: string,
+    email: string,
+    password: string,
+    metadata?: RequestMetadata,
+  ) {
+    await this.verifyCurrentPassword(id, password);
+
+    const normalizedEmail = email.toLowerCase().trim();
+    const isExist = await this.prisma.user.findUnique({
+      where: { email: normalizedEmail },
+      select: { id: true },
+    });
+    if (isExist) {
+      throw new ConflictException(
+        'An account with this email address already exists',
+      );
+    }
+
+    const previous = await this.prisma.user.findUniqueOrThrow({
+      where: { id },
+      select: { email: true },
+    });
+
+    const user = await this.prisma.user.update({
+      where: { id },
+      data: {
+        email: normalizedEmail,
+        emailVerified: null,
+      },
+      omit: {
+        password: true,
+        twoFactorSecret: true,
+      },
+    });
+
+    await this.emailVerification.sendVerificationEmail(user);
+    await this.securityEvents.logEvent(
+      id,
+      SecurityEventType.EMAIL_CHANGED,
+      metadata,
+      { previousEmail: previous.email },
+    );
+
+    return user;
+  }
+
+  /**
+   * Change the password after confirming the current one.
+   * Every other session of the user is terminated.
+   */
+  async changePassword(
+    id: string,
+    currentPassword: string,
+    newPassword: string,
+    currentSessionId: string,
+    metadata?: RequestMetadata,
+  ): Promise<void> {
+    await this.verifyCurrentPassword(id, currentPassword);
+    await this.updatePassword(id, newPassword, metadata, { method: 'change' });
+    await this.sessionService.revokeAll(id, currentSessionId);
+  }
+
+  /**
+   * Deactivate the account and schedule its permanent deletion
+   * after the grace period
+   */
+  async scheduleDeletion(
+    id: string,
+    password?: string,
+    metadata?: RequestMetadata,
+  ) {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id },
+      select: { password: true },
+    });
+    if (user.password) {
+      await this.verifyCurrentPassword(id, password ?? '');
+    }
+
+    // Shared workspaces would be left without an owner
+    const ownedWorkspaces = await this.prisma.workspace.findMany({
+      where: {
+        isPersonal: false,
+        members: { some: { userId: id, role: WorkspaceRole.OWNER } },
+      },
+      select: { name: true },
+    });
+    if (ownedWorkspaces.length > 0) {
+      throw new ConflictException(
+        `Transfer ownership of ${ownedWorkspaces.map((workspace) => workspace.name).join(', ')} before deleting your account`,
+      );
+    }
+
+    const deletionScheduledAt = new Date(
+      Date.now() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    await this.prisma.user.update({
+      where: { id },
+      data: { isActive: false, deletionScheduledAt },
+    });
+    await this.sessionService.revokeAll(id);
+
+    await this.securityEvents.logEvent(
+      id,
+      SecurityEventType.ACCOUNT_DEACTIVATED,
+      metadata,
+      { deletionScheduledAt: deletionScheduledAt.toISOString() },
+    );
+
+    return { deletionScheduledAt };
+  }
+
+  /**
+   * Reactivate an account awaiting deletion. Does nothing for active
+   * accounts or once the grace period has passed.
+   */
+  async restoreScheduledDeletion(
+    id: string,
+    metadata?: RequestMetadata,
+  ): Promise<void> {
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        id,
+        isActive: false,
+        deletionScheduledAt: { gt: new Date() },
+      },
+      data: { isActive: true, deletionScheduledAt: null },
+    });
+
+    if (count > 0) {
+      await this.securityEvents.logEvent(
+        id,
+        SecurityEventType.ACCOUNT_RESTORED,
+        metadata,
+      );
+    }
+  }
+
+  /**
+   * Permanently remove accounts whose deletion grace period has passed.
+   * Related records are removed through the relation cascades.
+   *
+   * @returns number of deleted users
+   */
+  async purgeScheduledDeletions(now = new Date()): Promise<number> {
+    const { count } = await this.prisma.user.deleteMany({
+      where: {
+        isActive: false,
+        deletionScheduledAt: { lte: now },
+      },
+    });
+
+    return count;
+  }
+
+  /**
+   * Deactivate the user and terminate all of their sessions, used by
+   * administrators
+   */
+  async deactivateUser(
+    id: string,
+    deactivatedBy: string,
+    metadata?: RequestMetadata,
+  ) {
+    if (id === deactivatedBy) {
+      throw new BadRequestException('You cannot deactivate your own account');
+    }
+
+    const exists = await this.prisma.user.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+    if (!exists) {
+      throw new NotFoundException('User not found');
+    }
+
+    // A pending deletion is cancelled, so signing in during its grace
+    // period cannot restore the account
+    const user = await this.prisma.user.update({
+      where: { id },
+      data: { isActive: false, deletionScheduledAt: null },
+      omit: {
+        password: true,
+        twoFactorSecret: true,
+      },
+    });
+
+    await this.sessionService.revokeAll(id);
+
+    await this.securityEvents.logEvent(
+      id,
+      SecurityEventType.ACCOUNT_DEACTIVATED,
+      metadata,
+      { deactivatedBy },
+    );
+
+    return user;
+  }
+
+  /**
+   * Replace the user's password, rejecting any of the recently used ones
+   */
+  async updatePassword(
+    userId: string,
+    newPassword: string,
+    metadata?: RequestMetadata,
+    details?: { method: 'change' | 'reset' },
+  ): Promise<void> {
+    await this.assertPasswordNotReused(userId, newPassword);
+
+    const hashedPassword = await argon2.hash(newPassword);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: { password: hashedPassword },
+      });
+
+      await tx.passwordHistory.create({
+        data: { userId, password: hashedPassword },
+      });
+
+      // Keep only the entries that are still enforced
+      const stale = await tx.passwordHistory.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        skip: PASSWORD_HISTORY_LIMIT,
+        select: { id: true },
+      });
+      if (stale.length > 0) {
+        await tx.passwordHistory.deleteMany({
+          where: { id: { in: stale.map((entry) => entry.id) } },
+        });
+      }
+    });
+
+    await this.securityEvents.logEvent(
+      userId,
+      SecurityEventType.PASSWORD_CHANGED,
+      metadata,
+      details,
+    );
+  }
+
+  /**
+   * Reject a password matching one of the user's recently used ones
+   */
+  async assertPasswordNotReused(
+    userId: string,
+    newPassword: string,
+  ): Promise<void> {
+    const history = await this.prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: PASSWORD_HISTORY_LIMIT,
+    });
+
+    for (const entry of history) {
+      if (await argon2.verify(entry.password, newPassword)) {
+        throw new BadRequestException(
+          `New password must differ from your last ${PASSWORD_HISTORY_LIMIT} passwords`,
+        );
+      }
+    }
+  }
+
   async validateUser(
     username: string,
     password: string,
-    metadata?: { ipAddress?: string; userAgent?: string },
+    metadata?: RequestMetadata,
   ) {
     // Normalize username to lowercase
-    const normalizedUsername = username;
-
-    console.log({ metadata });
+    const normalizedUsername = username.trim().toLowerCase();
 
-    // TODO: Check is this user in ratelimit
+    await this.assertLoginNotLimited(normalizedUsername, metadata);
 
     const user = await this.prisma.user.findFirst({
       where: {
@@ -90,46 +488,200 @@ export class UserService {
     });
 
     if (!user || !user.password) {
-      // TODO: Record rate limit for non-existent user
+      await this.recordFailedLogin(normalizedUsername, metadata);
+      await this.securityEvents.logEvent(
+        null,
+        SecurityEventType.LOGIN_FAILURE,
+        metadata,
+        { identifier: normalizedUsername, reason: 'unknown_user' },
+      );
       return null;
     }
 
-    if (!user.isActive) {
+    if (!canSignIn(user)) {
       throw new UnauthorizedException(
         'Your account has been deactivated. Please contact support.',
       );
     }
 
-    // TODO: Implement look feature
+    this.accountLock.assertNotLocked(user);
 
     // check password
     const isPasswordValid = await argon2.verify(user.password, password);
 
     if (!isPasswordValid) {
-      // TODO: Increment failed attempts
-      // await this.accountLock.incrementFailedAttempts(user.id, metadata);
-      // await this.rateLimiter.recordFailedLoginAttempt(normalizedEmail);
-      // TODO: Log security event
-      // await this.securityEvents.logEvent(user.id, 'login_failure', metadata);
+      await this.recordFailedLogin(normalizedUsername, metadata);
+
+      await this.securityEvents.logEvent(
+        user.id,
+        SecurityEventType.LOGIN_FAILURE,
+        metadata,
+        { reason: 'invalid_password' },
+      );
+
+      const lockedUntil = await this.accountLock.incrementFailedAttempts(
+        user.id,
+        metadata,
+      );
+      if (lockedUntil) {
+        throw new AccountLockedException(lockedUntil);
+      }
 
       return null;
     }
 
-    // TODO: Successful login - reset failed attempts and rate limit
-    // await this.accountLock.resetFailedAttempts(user.id);
-    // await this.rateLimiter.resetLoginAttempts(normalizedEmail);
+    // With 2FA enabled the login completes after the second factor, and
+    // the failed attempts are only reset then
+    if (!user.twoFactorEnabled) {
+      await this.resetLoginLimits(user.id, normalizedUsername);
+      await this.recordSuccessfulLogin(user.id, metadata);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { password: _, twoFactorSecret: __, ...userWithoutPassword } = user;
+
+    return userWithoutPassword;
+  }
 
+  /**
+   * Mark a fully authenticated login on the user record and audit log.
+   * Signing in during the deletion grace period cancels the deletion.
+   */
+  async recordSuccessfulLogin(
+    userId: string,
+    metadata?: RequestMetadata,
+  ): Promise<void> {
+    await this.restoreScheduledDeletion(userId, metadata);
     await this.prisma.user.update({
-      where: { id: user.id },
+      where: { id: userId },
       data: { lastLoginAt: new Date() },
     });
 
-    // TODO: Log security event
-    // await this.securityEvents.logEvent(user.id, 'login_success', metadata);
+    await this.securityEvents.logEvent(
+      userId,
+      SecurityEventType.LOGIN_SUCCESS,
+      metadata,
+    );
+  }
 
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { password: _, twoFactorSecret: __, ...userWithoutPassword } = user;
+  /**
+   * Reject the second factor step while the account is locked or the
+   * identifier or client IP has exceeded its failed login limit
+   */
+  async assertTwoFactorAllowed(
+    user: { lockedUntil: Date | null },
+    identifier: string,
+    metadata?: RequestMetadata,
+  ): Promise<void> {
+    this.accountLock.assertNotLocked(user);
+    await this.assertLoginNotLimited(identifier, metadata);
+  }
 
-    return userWithoutPassword;
+  /**
+   * Count a wrong second factor like a wrong password, so holding the
+   * password does not allow unlimited guesses
+   */
+  async recordFailedTwoFactor(
+    userId: string,
+    identifier: string,
+    metadata?: RequestMetadata,
+  ): Promise<void> {
+    await this.recordFailedLogin(identifier, metadata);
+
+    await this.securityEvents.logEvent(
+      userId,
+      SecurityEventType.LOGIN_FAILURE,
+      metadata,
+      { reason: 'invalid_two_factor_code' },
+    );
+
+    const lockedUntil = await this.accountLock.incrementFailedAttempts(
+      userId,
+      metadata,
+    );
+    if (lockedUntil) {
+      throw new AccountLockedException(lockedUntil);
+    }
+  }
+
+  /**
+   * Clear failed attempts and the identifier rate limit once the login
+   * has fully succeeded
+   */
+  async resetLoginLimits(userId: string, identifier: string): Promise<void> {
+    await this.accountLock.resetFailedAttempts(userId);
+    await this.rateLimiter.reset(
+      this.loginIdentifierKey(identifier),
+      LOGIN_IDENTIFIER_LIMIT,
+    );
+  }
+
+  /**
+   * Reject the login attempt when the identifier or client IP
+   * has exceeded its failed login limit
+   */
+  private async assertLoginNotLimited(
+    identifier: string,
+    metadata?: RequestMetadata,
+  ): Promise<void> {
+    const message = 'Too many failed login attempts. Please try again later.';
+
+    await this.rateLimiter.assertNotLimited(
+      this.loginIdentifierKey(identifier),
+      LOGIN_IDENTIFIER_LIMIT,
+      message,
+    );
+
+    if (metadata?.ipAddress) {
+      await this.rateLimiter.assertNotLimited(
+        this.loginIpKey(metadata.ipAddress),
+        LOGIN_IP_LIMIT,
+        message,
+      );
+    }
+  }
+
+  private async recordFailedLogin(
+    identifier: string,
+    metadata?: RequestMetadata,
+  ): Promise<void> {
+    await this.rateLimiter.hit(
+      this.loginIdentifierKey(identifier),
+      LOGIN_IDENTIFIER_LIMIT,
+    );
+
+    if (metadata?.ipAddress) {
+      await this.rateLimiter.hit(
+        this.loginIpKey(metadata.ipAddress),
+        LOGIN_IP_LIMIT,
+      );
+    }
+  }
+
+  private loginIdentifierKey(identifier: string): string {
+    return `login:identifier:${identifier}`;
+  }
+
+  private loginIpKey(ipAddress: string): string {
+    return `login:ip:${ipAddress}`;
+  }
+
+  private async verifyCurrentPassword(
+    id: string,
+    password: string,
+  ): Promise<void> {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id },
+      select: { password: true },
+    });
+
+    if (!user.password) {
+      throw new BadRequestException(
+        'Your account does not have a password. Use password reset to set one.',
+      );
+    }
+    if (!(await argon2.verify(user.password, password))) {
+      throw new BadRequestException('Current password is incorrect');
+    }
   }
 }
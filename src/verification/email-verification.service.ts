@@ -0,0 +1,126 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { VerificationTokenType } from 'generated/prisma/client';
+import { MailService } from 'src/common/mail/mail.service';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import {
+  RateLimiterService,
+  RateLimitPolicy,
+} from 'src/common/rate-limit/rate-limiter.service';
+import { VerificationTokenService } from './verification-token.service';
+
+const EMAIL_VERIFICATION_TTL_MINUTES = 24 * 60;
+
+// Verification emails that can be requested per address
+const RESEND_LIMIT: RateLimitPolicy = {
+  limit: 3,
+  windowSeconds: 60 * 60,
+};
+
+@Injectable()
+export class EmailVerificationService {
+  private readonly logger = new Logger(EmailVerificationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tokens: VerificationTokenService,
+    private readonly mailService: MailService,
+    private readonly rateLimiter: RateLimiterService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Issue a verification token and email it to the user.
+   * Delivery failures are logged, the user can request a new email.
+   */
+  async sendVerificationEmail(user: {
+    id: string;
+    name: string;
+    email: string;
+  }): Promise<void> {
+    try {
+      const token = await this.tokens.issue(
+        user.id,
+        VerificationTokenType.EMAIL_VERIFICATION,
+        EMAIL_VERIFICATION_TTL_MINUTES,
+      );
+      const link = `${this.clientOrigin()}/verify-email?token=${token}`;
+
+      await this.mailService.send({
+        to: user.email,
+        subject: 'Verify your email address',
+        text: [
+          `Hi ${user.name},`,
+          '',
+          'Please confirm your email address by opening the link below:',
+          link,
+          '',
+          'The link expires in 24 hours.',
+        ].join('\n'),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send verification email to user ${user.id}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Consume a verification token and mark the email as verified
+   */
+  async verifyEmail(token: string) {
+    const record = await this.tokens.consume(
+      token,
+      VerificationTokenType.EMAIL_VERIFICATION,
+    );
+
+    return this.prisma.user.update({
+      where: { id: record.userId },
+      data: { emailVerified: new Date() },
+      omit: {
+        password: true,
+        twoFactorSecret: true,
+      },
+    });
+  }
+
+  /**
+   * Send a new verification email. Responds the same way whether or not
+   * the address exists, to avoid account enumeration.
+   */
+  async resendVerificationEmail(email: string): Promise<void> {
+    const normalizedEmail = email.toLowerCase().trim();
+    const rateLimitKey = `resend-verification:${normalizedEmail}`;
+
+    await this.rateLimiter.assertNotLimited(
+      rateLimitKey,
+      RESEND_LIMIT,
+      'Too many verification emails requested. Please try again later.',
+    );
+    await this.rateLimiter.hit(rateLimitKey, RESEND_LIMIT);
+
+    const user = await this.prisma.user.findUnique({
+      where: { email: normalizedEmail },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        emailVerified: true,
+        isActive: true,
+      },
+    });
+
+    if (!user || !user.isActive || user.emailVerified) {
+      return;
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  private clientOrigin(): string {
+    return (
+      this.configService.get<string>('CLIENT_ORIGIN') || 'http://localhost:3000'
+    );
+  }
+}
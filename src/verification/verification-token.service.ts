@@ -0,0 +1,97 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { createHash, randomBytes } from 'node:crypto';
+import { VerificationTokenType } from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+
+/**
+ * Issues and consumes single-use verification tokens.
+ * Only a SHA-256 hash of each token is stored.
+ */
+@Injectable()
+export class VerificationTokenService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Issue a new token, replacing any unused token of the same type
+   *
+   * @returns the raw token to deliver to the user
+   */
+  async issue(
+    userId: string,
+    type: VerificationTokenType,
+    ttlMinutes: number,
+  ): Promise<string> {
+    const token = randomBytes(32).toString('hex');
+
+    await this.prisma.$transaction([
+      this.prisma.verificationToken.deleteMany({
+        where: { userId, type, used: false },
+      }),
+      this.prisma.verificationToken.create({
+        data: {
+          userId,
+          type,
+          token: this.hash(token),
+          expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+        },
+      }),
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Validate a raw token without using it up
+   *
+   * @returns the token record
+   */
+  async findValid(token: string, type: VerificationTokenType) {
+    const record = await this.prisma.verificationToken.findUnique({
+      where: { token: this.hash(token) },
+    });
+
+    if (
+      !record ||
+      record.type !== type ||
+      record.used ||
+      record.expiresAt <= new Date()
+    ) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return record;
+  }
+
+  /**
+   * Validate a raw token and mark it as used
+   *
+   * @returns the consumed token record
+   */
+  async consume(token: string, type: VerificationTokenType) {
+    const record = await this.findValid(token, type);
+
+    // Guard against the same token being consumed concurrently
+    const { count } = await this.prisma.verificationToken.updateMany({
+      where: { id: record.id, used: false },
+      data: { used: true, usedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return record;
+  }
+
+  /**
+   * Invalidate all unused tokens of a type for the user
+   */
+  async revokeAll(userId: string, type: VerificationTokenType): Promise<void> {
+    await this.prisma.verificationToken.deleteMany({
+      where: { userId, type, used: false },
+    });
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
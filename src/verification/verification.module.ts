@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { VerificationTokenService } from './verification-token.service';
+import { EmailVerificationService } from './email-verification.service';
+
+@Module({
+  providers: [VerificationTokenService, EmailVerificationService],
+  exports: [VerificationTokenService, EmailVerificationService],
+})
+export class VerificationModule {}
@@ -0,0 +1,13 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import '../interfaces/workspace-context.interface';
+
+/**
+ * Resolves the workspace context attached by WorkspaceContextGuard
+ */
+export const CurrentWorkspace = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) => {
+    const request = context.switchToHttp().getRequest<Request>();
+    return request.workspace;
+  },
+);
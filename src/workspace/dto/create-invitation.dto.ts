@@ -0,0 +1,34 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEmail,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { WorkspaceRole } from 'generated/prisma/client';
+import { ASSIGNABLE_ROLES } from './update-member-role.dto';
+
+export class CreateInvitationDto {
+  @ApiProperty({
+    description: 'Email address to invite',
+    example: 'jane.doe@example.com',
+    maxLength: 255,
+    format: 'email',
+  })
+  @IsString()
+  @MaxLength(255, { message: 'Email must not exceed 255 characters' })
+  @IsEmail({}, { message: 'Invalid email address' })
+  email: string;
+
+  @ApiPropertyOptional({
+    description: 'Role the invitee receives on joining',
+    enum: ASSIGNABLE_ROLES,
+    default: WorkspaceRole.MEMBER,
+  })
+  @IsOptional()
+  @IsIn(ASSIGNABLE_ROLES, {
+    message: `Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}`,
+  })
+  role?: (typeof ASSIGNABLE_ROLES)[number];
+}
@@ -0,0 +1,49 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+export class CreateWorkspaceDto {
+  @ApiProperty({
+    description: 'Workspace name',
+    example: 'Acme Inc.',
+    minLength: 2,
+    maxLength: 100,
+  })
+  @IsString()
+  @MinLength(2, { message: 'Name must be at least 2 characters long' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  name: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Unique URL friendly identifier, generated from the name when omitted',
+    example: 'acme',
+    minLength: 3,
+    maxLength: 50,
+    pattern: '^[a-z0-9]+(?:-[a-z0-9]+)*$',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(3, { message: 'Slug must be at least 3 characters long' })
+  @MaxLength(50, { message: 'Slug must not exceed 50 characters' })
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message:
+      'Slug can only contain lowercase letters and numbers separated by single hyphens',
+  })
+  slug?: string;
+
+  @ApiPropertyOptional({
+    description: 'Short description of the workspace',
+    example: 'Product development team',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'Description must not exceed 500 characters' })
+  description?: string;
+}
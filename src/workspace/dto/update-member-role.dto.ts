@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn } from 'class-validator';
+import { WorkspaceRole } from 'generated/prisma/client';
+
+// Ownership can only change hands through a transfer
+export const ASSIGNABLE_ROLES = [
+  WorkspaceRole.ADMIN,
+  WorkspaceRole.MEMBER,
+  WorkspaceRole.GUEST,
+] as const;
+
+export class UpdateMemberRoleDto {
+  @ApiProperty({
+    description: 'New role of the member',
+    enum: ASSIGNABLE_ROLES,
+    example: WorkspaceRole.ADMIN,
+  })
+  @IsIn(ASSIGNABLE_ROLES, {
+    message: `Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}`,
+  })
+  role: (typeof ASSIGNABLE_ROLES)[number];
+}
@@ -0,0 +1,53 @@
+import {
+  BadRequestException,
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { isUUID } from 'class-validator';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { WorkspaceService } from '../workspace.service';
+import { WORKSPACE_HEADER, WORKSPACE_PARAM } from '../workspace.constants';
+import '../interfaces/workspace-context.interface';
+
+/**
+ * Resolves the workspace of the request from the `workspaceId` route param
+ * or the `X-Workspace-Id` header and verifies the user is a member.
+ * Must be used after AuthenticatedGuard.
+ */
+@Injectable()
+export class WorkspaceContextGuard implements CanActivate {
+  constructor(private readonly workspaceService: WorkspaceService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const user = request.user as SafeUser;
+
+    const workspaceId =
+      (request.params?.[WORKSPACE_PARAM] as string | undefined) ??
+      request.header(WORKSPACE_HEADER);
+
+    if (!workspaceId) {
+      throw new BadRequestException(
+        `Workspace is required. Provide the ${WORKSPACE_HEADER} header.`,
+      );
+    }
+    if (!isUUID(workspaceId)) {
+      throw new BadRequestException('Invalid workspace id');
+    }
+
+    const membership = await this.workspaceService.findMembership(
+      workspaceId,
+      user.id,
+    );
+    if (!membership) {
+      throw new NotFoundException('Workspace not found');
+    }
+
+    request.workspace = { id: workspaceId, role: membership.role };
+
+    return true;
+  }
+}
@@ -0,0 +1,15 @@
+import { WorkspaceRole } from 'generated/prisma/client';
+
+/**
+ * Workspace the current request operates in, resolved by WorkspaceContextGuard
+ */
+export interface WorkspaceContext {
+  id: string;
+  role: WorkspaceRole;
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    workspace?: WorkspaceContext;
+  }
+}
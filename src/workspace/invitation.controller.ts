@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Request as ReqDecorator,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { InvitationService } from './invitation.service';
+
+@ApiTags('Invitations')
+@Controller('invitations')
+export class InvitationController {
+  constructor(private readonly invitationService: InvitationService) {}
+
+  @Get(':token')
+  @ApiOperation({ summary: 'Get the details of a pending invitation' })
+  async preview(@Param('token') token: string) {
+    const invitation = await this.invitationService.previewInvitation(token);
+
+    return {
+      message: 'Invitation retrieved successfully',
+      data: invitation,
+    };
+  }
+
+  @Post(':token/accept')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Accept a workspace invitation',
+    description:
+      'Adds the logged-in user to the workspace. Without a session and without an account for the invited email, returns the data to prefill POST /auth/register, which accepts the invitation with `invitationToken`.',
+  })
+  async accept(@Param('token') token: string, @ReqDecorator() req: Request) {
+    if (req.isAuthenticated()) {
+      const membership = await this.invitationService.acceptInvitation(
+        token,
+        req.user as SafeUser,
+      );
+
+      return {
+        message: 'Invitation accepted successfully',
+        data: membership,
+      };
+    }
+
+    const invitation = await this.invitationService.previewInvitation(token);
+    if (!invitation.registrationRequired) {
+      throw new UnauthorizedException('Log in to accept this invitation');
+    }
+
+    return {
+      message: 'Create an account to accept the invitation',
+      data: { ...invitation, invitationToken: token },
+    };
+  }
+
+  @Post(':token/decline')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Decline a workspace invitation' })
+  async decline(@Param('token') token: string) {
+    await this.invitationService.declineInvitation(token);
+
+    return {
+      message: 'Invitation declined',
+      data: null,
+    };
+  }
+}
@@ -0,0 +1,272 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'node:crypto';
+import { InvitationStatus, WorkspaceRole } from 'generated/prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { MailService } from 'src/common/mail/mail.service';
+import { WorkspaceService } from './workspace.service';
+import { WorkspaceContext } from './interfaces/workspace-context.interface';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+
+const INVITATION_TTL_DAYS = 7;
+
+const INVITATION_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  status: true,
+  expiresAt: true,
+  createdAt: true,
+  invitedBy: { select: { id: true, name: true, username: true } },
+} as const;
+
+/**
+ * Email invitations into a workspace.
+ * Like verification tokens, only a SHA-256 hash of each token is stored.
+ */
+@Injectable()
+export class InvitationService {
+  private readonly logger = new Logger(InvitationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly workspaceService: WorkspaceService,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Invite an email address, replacing a pending invitation for it
+   */
+  async createInvitation(
+    context: WorkspaceContext,
+    inviterId: string,
+    data: CreateInvitationDto,
+  ) {
+    const role = data.role ?? WorkspaceRole.MEMBER;
+    this.workspaceService.assertCanManage(context, role);
+
+    const email = data.email.toLowerCase().trim();
+    const member = await this.prisma.workspaceMember.findFirst({
+      where: { workspaceId: context.id, user: { email } },
+      select: { id: true },
+    });
+    if (member) {
+      throw new ConflictException('This user is already a workspace member');
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const [, invitation] = await this.prisma.$transaction([
+      this.prisma.workspaceInvitation.deleteMany({
+        where: {
+          workspaceId: context.id,
+          email,
+          status: InvitationStatus.PENDING,
+        },
+      }),
+      this.prisma.workspaceInvitation.create({
+        data: {
+          workspaceId: context.id,
+          email,
+          role,
+          token: this.hash(token),
+          invitedById: inviterId,
+          expiresAt: new Date(
+            Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000,
+          ),
+        },
+        select: {
+          ...INVITATION_SELECT,
+          workspace: { select: { name: true } },
+        },
+      }),
+    ]);
+
+    await this.sendInvitationEmail(
+      email,
+      invitation.workspace.name,
+      invitation.invitedBy?.name,
+      token,
+    );
+
+    return invitation;
+  }
+
+  async listPending(context: WorkspaceContext) {
+    return this.prisma.workspaceInvitation.findMany({
+      where: {
+        workspaceId: context.id,
+        status: InvitationStatus.PENDING,
+        expiresAt: { gt: new Date() },
+      },
+      select: INVITATION_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revokeInvitation(
+    context: WorkspaceContext,
+    invitationId: string,
+  ): Promise<void> {
+    const { count } = await this.prisma.workspaceInvitation.deleteMany({
+      where: {
+        id: invitationId,
+        workspaceId: context.id,
+        status: InvitationStatus.PENDING,
+      },
+    });
+    if (count === 0) {
+      throw new NotFoundException('Invitation not found');
+    }
+  }
+
+  /**
+   * Look up a pending invitation by its raw token
+   */
+  async findPending(token: string) {
+    const invitation = await this.prisma.workspaceInvitation.findUnique({
+      where: { token: this.hash(token) },
+      include: { workspace: { select: { id: true, name: true, slug: true } } },
+    });
+
+    if (
+      !invitation ||
+      invitation.status !== InvitationStatus.PENDING ||
+      invitation.expiresAt <= new Date()
+    ) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Describe an invitation so the client can offer login or registration
+   */
+  async previewInvitation(token: string) {
+    const invitation = await this.findPending(token);
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email: invitation.email },
+      select: { id: true },
+    });
+
+    return {
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+      workspace: invitation.workspace,
+      registrationRequired: !existingUser,
+    };
+  }
+
+  /**
+   * Accept the invitation on behalf of the user it was sent to.
+   * The email must be verified, otherwise anyone registering with the
+   * invited address could take the invitation.
+   *
+   * @returns the membership created for the user
+   */
+  async acceptInvitation(
+    token: string,
+    user: { id: string; email: string; emailVerified: Date | null },
+  ) {
+    const invitation = await this.findPending(token);
+
+    if (invitation.email !== user.email.toLowerCase()) {
+      throw new ForbiddenException(
+        'This invitation was sent to a different email address',
+      );
+    }
+    if (!user.emailVerified) {
+      throw new ForbiddenException(
+        'Verify your email address before accepting the invitation',
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      // Guard against the same invitation being answered concurrently
+      const { count } = await tx.workspaceInvitation.updateMany({
+        where: { id: invitation.id, status: InvitationStatus.PENDING },
+        data: { status: InvitationStatus.ACCEPTED, respondedAt: new Date() },
+      });
+      if (count === 0) {
+        throw new BadRequestException('Invalid or expired invitation');
+      }
+
+      return tx.workspaceMember.upsert({
+        where: {
+          workspaceId_userId: {
+            workspaceId: invitation.workspaceId,
+            userId: user.id,
+          },
+        },
+        create: {
+          workspaceId: invitation.workspaceId,
+          userId: user.id,
+          role: invitation.role,
+        },
+        update: {},
+        include: { workspace: true },
+      });
+    });
+  }
+
+  async declineInvitation(token: string): Promise<void> {
+    const invitation = await this.findPending(token);
+
+    const { count } = await this.prisma.workspaceInvitation.updateMany({
+      where: { id: invitation.id, status: InvitationStatus.PENDING },
+      data: { status: InvitationStatus.DECLINED, respondedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+  }
+
+  /**
+   * Delivery failures are logged, the invitation can be sent again.
+   */
+  private async sendInvitationEmail(
+    email: string,
+    workspaceName: string,
+    inviterName: string | undefined,
+    token: string,
+  ): Promise<void> {
+    const link = `${this.clientOrigin()}/invitations/${token}`;
+
+    try {
+      await this.mailService.send({
+        to: email,
+        subject: `You have been invited to join ${workspaceName}`,
+        text: [
+          'Hi,',
+          '',
+          `${inviterName ?? 'A team member'} invited you to join the ${workspaceName} workspace.`,
+          'Open the link below to accept the invitation:',
+          link,
+          '',
+          `The invitation expires in ${INVITATION_TTL_DAYS} days.`,
+        ].join('\n'),
+      });
+    } catch (error) {
+      this.logger.error(`Failed to send invitation email to ${email}`, error);
+    }
+  }
+
+  private clientOrigin(): string {
+    return (
+      this.configService.get<string>('CLIENT_ORIGIN') || 'http://localhost:3000'
+    );
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,5 @@
+// Header used to select the workspace when the route has no workspace param
+export const WORKSPACE_HEADER = 'x-workspace-id';
+
+// Route param that carries the workspace id on workspace routes
+export const WORKSPACE_PARAM = 'workspaceId';
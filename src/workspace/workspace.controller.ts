@@ -0,0 +1,229 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedGuard } from 'src/auth/guards/authenticated.guard';
+import { AuthorizationGuard } from 'src/authorization/guards/authorization.guard';
+import { Permissions } from 'src/authorization/decorators/permissions.decorator';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { SafeUser } from 'src/user/interfaces/safe-user.interface';
+import { WorkspaceService } from './workspace.service';
+import { CurrentWorkspace } from './decorators/current-workspace.decorator';
+import { WorkspaceContext } from './interfaces/workspace-context.interface';
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import { UpdateWorkspaceDto } from './dto/update-workspace.dto';
+import { UpdateMemberRoleDto } from './dto/update-member-role.dto';
+import { TransferOwnershipDto } from './dto/transfer-ownership.dto';
+import { InvitationService } from './invitation.service';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+
+@ApiTags('Workspaces')
+@Controller('workspaces')
+@UseGuards(AuthenticatedGuard, AuthorizationGuard)
+export class WorkspaceController {
+  constructor(
+    private readonly workspaceService: WorkspaceService,
+    private readonly invitationService: InvitationService,
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a workspace owned by the current user' })
+  async create(
+    @CurrentUser() user: SafeUser,
+    @Body() body: CreateWorkspaceDto,
+  ) {
+    const workspace = await this.workspaceService.createWorkspace(
+      user.id,
+      body,
+    );
+
+    return {
+      message: 'Workspace created successfully',
+      data: workspace,
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List workspaces of the current user' })
+  async list(@CurrentUser() user: SafeUser) {
+    const workspaces = await this.workspaceService.listForUser(user.id);
+
+    return {
+      message: 'Workspaces retrieved successfully',
+      data: workspaces,
+    };
+  }
+
+  @Permissions('workspace:read')
+  @Get(':workspaceId')
+  @ApiOperation({ summary: 'Get a workspace' })
+  async findOne(@CurrentWorkspace() workspace: WorkspaceContext) {
+    const data = await this.workspaceService.getWorkspace(workspace);
+
+    return {
+      message: 'Workspace retrieved successfully',
+      data,
+    };
+  }
+
+  @Permissions('workspace:update')
+  @Patch(':workspaceId')
+  @ApiOperation({ summary: 'Update a workspace (owner or admin)' })
+  async update(
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Body() body: UpdateWorkspaceDto,
+  ) {
+    const data = await this.workspaceService.updateWorkspace(workspace, body);
+
+    return {
+      message: 'Workspace updated successfully',
+      data,
+    };
+  }
+
+  @Permissions('workspace:delete')
+  @Delete(':workspaceId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a workspace (owner only)' })
+  async remove(@CurrentWorkspace() workspace: WorkspaceContext) {
+    await this.workspaceService.deleteWorkspace(workspace);
+
+    return {
+      message: 'Workspace deleted successfully',
+      data: null,
+    };
+  }
+
+  @Permissions('member:read')
+  @Get(':workspaceId/members')
+  @ApiOperation({ summary: 'List members of a workspace' })
+  async listMembers(@CurrentWorkspace() workspace: WorkspaceContext) {
+    const members = await this.workspaceService.listMembers(workspace);
+
+    return {
+      message: 'Workspace members retrieved successfully',
+      data: members,
+    };
+  }
+
+  @Permissions('member:manage')
+  @Patch(':workspaceId/members/:userId')
+  @ApiOperation({ summary: 'Change the role of a workspace member' })
+  async updateMemberRole(
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() body: UpdateMemberRoleDto,
+  ) {
+    const member = await this.workspaceService.updateMemberRole(
+      workspace,
+      userId,
+      body.role,
+    );
+
+    return {
+      message: 'Member role updated successfully',
+      data: member,
+    };
+  }
+
+  @Permissions('workspace:read')
+  @Delete(':workspaceId/members/:userId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Remove a member from a workspace',
+    description: 'Members can remove themselves to leave the workspace.',
+  })
+  async removeMember(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('userId', ParseUUIDPipe) userId: string,
+  ) {
+    await this.workspaceService.removeMember(workspace, user.id, userId);
+
+    return {
+      message: 'Member removed successfully',
+      data: null,
+    };
+  }
+
+  @Permissions('workspace:transfer')
+  @Post(':workspaceId/transfer-ownership')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Transfer workspace ownership to another member (owner only)',
+  })
+  async transferOwnership(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Body() body: TransferOwnershipDto,
+  ) {
+    const members = await this.workspaceService.transferOwnership(
+      workspace,
+      user.id,
+      body.userId,
+    );
+
+    return {
+      message: 'Workspace ownership transferred successfully',
+      data: members,
+    };
+  }
+
+  @Permissions('invitation:manage')
+  @Post(':workspaceId/invitations')
+  @ApiOperation({ summary: 'Invite someone to the workspace by email' })
+  async invite(
+    @CurrentUser() user: SafeUser,
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Body() body: CreateInvitationDto,
+  ) {
+    const invitation = await this.invitationService.createInvitation(
+      workspace,
+      user.id,
+      body,
+    );
+
+    return {
+      message: 'Invitation sent successfully',
+      data: invitation,
+    };
+  }
+
+  @Permissions('invitation:manage')
+  @Get(':workspaceId/invitations')
+  @ApiOperation({ summary: 'List pending invitations of the workspace' })
+  async listInvitations(@CurrentWorkspace() workspace: WorkspaceContext) {
+    const invitations = await this.invitationService.listPending(workspace);
+
+    return {
+      message: 'Invitations retrieved successfully',
+      data: invitations,
+    };
+  }
+
+  @Permissions('invitation:manage')
+  @Delete(':workspaceId/invitations/:invitationId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke a pending invitation' })
+  async revokeInvitation(
+    @CurrentWorkspace() workspace: WorkspaceContext,
+    @Param('invitationId', ParseUUIDPipe) invitationId: string,
+  ) {
+    await this.invitationService.revokeInvitation(workspace, invitationId);
+
+    return {
+      message: 'Invitation revoked successfully',
+      data: null,
+    };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { WorkspaceService } from './workspace.service';
+import { WorkspaceController } from './workspace.controller';
+import { WorkspaceContextGuard } from './guards/workspace-context.guard';
+import { InvitationService } from './invitation.service';
+import { InvitationController } from './invitation.controller';
+
+@Module({
+  controllers: [WorkspaceController, InvitationController],
+  providers: [WorkspaceService, InvitationService, WorkspaceContextGuard],
+  exports: [WorkspaceService, InvitationService, WorkspaceContextGuard],
+})
+export class WorkspaceModule {}
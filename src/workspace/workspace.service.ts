@@ -0,0 +1,280 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { WorkspaceRole } from 'generated/prisma/client';
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import { UpdateWorkspaceDto } from './dto/update-workspace.dto';
+import { WorkspaceContext } from './interfaces/workspace-context.interface';
+import { hasPermission } from 'src/authorization/permissions';
+
+// Higher rank means more privileges
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  [WorkspaceRole.OWNER]: 3,
+  [WorkspaceRole.ADMIN]: 2,
+  [WorkspaceRole.MEMBER]: 1,
+  [WorkspaceRole.GUEST]: 0,
+};
+
+const MEMBER_USER_SELECT = {
+  id: true,
+  name: true,
+  username: true,
+  email: true,
+  image: true,
+} as const;
+
+@Injectable()
+export class WorkspaceService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async createWorkspace(userId: string, data: CreateWorkspaceDto) {
+    const slug = data.slug ?? (await this.generateSlug(data.name));
+    await this.assertSlugAvailable(slug);
+
+    return this.prisma.workspace.create({
+      data: {
+        name: data.name.trim(),
+        slug,
+        description: data.description?.trim(),
+        members: {
+          create: { userId, role: WorkspaceRole.OWNER },
+        },
+      },
+    });
+  }
+
+  /**
+   * Create the personal workspace of a newly registered user
+   */
+  async createPersonalWorkspace(userId: string, name: string) {
+    const workspaceName = `${name.trim()}'s Workspace`.slice(0, 100);
+
+    return this.prisma.workspace.create({
+      data: {
+        name: workspaceName,
+        slug: await this.generateSlug(name),
+        isPersonal: true,
+        members: {
+          create: { userId, role: WorkspaceRole.OWNER },
+        },
+      },
+    });
+  }
+
+  /**
+   * List the workspaces the user belongs to together with their role
+   */
+  async listForUser(userId: string) {
+    const memberships = await this.prisma.workspaceMember.findMany({
+      where: { userId },
+      include: { workspace: true },
+      orderBy: { joinedAt: 'asc' },
+    });
+
+    return memberships.map(({ workspace, role }) => ({ ...workspace, role }));
+  }
+
+  async getWorkspace(context: WorkspaceContext) {
+    const workspace = await this.prisma.workspace.findUnique({
+      where: { id: context.id },
+      include: { _count: { select: { members: true } } },
+    });
+    if (!workspace) {
+      throw new NotFoundException('Workspace not found');
+    }
+
+    return { ...workspace, role: context.role };
+  }
+
+  async updateWorkspace(context: WorkspaceContext, data: UpdateWorkspaceDto) {
+    if (data.slug) {
+      await this.assertSlugAvailable(data.slug, context.id);
+    }
+
+    return this.prisma.workspace.update({
+      where: { id: context.id },
+      data: {
+        name: data.name?.trim(),
+        slug: data.slug,
+        description: data.description?.trim(),
+      },
+    });
+  }
+
+  async deleteWorkspace(context: WorkspaceContext): Promise<void> {
+    await this.prisma.workspace.delete({ where: { id: context.id } });
+  }
+
+  async findMembership(workspaceId: string, userId: string) {
+    return this.prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId } },
+    });
+  }
+
+  async listMembers(context: WorkspaceContext) {
+    return this.prisma.workspaceMember.findMany({
+      where: { workspaceId: context.id },
+      include: { user: { select: MEMBER_USER_SELECT } },
+      orderBy: { joinedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Change the role of a member. Admins can only manage members ranked
+   * below them and nobody can grant or give up ownership this way.
+   */
+  async updateMemberRole(
+    context: WorkspaceContext,
+    userId: string,
+    role: WorkspaceRole,
+  ) {
+    if (role === WorkspaceRole.OWNER) {
+      throw new BadRequestException(
+        'Use ownership transfer to make a member the owner',
+      );
+    }
+
+    const member = await this.getMember(context.id, userId);
+    if (member.role === WorkspaceRole.OWNER) {
+      throw new BadRequestException(
+        'The role of the workspace owner cannot be changed. Transfer ownership with POST /workspaces/:workspaceId/transfer-ownership instead.',
+      );
+    }
+    this.assertCanManage(context, member.role);
+
+    return this.prisma.workspaceMember.update({
+      where: { id: member.id },
+      data: { role },
+      include: { user: { select: MEMBER_USER_SELECT } },
+    });
+  }
+
+  /**
+   * Remove a member from the workspace. Any member can remove themself,
+   * except the owner who has to transfer ownership first.
+   */
+  async removeMember(
+    context: WorkspaceContext,
+    currentUserId: string,
+    userId: string,
+  ): Promise<void> {
+    const member = await this.getMember(context.id, userId);
+
+    if (member.role === WorkspaceRole.OWNER) {
+      throw new BadRequestException(
+        'The workspace owner cannot be removed. Transfer ownership first.',
+      );
+    }
+
+    if (userId !== currentUserId) {
+      if (!hasPermission(context.role, 'member:manage')) {
+        throw new ForbiddenException(
+          'You do not have permission to perform this action',
+        );
+      }
+      this.assertCanManage(context, member.role);
+    }
+
+    await this.prisma.workspaceMember.delete({ where: { id: member.id } });
+  }
+
+  /**
+   * Hand the workspace over to another member. The previous owner stays
+   * on as an admin.
+   */
+  async transferOwnership(
+    context: WorkspaceContext,
+    currentUserId: string,
+    userId: string,
+  ) {
+    if (userId === currentUserId) {
+      throw new BadRequestException('You already own this workspace');
+    }
+
+    const member = await this.getMember(context.id, userId);
+
+    await this.prisma.$transaction([
+      this.prisma.workspaceMember.update({
+        where: {
+          workspaceId_userId: {
+            workspaceId: context.id,
+            userId: currentUserId,
+          },
+        },
+        data: { role: WorkspaceRole.ADMIN },
+      }),
+      this.prisma.workspaceMember.update({
+        where: { id: member.id },
+        data: { role: WorkspaceRole.OWNER },
+      }),
+    ]);
+
+    return this.listMembers(context);
+  }
+
+  /**
+   * Only the owner can manage members ranked the same as or above themself
+   */
+  assertCanManage(context: WorkspaceContext, targetRole: WorkspaceRole) {
+    if (
+      context.role !== WorkspaceRole.OWNER &&
+      ROLE_RANK[targetRole] >= ROLE_RANK[context.role]
+    ) {
+      throw new ForbiddenException(
+        'You do not have permission to manage this member',
+      );
+    }
+  }
+
+  private async getMember(workspaceId: string, userId: string) {
+    const member = await this.findMembership(workspaceId, userId);
+    if (!member) {
+      throw new NotFoundException('Member not found');
+    }
+
+    return member;
+  }
+
+  private async assertSlugAvailable(slug: string, workspaceId?: string) {
+    const existing = await this.prisma.workspace.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+    if (existing && existing.id !== workspaceId) {
+      throw new ConflictException('This workspace slug is already taken');
+    }
+  }
+
+  /**
+   * Build a unique slug from the name, adding a random suffix on collision
+   */
+  private async generateSlug(name: string): Promise<string> {
+    let base = name
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 36);
+    if (base.length < 3) {
+      base = base ? `workspace-${base}` : 'workspace';
+    }
+
+    let slug = base;
+    while (
+      await this.prisma.workspace.findUnique({
+        where: { slug },
+        select: { id: true },
+      })
+    ) {
+      slug = `${base}-${randomBytes(3).toString('hex')}`;
+    }
+
+    return slug;
+  }
+}